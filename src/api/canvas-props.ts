@@ -1,5 +1,6 @@
 import { RenderProps } from "@react-three/fiber";
 import { PropsWithChildren } from "react";
+import { AltitudeReference } from "./coordinates";
 import { Coords } from "./coords";
 
 /**
@@ -35,6 +36,25 @@ export interface CanvasProps extends Coords, Omit<RenderProps<HTMLCanvasElement>
    */
   beforeId?: string;
 
+  /**
+   * What the origin `altitude` is measured from, e.g. `"terrain"` to put the origin on the
+   * map terrain. {@link NearCoordinates} children are then placed relative to the resolved
+   * altitude, above sea level.
+   * @defaultValue "sea"
+   */
+  altitudeReference?: AltitudeReference;
+
+  /**
+   * Moves the origin to the map center whenever the center gets farther than this many meters
+   * from it, `true` for 1000 meters, so the scene stays precise while the map follows a vehicle
+   * on a long drive. `latitude` and `longitude` set the origin again when they change.
+   *
+   * Positions computed from the origin, e.g. with {@link coordsToVector3}, must then be updated:
+   * {@link NearCoordinates} does it by itself, and {@link useOrigin} tells user code when.
+   * @defaultValue false
+   */
+  autoRebase?: boolean | number;
+
   /**
    * Controls when the scene re-renders.
    * - `"always"`: Continuously render (default)
@@ -58,4 +78,16 @@ export interface CanvasProps extends Coords, Omit<RenderProps<HTMLCanvasElement>
    * @defaultValue false
    */
   overlay?: boolean;
+
+  /**
+   * When true, matrices are rebased on the camera every frame: the Three camera sits exactly
+   * at the eye and the map projection is composed relative to it in float64, so only small,
+   * camera relative values reach the float32 GPU matrices.
+   *
+   * Use this if objects jitter at high zoom levels, far from the `Canvas` origin.
+   * Scene and world coordinates stay relative to the `Canvas` origin, so nothing else changes.
+   *
+   * @defaultValue false
+   */
+  floatingOrigin?: boolean;
 }
@@ -1,9 +1,24 @@
 import { createPortal, useFrame, useThree } from "@react-three/fiber";
-import { PropsWithChildren, memo, useLayoutEffect, useRef, useState } from "react";
-import { Matrix4Tuple, PerspectiveCamera, Scene } from "three";
+import { PropsWithChildren, memo, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { Matrix4Tuple, PerspectiveCamera, Plane, Scene } from "three";
+import { clipHorizon } from "../core/globe";
+import { QueuedScene, queueScene, renderQueuedScenes } from "../core/scene-queue";
 import { syncCamera } from "../core/sync-camera";
+import { useResolvedAltitude } from "../core/terrain-altitude";
 import { useCoordsToMatrix } from "../core/use-coords-to-matrix";
+import { useFunction } from "../core/use-function";
 import { R3M, useR3M } from "../core/use-r3m";
+import { Coords } from "./coords";
+
+/**
+ * What `altitude` is measured from:
+ * - `"sea"`: meters above sea level
+ * - `"terrain"`: on the map terrain, `altitude` is ignored
+ * - `"relative-to-terrain"`: meters above the map terrain
+ *
+ * Without terrain on the map, the terrain is at sea level.
+ */
+export type AltitudeReference = 'sea' | 'terrain' | 'relative-to-terrain';
 
 /**
  * Props for the Coordinates component.
@@ -20,10 +35,25 @@ export interface CoordinatesProps extends PropsWithChildren {
   latitude: number;
 
   /**
-   * The altitude in meters above sea level.
+   * The altitude in meters, above sea level unless `altitudeReference` says otherwise.
    * @defaultValue 0
    */
   altitude?: number;
+
+  /**
+   * What `altitude` is measured from. Terrain based references follow the map terrain,
+   * exaggeration included, and update as its tiles load.
+   * @defaultValue "sea"
+   */
+  altitudeReference?: AltitudeReference;
+
+  /**
+   * Order in which the scenes of `Coordinates` render, lowest first. Scenes with the same
+   * `renderOrder` render from the farthest to the nearest to the camera, so transparent
+   * objects blend over the scenes behind them. All of them render before the Canvas scene.
+   * @defaultValue 0
+   */
+  renderOrder?: number;
 }
 
 /**
@@ -38,6 +68,12 @@ export interface CoordinatesProps extends PropsWithChildren {
  * which ensures proper scale at that geographic location. This is more accurate than
  * `NearCoordinates` for distant locations but has slightly more overhead.
  *
+ * Transparent objects are only sorted within their own scene; across scenes, use
+ * `renderOrder` or rely on the default back to front order of the scenes.
+ *
+ * Inside `Coordinates`, the origin used by {@link NearCoordinates}, {@link useOrigin} and
+ * the other components placing children in meters is the one of `Coordinates`, not the Canvas.
+ *
  * @example
  * ```tsx
  * import { Canvas, Coordinates } from '@wendylabsinc/react-three-map/maplibre';
@@ -68,45 +104,84 @@ export interface CoordinatesProps extends PropsWithChildren {
  * @see {@link NearCoordinates} for a simpler alternative at city-level distances
  */
 export const Coordinates = memo<CoordinatesProps>(({
-  latitude, longitude, altitude = 0, children
+  latitude, longitude, altitude = 0, altitudeReference, renderOrder = 0, children
 }) => {
 
   const [scene] = useState(() => new Scene())
 
   const r3m = useR3M();
 
+  const resolvedAltitude = useResolvedAltitude(r3m?.map, { latitude, longitude, altitude, altitudeReference });
+
   const origin = useCoordsToMatrix({
-    latitude, longitude, altitude, fromLngLat: r3m?.fromLngLat,
+    latitude, longitude, altitude: resolvedAltitude, fromLngLat: r3m?.fromLngLat,
   });
 
+  // children are placed relative to these coords, so `useCoords` has to return them rather than the Canvas ones
+  const portalState = useMemo(() => ({
+    events: { priority: 2 },
+    coords: { latitude, longitude, altitude: resolvedAltitude },
+  }), [latitude, longitude, resolvedAltitude]);
+
 
   if (!r3m) return null;
 
   return <>{createPortal(<>
-    <RenderAtCoords r3m={r3m} origin={origin} />
+    <RenderAtCoords
+      r3m={r3m}
+      origin={origin}
+      latitude={latitude}
+      longitude={longitude}
+      altitude={resolvedAltitude}
+      renderOrder={renderOrder}
+    />
     {children}
-  </>, scene, { events: { priority: 2 } })}</>
+  </>, scene, portalState)}</>
 })
 
 Coordinates.displayName = 'Coordinates';
 
-interface RenderAtCoordsProps {
+interface RenderAtCoordsProps extends Coords {
   r3m: R3M,
-  origin: Matrix4Tuple
+  origin: Matrix4Tuple,
+  renderOrder: number,
 }
 
-function RenderAtCoords({ r3m, origin }: RenderAtCoordsProps) {
+function RenderAtCoords({ r3m, origin, latitude, longitude, altitude, renderOrder }: RenderAtCoordsProps) {
 
   const { gl, scene, set } = useThree()
 
   const cameraRef = useRef<PerspectiveCamera>(null)
 
-  useFrame(() => {
-    if (!cameraRef.current) return;
-    syncCamera(cameraRef.current, origin, r3m.viewProjMx);
-    gl.render(scene, cameraRef.current);
+  const [horizon] = useState(() => new Plane())
+
+  const globe = () => r3m.globe && { projection: r3m.globe, coords: { latitude, longitude, altitude } };
+
+  const render = useFunction(() => {
+    const camera = cameraRef.current;
+    if (!camera) return;
+    // each scene has its own horizon, restore the one of the Canvas afterwards
+    const clippingPlanes = gl.clippingPlanes;
+    clipHorizon(gl, horizon, camera, globe());
+    gl.render(scene, camera);
+    gl.clippingPlanes = clippingPlanes;
   })
 
+  const [queued] = useState<QueuedScene>(() => ({ renderOrder, distance: 0, render }))
+
+  // sync every camera first, so scenes can be sorted by distance
+  useFrame(() => {
+    const camera = cameraRef.current;
+    if (!camera) return;
+    syncCamera(camera, origin, r3m.viewProjMx, globe(), r3m.floatingOrigin);
+    queued.renderOrder = renderOrder;
+    queued.distance = camera.position.length();
+    queueScene(gl, queued);
+  }, -1)
+
+  // the first `Coordinates` to get here renders them all
+  useFrame(() => renderQueuedScenes(gl))
+
   useLayoutEffect(() => {
     if (!cameraRef.current) return;
     set({
@@ -0,0 +1,168 @@
+import { MathUtils } from "three";
+import { Coords } from "./coords";
+import { CoordsConversionOptions } from "./coords-conversion";
+import { earthRadius } from "../core/earth-radius";
+import {
+  getOriginFrame, originEnuFrame, originMercatorLatitude, originMercatorZ,
+} from "../core/origin-frame";
+import { ecefToEnu, ecefToGeodetic, enuToEcef, geodeticToEcef } from "../core/wgs84";
+
+/**
+ * Options for {@link coordsArrayToPositions}.
+ */
+export interface CoordsArrayToPositionsOptions extends CoordsConversionOptions {
+  /**
+   * Array to write the positions into, e.g. a reused `BufferAttribute.array`.
+   * Must have the same length as the input.
+   */
+  target?: Float32Array;
+}
+
+/**
+ * Options for {@link positionsToCoordsArray}.
+ */
+export interface PositionsToCoordsArrayOptions extends CoordsConversionOptions {
+  /**
+   * Array to write the coordinates into. Must have the same length as the input.
+   */
+  target?: Float64Array;
+}
+
+function assertStride(length: number, target: ArrayLike<number> | undefined, name: string) {
+  if (length % 3 !== 0) {
+    throw new Error(`${name} length must be a multiple of 3, received ${length}.`);
+  }
+  if (target && target.length !== length) {
+    throw new Error(`Target length must be ${length}, received ${target.length}.`);
+  }
+}
+
+/**
+ * Converts a flat array of `[longitude, latitude, altitude, ...]` triplets into
+ * positions relative to `origin`, ready for a `BufferAttribute`.
+ *
+ * This is the batched version of {@link coordsToVector3}: results match it to float32
+ * precision, but the per-origin values are computed once and shared with every other
+ * conversion against the same origin. It has no DOM dependencies, so it can run inside a Web Worker
+ * and the returned buffer can be transferred back to the main thread.
+ *
+ * @param lngLatAlt - Flat array of `longitude, latitude, altitude` triplets in degrees and meters
+ * @param origin - The origin coordinates (typically the Canvas position)
+ * @param options - Conversion model and optional output array
+ * @returns Flat `x, y, z` positions in meters
+ * @throws Error if the input length is not a multiple of 3
+ *
+ * @example
+ * ```ts
+ * import { coordsArrayToPositions } from '@wendylabsinc/react-three-map/maplibre';
+ * import { BufferAttribute, BufferGeometry } from 'three';
+ *
+ * const lngLatAlt = new Float64Array([-0.1278, 51.5074, 0, -0.127, 51.508, 10]);
+ * const positions = coordsArrayToPositions(lngLatAlt, origin);
+ *
+ * const geometry = new BufferGeometry();
+ * geometry.setAttribute('position', new BufferAttribute(positions, 3));
+ * ```
+ *
+ * @example Inside a Web Worker
+ * ```ts
+ * // worker.ts
+ * import { coordsArrayToPositions } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * self.onmessage = ({ data: { lngLatAlt, origin } }) => {
+ *   const positions = coordsArrayToPositions(lngLatAlt, origin);
+ *   self.postMessage(positions, [positions.buffer]);
+ * };
+ * ```
+ *
+ * @see {@link positionsToCoordsArray} for the inverse operation
+ */
+export function coordsArrayToPositions(
+  lngLatAlt: ArrayLike<number>,
+  origin: Coords,
+  options?: CoordsArrayToPositionsOptions
+): Float32Array {
+  const length = lngLatAlt.length;
+  assertStride(length, options?.target, "Coordinates array");
+  const out = options?.target ?? new Float32Array(length);
+  const model = options?.model ?? 'mercator';
+  const frame = getOriginFrame(origin);
+
+  if (model === 'wgs84-enu') {
+    const enu = originEnuFrame(frame);
+    const ecef = [0, 0, 0];
+    for (let i = 0; i < length; i += 3) {
+      geodeticToEcef(lngLatAlt[i], lngLatAlt[i + 1], lngLatAlt[i + 2] || 0, ecef);
+      ecefToEnu(enu, ecef[0], ecef[1], ecef[2], out, i);
+    }
+    return out;
+  }
+
+  const spherical = model === 'spherical';
+  const lonScale = MathUtils.DEG2RAD * frame.metersPerRadianLon;
+  const latScale = MathUtils.DEG2RAD * earthRadius;
+  for (let i = 0; i < length; i += 3) {
+    const latitude = lngLatAlt[i + 1];
+    out[i] = (lngLatAlt[i] - frame.longitude) * lonScale;
+    out[i + 1] = (lngLatAlt[i + 2] || 0) - frame.altitude;
+    out[i + 2] = spherical
+      ? -(latitude - frame.latitude) * latScale
+      : originMercatorZ(frame, latitude);
+  }
+  return out;
+}
+
+/**
+ * Converts flat `x, y, z` positions relative to `origin` back into
+ * `[longitude, latitude, altitude, ...]` triplets.
+ *
+ * This is the batched version of {@link vector3ToCoords} and the exact inverse of
+ * {@link coordsArrayToPositions} when both use the same model.
+ *
+ * @param positions - Flat `x, y, z` positions in meters, e.g. `BufferAttribute.array`
+ * @param origin - The origin coordinates used to create the positions
+ * @param options - Conversion model and optional output array
+ * @returns Flat `longitude, latitude, altitude` triplets
+ * @throws Error if the input length is not a multiple of 3
+ *
+ * @example
+ * ```ts
+ * import { positionsToCoordsArray } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const lngLatAlt = positionsToCoordsArray(geometry.attributes.position.array, origin);
+ * ```
+ */
+export function positionsToCoordsArray(
+  positions: ArrayLike<number>,
+  origin: Coords,
+  options?: PositionsToCoordsArrayOptions
+): Float64Array {
+  const length = positions.length;
+  assertStride(length, options?.target, "Positions array");
+  const out = options?.target ?? new Float64Array(length);
+  const model = options?.model ?? 'mercator';
+  const frame = getOriginFrame(origin);
+
+  if (model === 'wgs84-enu') {
+    const enu = originEnuFrame(frame);
+    const ecef = [0, 0, 0];
+    for (let i = 0; i < length; i += 3) {
+      enuToEcef(enu, positions[i], positions[i + 1], positions[i + 2], ecef);
+      ecefToGeodetic(ecef[0], ecef[1], ecef[2], out, i);
+    }
+    return out;
+  }
+
+  const spherical = model === 'spherical';
+  const lonScale = MathUtils.RAD2DEG / frame.metersPerRadianLon;
+  const latScale = MathUtils.RAD2DEG / earthRadius;
+  for (let i = 0; i < length; i += 3) {
+    const z = positions[i + 2];
+    out[i] = frame.longitude + positions[i] * lonScale;
+    out[i + 1] = spherical
+      ? frame.latitude - z * latScale
+      : originMercatorLatitude(frame, z);
+    out[i + 2] = frame.altitude + positions[i + 1];
+  }
+  return out;
+}
@@ -0,0 +1,35 @@
+/**
+ * Accuracy model used to convert between geographic coordinates and local 3D positions.
+ *
+ * - `"spherical"`: equirectangular offsets on a sphere of radius `6371008.8` meters.
+ *   Cheapest, fine for a few kilometres around the origin.
+ * - `"mercator"`: Web Mercator offsets scaled to meters at the origin latitude, so
+ *   positions line up with the map at city to country distances. The north-south offset
+ *   is the exact difference of Mercator Y between the point and the origin, and
+ *   {@link vector3ToCoords} inverts it in closed form.
+ * - `"wgs84-enu"`: exact WGS84 ellipsoid, converted through ECEF into the East-North-Up
+ *   tangent plane at the origin. Round trips are exact to the millimetre over hundreds
+ *   of kilometres, and altitudes are ellipsoidal heights. Because the tangent plane does
+ *   not follow the Earth's curvature, far away points sit below `y = 0`.
+ */
+export type CoordsModel = 'spherical' | 'mercator' | 'wgs84-enu';
+
+/**
+ * Options shared by {@link coordsToVector3}, {@link vector3ToCoords} and
+ * their batched variants.
+ *
+ * @example
+ * ```ts
+ * const options: CoordsConversionOptions = { model: 'wgs84-enu' };
+ * const position = coordsToVector3(point, origin, options);
+ * const back = vector3ToCoords(position, origin, options); // === point, to the millimetre
+ * ```
+ */
+export interface CoordsConversionOptions {
+  /**
+   * The accuracy model used for the conversion.
+   * Use the same model in both directions to get exact round trips.
+   * @defaultValue "mercator"
+   */
+  model?: CoordsModel;
+}
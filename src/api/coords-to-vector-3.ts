@@ -1,39 +1,11 @@
 import { MathUtils, Vector3Tuple } from 'three';
 import { Coords } from './coords';
+import { CoordsConversionOptions } from './coords-conversion';
 import { earthRadius } from "../core/earth-radius";
+import { getOriginFrame, originEnuFrame, originMercatorZ } from "../core/origin-frame";
+import { ecefToEnu, geodeticToEcef } from "../core/wgs84";
 
-const mercatorScaleLookup: { [key: number]: number } = {};
-
-function getMercatorScale(lat: number): number {
-  const index = Math.round(lat * 1000);
-  if (mercatorScaleLookup[index] === undefined) {
-    mercatorScaleLookup[index] = 1 / Math.cos(lat * MathUtils.DEG2RAD);
-  }
-  return mercatorScaleLookup[index];
-}
-
-/**
- * Calculates the average Mercator scale factor between two latitudes.
- *
- * This is used internally by {@link coordsToVector3} to improve accuracy
- * when converting coordinates that are far apart in latitude.
- *
- * @param originLat - The origin latitude in degrees
- * @param pointLat - The target point latitude in degrees
- * @param steps - Number of steps for numerical integration
- * @returns The average Mercator scale factor
- *
- * @internal
- */
-export function averageMercatorScale(originLat: number, pointLat: number, steps = 10): number {
-  let totalScale = 0;
-  const latStep = (pointLat - originLat) / steps;
-  for (let i = 0; i <= steps; i++) {
-    const lat = originLat + latStep * i;
-    totalScale += getMercatorScale(lat);
-  }
-  return totalScale / (steps + 1);
-}
+export { averageMercatorScale } from "../core/mercator-scale";
 
 /**
  * Converts geographic coordinates to a 3D position vector relative to an origin point.
@@ -43,14 +15,16 @@ export function averageMercatorScale(originLat: number, pointLat: number, steps
  * - Y axis points Up (altitude)
  * - Z axis points South (negative latitude direction)
  *
- * This function applies Mercator scale correction for improved accuracy at different latitudes.
+ * By default this function applies Mercator scale correction for improved accuracy at different latitudes.
+ * Pass `{ model: 'wgs84-enu' }` to use the WGS84 ellipsoid instead (see {@link CoordsModel}).
  *
  * @param point - The geographic coordinates to convert
  * @param origin - The origin coordinates used as the reference point (typically the Canvas position)
+ * @param options - Conversion options, such as the accuracy model
  * @returns A Vector3Tuple [x, y, z] representing the 3D position in meters
  *
  * @remarks
- * This function works well at city-level distances. At country-level distances,
+ * The default `"mercator"` model works well at city-level distances. At country-level distances,
  * scale distortion from the Mercator projection becomes noticeable.
  * For large distances, consider using the {@link Coordinates} component instead.
  *
@@ -64,6 +38,9 @@ export function averageMercatorScale(originLat: number, pointLat: number, steps
  * const position = coordsToVector3(point, origin);
  * // Returns approximately [55.6, 50, -66.7] (meters from origin)
  *
+ * // Survey-grade positions on the WGS84 ellipsoid
+ * const enu = coordsToVector3(point, origin, { model: 'wgs84-enu' });
+ *
  * // Use in a component
  * <mesh position={position}>
  *   <sphereGeometry args={[10]} />
@@ -73,19 +50,25 @@ export function averageMercatorScale(originLat: number, pointLat: number, steps
  * @see {@link vector3ToCoords} for the inverse operation
  * @see {@link NearCoordinates} for a component wrapper around this function
  */
-export function coordsToVector3(point: Coords, origin: Coords): Vector3Tuple {
+export function coordsToVector3(point: Coords, origin: Coords, options?: CoordsConversionOptions): Vector3Tuple {
+  const model = options?.model ?? 'mercator';
+
+  const frame = getOriginFrame(origin);
+
+  if (model === 'wgs84-enu') {
+    const ecef = geodeticToEcef(point.longitude, point.latitude, point.altitude || 0);
+    return ecefToEnu(originEnuFrame(frame), ecef[0], ecef[1], ecef[2]) as Vector3Tuple;
+  }
+
   const latitudeDiff = (point.latitude - origin.latitude) * MathUtils.DEG2RAD;
   const longitudeDiff = (point.longitude - origin.longitude) * MathUtils.DEG2RAD;
-  const altitudeDiff = (point.altitude || 0) - (origin.altitude || 0);
+  const altitudeDiff = (point.altitude || 0) - frame.altitude;
 
-  const x = longitudeDiff * earthRadius * Math.cos(origin.latitude * MathUtils.DEG2RAD);
+  const x = longitudeDiff * frame.metersPerRadianLon;
   const y = altitudeDiff;
+  const z = model === 'spherical'
+    ? -latitudeDiff * earthRadius
+    : originMercatorZ(frame, point.latitude);
 
-  // dynamic step size based on latitude difference. calculate the mercator unit scale at origin
-  // and the scale average along the line to the point for better accuracy far from origin
-  const steps = Math.ceil(Math.abs(point.latitude - origin.latitude)) * 100 + 1;
-  const avgScale = averageMercatorScale(origin.latitude, point.latitude, steps);
-
-  const z = ((-latitudeDiff * earthRadius) / getMercatorScale(origin.latitude)) * avgScale;
   return [x, y, z] as Vector3Tuple;
 }
@@ -0,0 +1,88 @@
+import { BufferGeometry } from "three";
+import { Coords } from "./coords";
+import { positionsToCoordsArray } from "./coords-array";
+import { TerrainElevationSampler } from "./use-terrain-elevation";
+import { getTerrainElevation } from "../core/terrain-altitude";
+import { getCanvasMaps } from "../core/use-r3m";
+
+/** samples the terrain of the only mounted Canvas map */
+function canvasMapSampler(): TerrainElevationSampler {
+  const maps = getCanvasMaps();
+  if (maps.length !== 1) {
+    throw new Error(
+      `drapeGeometryOnTerrain needs an elevation sampler when there are ${maps.length} Canvas maps, ` +
+      "pass the one from useTerrainElevation()."
+    );
+  }
+  return (coords) => getTerrainElevation(maps[0], coords);
+}
+
+/**
+ * Drapes a geometry over the map terrain: each vertex is raised by the terrain
+ * elevation under it, so `y = 0` lies on the ground and `y = 10` floats 10 meters above it.
+ *
+ * The terrain is only sampled at the vertices, so long segments cut through hills
+ * between them; subdivide lines and large faces first to follow the relief closely.
+ *
+ * Does not mutate the geometry. Normals, when present, are recomputed.
+ *
+ * Without `elevation`, the terrain of the map of the mounted Canvas is sampled. Pass the
+ * sampler from {@link useTerrainElevation} to drape again as terrain tiles load, or
+ * when several Canvases are mounted.
+ *
+ * @param geometry - Geometry in meters relative to `origin`, e.g. a line or a flat mesh
+ * @param origin - The origin coordinates of the geometry, typically the Canvas position
+ * @param elevation - Terrain sampler, defaults to the terrain of the Canvas map
+ * @returns A new geometry with draped positions
+ * @throws Error if BufferGeometry has no position attribute
+ * @throws Error without `elevation`, if there isn't exactly one Canvas mounted
+ *
+ * @example
+ * ```tsx
+ * // once, with the terrain loaded so far
+ * const draped = drapeGeometryOnTerrain(road, origin);
+ *
+ * const elevation = useTerrainElevation();
+ * const draped = useMemo(
+ *   () => drapeGeometryOnTerrain(road, origin, elevation),
+ *   [road, origin, elevation] // draped again when terrain tiles load
+ * );
+ * ```
+ */
+export function drapeGeometryOnTerrain(
+  geometry: BufferGeometry,
+  origin: Coords,
+  elevation?: TerrainElevationSampler
+): BufferGeometry {
+  const positionAttr = geometry.getAttribute("position");
+  if (!positionAttr) {
+    throw new Error(
+      "BufferGeometry must have a 'position' attribute to drape it on terrain. " +
+      "Ensure the geometry is properly initialized."
+    );
+  }
+
+  const sample = elevation ?? canvasMapSampler();
+  const draped = geometry.clone();
+  const position = draped.getAttribute("position");
+  const positions = new Float64Array(position.count * 3);
+  for (let i = 0; i < position.count; i++) {
+    positions[i * 3] = position.getX(i);
+    positions[i * 3 + 1] = position.getY(i);
+    positions[i * 3 + 2] = position.getZ(i);
+  }
+
+  // y = 0 is at the origin altitude
+  const ground = origin.altitude || 0;
+  const lngLatAlt = positionsToCoordsArray(positions, origin);
+  for (let i = 0; i < position.count; i++) {
+    const height = sample({ longitude: lngLatAlt[i * 3], latitude: lngLatAlt[i * 3 + 1] });
+    position.setY(i, positions[i * 3 + 1] + height - ground);
+  }
+  position.needsUpdate = true;
+
+  if (draped.getAttribute("normal")) draped.computeVertexNormals();
+  draped.computeBoundingBox();
+  draped.computeBoundingSphere();
+  return draped;
+}
@@ -0,0 +1,303 @@
+import { BufferGeometry, Float32BufferAttribute, ShapeUtils, Vector2 } from "three";
+import { Coords } from "./coords";
+import { coordsToVector3 } from "./coords-to-vector-3";
+
+/**
+ * Roof shape of an extruded footprint, following the OSM `roof:shape` tag.
+ *
+ * - `"flat"`: horizontal roof at `height`.
+ * - `"gabled"`: two slopes meeting at a ridge along the longest side, with vertical gable ends.
+ * - `"hipped"`: like gabled, but the ends slope too, so the ridge is shorter than the building.
+ * - `"pyramidal"`: every side slopes up to a single apex.
+ */
+export type RoofShape = 'flat' | 'gabled' | 'hipped' | 'pyramidal';
+
+/**
+ * Options for {@link extrudeFootprint}.
+ *
+ * Heights follow OSM building semantics and are measured in meters above the
+ * altitude of the first footprint coordinate.
+ */
+export interface ExtrudeFootprintOptions {
+  /** Height of the top of the building, roof included (OSM `height`) */
+  height: number;
+
+  /**
+   * Height of the bottom of the building, for parts that don't touch the ground (OSM `min_height`).
+   * @defaultValue 0
+   */
+  minHeight?: number;
+
+  /**
+   * Roof shape (OSM `roof:shape`). Pitched roofs fall back to `"flat"` on footprints with holes
+   * or non-convex outlines, like L, T or U shapes.
+   * @defaultValue "flat"
+   */
+  roof?: RoofShape;
+
+  /**
+   * Height of pitched roofs, from the top of the walls to the ridge (OSM `roof:height`).
+   * Clamped to the building height. Ignored by flat roofs.
+   * @defaultValue 3
+   */
+  roofHeight?: number;
+}
+
+/** Group index of the walls, gable ends included, in geometries built by {@link extrudeFootprint} */
+export const FOOTPRINT_WALLS_GROUP = 0;
+/** Group index of the roof in geometries built by {@link extrudeFootprint} */
+export const FOOTPRINT_ROOF_GROUP = 1;
+/** Group index of the floor in geometries built by {@link extrudeFootprint} */
+export const FOOTPRINT_FLOOR_GROUP = 2;
+
+const DEFAULT_ROOF_HEIGHT = 3;
+const EPSILON = 1e-6;
+
+/** vertex buffers of a single geometry group */
+interface GroupBuffers {
+  positions: number[];
+  uvs: number[];
+}
+
+/** ring on the (east, north) plane, without the repeated closing coordinate */
+function ringToPoints(ring: Coords[], origin: Coords): Vector2[] {
+  const points = ring.map((c) => {
+    const [x, , z] = coordsToVector3({ ...c, altitude: 0 }, origin);
+    return new Vector2(x, -z);
+  });
+  const last = points[points.length - 1];
+  if (points.length > 1 && points[0].distanceTo(last) < EPSILON) points.pop();
+  return points;
+}
+
+/** push a vertex, converting plan `(east, north)` + `y` into local `(x, y, z)` */
+function pushVertex(buffers: GroupBuffers, p: Vector2, y: number, u: number, v: number) {
+  buffers.positions.push(p.x, y, -p.y);
+  buffers.uvs.push(u, v);
+}
+
+function pushWalls(buffers: GroupBuffers, ring: Vector2[], bottom: number, top: number, ground: number) {
+  let perimeter = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    const length = a.distanceTo(b);
+    const u0 = perimeter;
+    const u1 = perimeter + length;
+    const v0 = bottom - ground;
+    const v1 = top - ground;
+    // walking a -> b the outside is on the right, so this winding faces outwards
+    pushVertex(buffers, a, bottom, u0, v0);
+    pushVertex(buffers, b, bottom, u1, v0);
+    pushVertex(buffers, b, top, u1, v1);
+    pushVertex(buffers, a, bottom, u0, v0);
+    pushVertex(buffers, b, top, u1, v1);
+    pushVertex(buffers, a, top, u0, v1);
+    perimeter = u1;
+  }
+}
+
+function pushCap(buffers: GroupBuffers, outline: Vector2[], holes: Vector2[][], y: number, facingUp: boolean) {
+  const points = outline.concat(...holes);
+  for (const [a, b, c] of ShapeUtils.triangulateShape(outline, holes)) {
+    for (const i of facingUp ? [a, b, c] : [c, b, a]) {
+      pushVertex(buffers, points[i], y, points[i].x, points[i].y);
+    }
+  }
+}
+
+/** whether a counter-clockwise outline never turns clockwise, collinear points allowed */
+function isConvex(outline: Vector2[]): boolean {
+  for (let i = 0; i < outline.length; i++) {
+    const a = outline[i];
+    const b = outline[(i + 1) % outline.length];
+    const c = outline[(i + 2) % outline.length];
+    const ab = new Vector2().subVectors(b, a);
+    const bc = new Vector2().subVectors(c, b);
+    if (ab.cross(bc) < -EPSILON * ab.length() * bc.length()) return false;
+  }
+  return true;
+}
+
+/**
+ * Pitched roof: every outline edge slopes up to its projection on the ridge.
+ * The ridge runs along the longest edge, through the middle of the footprint's
+ * oriented bounding rectangle.
+ */
+function pushPitchedRoof(
+  roof: GroupBuffers,
+  walls: GroupBuffers,
+  outline: Vector2[],
+  shape: Exclude<RoofShape, 'flat'>,
+  wallTop: number,
+  top: number,
+  ground: number,
+) {
+  // ridge direction
+  const axis = new Vector2();
+  let longest = -1;
+  for (let i = 0; i < outline.length; i++) {
+    const edge = new Vector2().subVectors(outline[(i + 1) % outline.length], outline[i]);
+    const length = edge.length();
+    if (length > longest) {
+      longest = length;
+      axis.copy(edge).divideScalar(length);
+    }
+  }
+  const normal = new Vector2(-axis.y, axis.x);
+
+  // oriented bounding rectangle
+  let sMin = Infinity, sMax = -Infinity, tMin = Infinity, tMax = -Infinity;
+  for (const p of outline) {
+    const s = p.dot(axis);
+    const t = p.dot(normal);
+    sMin = Math.min(sMin, s); sMax = Math.max(sMax, s);
+    tMin = Math.min(tMin, t); tMax = Math.max(tMax, t);
+  }
+  const halfLength = (sMax - sMin) / 2;
+  const halfWidth = (tMax - tMin) / 2;
+  const sMid = (sMin + sMax) / 2;
+  const tMid = (tMin + tMax) / 2;
+  const inset = shape === 'gabled' ? 0
+    : shape === 'hipped' ? Math.min(halfWidth, halfLength)
+      : halfLength;
+  const ridgeStart = sMin + inset;
+  const ridgeEnd = Math.max(ridgeStart, sMax - inset);
+
+  const toRidge = (p: Vector2) => {
+    const s = shape === 'pyramidal' ? sMid : Math.min(Math.max(p.dot(axis), ridgeStart), ridgeEnd);
+    return axis.clone().multiplyScalar(s).addScaledVector(normal, tMid);
+  };
+  // roof UVs are planar meters aligned with the ridge
+  const pushRoofVertex = (p: Vector2, y: number) => pushVertex(roof, p, y, p.dot(axis), p.dot(normal));
+
+  let perimeter = 0;
+  for (let i = 0; i < outline.length; i++) {
+    const a = outline[i];
+    const b = outline[(i + 1) % outline.length];
+    const ra = toRidge(a);
+    const rb = toRidge(b);
+    const length = a.distanceTo(b);
+
+    if (ra.distanceTo(rb) < EPSILON) {
+      const edge = new Vector2().subVectors(b, a);
+      const offset = Math.abs(edge.cross(new Vector2().subVectors(ra, a))) / Math.max(length, EPSILON);
+      if (offset < EPSILON) {
+        // the apex sits above the edge: vertical gable end
+        const u = perimeter + new Vector2().subVectors(ra, a).dot(edge) / Math.max(length, EPSILON);
+        pushVertex(walls, a, wallTop, perimeter, wallTop - ground);
+        pushVertex(walls, b, wallTop, perimeter + length, wallTop - ground);
+        pushVertex(walls, ra, top, u, top - ground);
+      } else {
+        pushRoofVertex(a, wallTop);
+        pushRoofVertex(b, wallTop);
+        pushRoofVertex(ra, top);
+      }
+    } else {
+      pushRoofVertex(a, wallTop);
+      pushRoofVertex(b, wallTop);
+      pushRoofVertex(rb, top);
+      pushRoofVertex(a, wallTop);
+      pushRoofVertex(rb, top);
+      pushRoofVertex(ra, top);
+    }
+    perimeter += length;
+  }
+}
+
+/**
+ * Extrudes a building footprint into a BufferGeometry with walls and a flat or pitched roof.
+ *
+ * Heights follow OSM building tags, so `height`, `min_height`, `roof:shape` and
+ * `roof:height` can be passed through directly. The geometry has three groups, so
+ * an array of materials can style each part:
+ *
+ * - {@link FOOTPRINT_WALLS_GROUP}: walls and gable ends, with UVs in meters along the perimeter and up the wall
+ * - {@link FOOTPRINT_ROOF_GROUP}: roof, with planar UVs in meters
+ * - {@link FOOTPRINT_FLOOR_GROUP}: underside, only present when `minHeight > 0`
+ *
+ * Pitched roofs are exact for rectangular footprints and approximated for other
+ * convex shapes, with the ridge following the longest edge. Non-convex footprints get a flat roof.
+ *
+ * @param ring - Footprint outline, either winding, closed or not
+ * @param holes - Footprint holes, e.g. courtyards
+ * @param options - Heights and roof shape
+ * @param origin - The origin coordinates (typically the Canvas position)
+ * @returns A non-indexed BufferGeometry with positions, normals, UVs and groups
+ * @throws Error if the outline has fewer than 3 coordinates or `height` is not above `minHeight`
+ *
+ * @example
+ * ```tsx
+ * const geometry = extrudeFootprint(ring, [], {
+ *   height: 12,
+ *   roof: 'hipped',
+ *   roofHeight: 4,
+ * }, origin);
+ *
+ * <mesh geometry={geometry} material={[wallMaterial, roofMaterial, floorMaterial]} />
+ * ```
+ */
+export function extrudeFootprint(
+  ring: Coords[],
+  holes: Coords[][],
+  options: ExtrudeFootprintOptions,
+  origin: Coords
+): BufferGeometry {
+  const { height, minHeight = 0, roof = 'flat', roofHeight = DEFAULT_ROOF_HEIGHT } = options;
+  const outline = ringToPoints(ring, origin);
+  if (outline.length < 3) {
+    throw new Error("Footprint outline must have at least 3 coordinates.");
+  }
+  if (!(height > minHeight)) {
+    throw new Error(`Footprint height (${height}) must be greater than minHeight (${minHeight}).`);
+  }
+
+  // outline counter-clockwise and holes clockwise, seen from above
+  if (ShapeUtils.isClockWise(outline)) outline.reverse();
+  const holePoints = holes
+    .map((hole) => ringToPoints(hole, origin))
+    .filter((hole) => hole.length >= 3);
+  for (const hole of holePoints) {
+    if (!ShapeUtils.isClockWise(hole)) hole.reverse();
+  }
+
+  const ground = (ring[0].altitude || 0) - (origin.altitude || 0);
+  const bottom = ground + minHeight;
+  const top = ground + height;
+  // pitched roofs fan from the ridge, which only stays inside convex outlines
+  const pitched = roof !== 'flat' && holePoints.length === 0 && isConvex(outline);
+  const wallTop = pitched ? Math.max(bottom, top - Math.max(0, roofHeight)) : top;
+
+  const walls: GroupBuffers = { positions: [], uvs: [] };
+  const roofBuffers: GroupBuffers = { positions: [], uvs: [] };
+  const floor: GroupBuffers = { positions: [], uvs: [] };
+
+  if (wallTop > bottom) {
+    pushWalls(walls, outline, bottom, wallTop, ground);
+    for (const hole of holePoints) pushWalls(walls, hole, bottom, wallTop, ground);
+  }
+  if (pitched && top > wallTop) {
+    pushPitchedRoof(roofBuffers, walls, outline, roof, wallTop, top, ground);
+  } else {
+    pushCap(roofBuffers, outline, holePoints, top, true);
+  }
+  if (minHeight > 0) {
+    pushCap(floor, outline, holePoints, bottom, false);
+  }
+
+  const geometry = new BufferGeometry();
+  const positions: number[] = [];
+  const uvs: number[] = [];
+  [walls, roofBuffers, floor].forEach((buffers, group) => {
+    const start = positions.length / 3;
+    const count = buffers.positions.length / 3;
+    if (count > 0) geometry.addGroup(start, count, group);
+    // avoid spreading, footprints of large buildings exceed the call stack argument limit
+    for (const value of buffers.positions) positions.push(value);
+    for (const value of buffers.uvs) uvs.push(value);
+  });
+  geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
+  geometry.setAttribute("uv", new Float32BufferAttribute(uvs, 2));
+  geometry.computeVertexNormals();
+  return geometry;
+}
@@ -0,0 +1,105 @@
+import { Euler, MathUtils, Matrix4, Quaternion, Vector3 } from "three";
+import { Coords } from "./coords";
+import { CoordsConversionOptions } from "./coords-conversion";
+import { coordsToVector3 } from "./coords-to-vector-3";
+import { vector3ToCoords } from "./vector-3-to-coords";
+
+/**
+ * A real-world position and orientation.
+ *
+ * Angles follow the aviation convention, applied heading first, then pitch, then roll:
+ * - `headingDeg`: clockwise from north, seen from above
+ * - `pitchDeg`: nose up, around the local east axis
+ * - `rollDeg`: right side down, around the forward axis
+ *
+ * An object with all angles at `0` has its forward (`-Z`) facing north and its top (`+Y`) up.
+ *
+ * @example
+ * ```ts
+ * const drone: GeoTransform = {
+ *   coords: { latitude: 51.5074, longitude: -0.1278, altitude: 120 },
+ *   headingDeg: 90, // facing east
+ *   pitchDeg: 0,
+ *   rollDeg: 0,
+ * };
+ * ```
+ */
+export interface GeoTransform {
+  coords: Coords;
+  headingDeg: number;
+  pitchDeg: number;
+  rollDeg: number;
+}
+
+const EULER_ORDER = 'YXZ';
+
+const _euler = new Euler();
+const _quaternion = new Quaternion();
+const _position = new Vector3();
+const _scale = new Vector3();
+
+/**
+ * Converts a {@link GeoTransform} to a matrix relative to `origin`, in the local
+ * frame of the Canvas: X east, Y up, Z south, in meters.
+ *
+ * Angles are measured against the axes at `origin`, which is what renders on the map.
+ *
+ * @param transform - The position and orientation to convert
+ * @param origin - The origin the matrix is relative to, usually the Canvas coordinates
+ * @param options - Conversion options, such as the accuracy model
+ * @returns A new rotation and translation matrix
+ *
+ * @example
+ * ```ts
+ * mesh.matrix.copy(geoTransformToMatrix(drone, origin));
+ * ```
+ *
+ * @see {@link matrixToGeoTransform} for the inverse operation
+ */
+export function geoTransformToMatrix(
+  { coords, headingDeg, pitchDeg, rollDeg }: GeoTransform,
+  origin: Coords,
+  options?: CoordsConversionOptions
+): Matrix4 {
+  _euler.set(
+    pitchDeg * MathUtils.DEG2RAD,
+    -headingDeg * MathUtils.DEG2RAD,
+    -rollDeg * MathUtils.DEG2RAD,
+    EULER_ORDER
+  );
+  return new Matrix4()
+    .makeRotationFromEuler(_euler)
+    .setPosition(...coordsToVector3(coords, origin, options));
+}
+
+/**
+ * Converts a matrix relative to `origin` back to a {@link GeoTransform}.
+ *
+ * Any scale in `matrix` is ignored. `headingDeg` is normalized to `[0, 360)`.
+ *
+ * @param matrix - A matrix in the local frame of the Canvas, e.g. from `EnhancedPivotControls`
+ * @param origin - The origin the matrix is relative to, usually the Canvas coordinates
+ * @param options - Conversion options, such as the accuracy model
+ * @returns The geographic position and the heading, pitch and roll in degrees
+ *
+ * @example
+ * ```ts
+ * const { coords, headingDeg } = matrixToGeoTransform(mesh.matrix, origin);
+ * ```
+ *
+ * @see {@link geoTransformToMatrix} for the inverse operation
+ */
+export function matrixToGeoTransform(
+  matrix: Matrix4,
+  origin: Coords,
+  options?: CoordsConversionOptions
+): GeoTransform {
+  matrix.decompose(_position, _quaternion, _scale);
+  _euler.setFromQuaternion(_quaternion, EULER_ORDER);
+  return {
+    coords: vector3ToCoords(_position.toArray(), origin, options),
+    headingDeg: MathUtils.euclideanModulo(-_euler.y * MathUtils.RAD2DEG, 360),
+    pitchDeg: _euler.x * MathUtils.RAD2DEG,
+    rollDeg: -_euler.z * MathUtils.RAD2DEG,
+  };
+}
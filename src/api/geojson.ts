@@ -0,0 +1,316 @@
+import { BufferGeometry, Float32BufferAttribute, Path, Shape, ShapeGeometry, Vector2 } from "three";
+import { Coords } from "./coords";
+import { coordsToVector3 } from "./coords-to-vector-3";
+import { extrudeFootprint } from "./extrude-footprint";
+import { extractGeoTriangles, GeoTriangle, GeoVertex } from "./polyhedral-surface";
+import { geoTrianglesToGeometry, isFiniteNumber, openRing, triangulatePolygon } from "../core/geo-triangulation";
+
+// Minimal GeoJSON (RFC 7946) interfaces, so consumers don't need `@types/geojson`.
+
+/** GeoJSON position: `[longitude, latitude]` or `[longitude, latitude, altitude]` */
+export type GeoJSONPosition = number[];
+
+/** GeoJSON `Point` geometry */
+export interface GeoJSONPoint {
+  type: 'Point';
+  coordinates: GeoJSONPosition;
+}
+
+/** GeoJSON `MultiPoint` geometry */
+export interface GeoJSONMultiPoint {
+  type: 'MultiPoint';
+  coordinates: GeoJSONPosition[];
+}
+
+/** GeoJSON `LineString` geometry */
+export interface GeoJSONLineString {
+  type: 'LineString';
+  coordinates: GeoJSONPosition[];
+}
+
+/** GeoJSON `MultiLineString` geometry */
+export interface GeoJSONMultiLineString {
+  type: 'MultiLineString';
+  coordinates: GeoJSONPosition[][];
+}
+
+/** GeoJSON `Polygon` geometry: the first ring is the outline, the rest are holes */
+export interface GeoJSONPolygon {
+  type: 'Polygon';
+  coordinates: GeoJSONPosition[][];
+}
+
+/** GeoJSON `MultiPolygon` geometry */
+export interface GeoJSONMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: GeoJSONPosition[][][];
+}
+
+/** GeoJSON `GeometryCollection` */
+export interface GeoJSONGeometryCollection {
+  type: 'GeometryCollection';
+  geometries: GeoJSONGeometry[];
+}
+
+/** Any GeoJSON geometry */
+export type GeoJSONGeometry =
+  | GeoJSONPoint
+  | GeoJSONMultiPoint
+  | GeoJSONLineString
+  | GeoJSONMultiLineString
+  | GeoJSONPolygon
+  | GeoJSONMultiPolygon
+  | GeoJSONGeometryCollection;
+
+/** GeoJSON feature properties */
+export type GeoJSONProperties = Record<string, unknown> | null;
+
+/** GeoJSON `Feature` */
+export interface GeoJSONFeature<P = GeoJSONProperties> {
+  type: 'Feature';
+  id?: string | number;
+  geometry: GeoJSONGeometry | null;
+  properties: P;
+}
+
+/** GeoJSON `FeatureCollection` */
+export interface GeoJSONFeatureCollection<P = GeoJSONProperties> {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature<P>[];
+}
+
+/**
+ * Options for {@link geoJSONPolygonToGeometry}.
+ */
+export interface GeoJSONPolygonGeometryOptions {
+  /**
+   * Altitude of the bottom of the polygon, in meters above sea level.
+   * @defaultValue 0
+   */
+  base?: number;
+
+  /**
+   * Extrusion height in meters above `base`. `0` creates a flat polygon.
+   * @defaultValue 0
+   */
+  height?: number;
+}
+
+/** convert a GeoJSON position to coords */
+export function positionToCoords(position: GeoJSONPosition, altitude?: number): Coords {
+  return {
+    longitude: position[0],
+    latitude: position[1],
+    altitude: altitude ?? position[2] ?? 0,
+  };
+}
+
+/** ring without the repeated closing position, as 2D points (east, north) */
+function ringToPoints(ring: GeoJSONPosition[], origin: Coords): Vector2[] {
+  const points = ring.map((p) => {
+    const [x, , z] = coordsToVector3(positionToCoords(p, 0), origin);
+    return new Vector2(x, -z);
+  });
+  if (points.length > 1 && points[0].equals(points[points.length - 1])) points.pop();
+  return points;
+}
+
+/**
+ * Builds a flat or extruded BufferGeometry from the rings of a GeoJSON `Polygon`.
+ *
+ * Holes are cut from the outline. Positions are relative to `origin`, with the
+ * same axes as {@link coordsToVector3}. Extruded polygons are built with
+ * {@link extrudeFootprint}, so they share its wall and roof groups.
+ *
+ * @param rings - Polygon rings: the outline followed by its holes
+ * @param origin - The origin coordinates (typically the Canvas position)
+ * @param options - Base altitude and extrusion height
+ * @returns A BufferGeometry ready to be used in a mesh
+ * @throws Error if the outline has fewer than 3 positions
+ *
+ * @example
+ * ```ts
+ * const geometry = geoJSONPolygonToGeometry(feature.geometry.coordinates, origin, { height: 30 });
+ * ```
+ */
+export function geoJSONPolygonToGeometry(
+  rings: GeoJSONPosition[][],
+  origin: Coords,
+  options?: GeoJSONPolygonGeometryOptions
+): BufferGeometry {
+  const { base = 0, height = 0 } = options ?? {};
+  const [outline, ...holes] = rings;
+  const outlinePoints = outline ? ringToPoints(outline, origin) : [];
+  if (outlinePoints.length < 3) {
+    throw new Error("GeoJSON polygon outline must have at least 3 positions.");
+  }
+
+  if (height > 0) {
+    const toCoords = (ring: GeoJSONPosition[]) => ring.map((p) => positionToCoords(p, base));
+    return extrudeFootprint(toCoords(outline), holes.map(toCoords), { height }, origin);
+  }
+
+  const shape = new Shape(outlinePoints);
+  for (const hole of holes) {
+    const holePoints = ringToPoints(hole, origin);
+    if (holePoints.length >= 3) shape.holes.push(new Path(holePoints));
+  }
+
+  const geometry = new ShapeGeometry(shape);
+  // shape is drawn on the (east, north) plane, rotate it so it faces up
+  geometry.rotateX(-Math.PI / 2);
+  geometry.translate(0, base - (origin.altitude || 0), 0);
+  return geometry;
+}
+
+/**
+ * Builds a line segments BufferGeometry from the positions of a GeoJSON `LineString`.
+ *
+ * @param line - LineString positions
+ * @param origin - The origin coordinates (typically the Canvas position)
+ * @param altitude - Altitude used for positions without one, in meters above sea level
+ * @returns A BufferGeometry to be used with `<lineSegments>`
+ */
+export function geoJSONLineToGeometry(
+  line: GeoJSONPosition[],
+  origin: Coords,
+  altitude = 0
+): BufferGeometry {
+  const positions: number[] = [];
+  for (let i = 0; i < line.length - 1; i++) {
+    const a = coordsToVector3(positionToCoords(line[i], line[i][2] ?? altitude), origin);
+    const b = coordsToVector3(positionToCoords(line[i + 1], line[i + 1][2] ?? altitude), origin);
+    positions.push(...a, ...b);
+  }
+  const geometry = new BufferGeometry();
+  geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
+  return geometry;
+}
+
+/**
+ * Options for {@link geoJSONToBufferGeometry} and {@link bufferGeometryToGeoJSON}.
+ */
+export interface GeoJSONBufferGeometryOptions {
+  /**
+   * The origin coordinates used as reference for the 3D positions.
+   * This should match the Canvas or scene origin.
+   */
+  origin: Coords;
+}
+
+function positionToVertex(position: GeoJSONPosition): GeoVertex {
+  const vertex = { longitude: position[0], latitude: position[1], altitude: position[2] ?? 0 };
+  if (!isFiniteNumber(vertex.longitude) || !isFiniteNumber(vertex.latitude) || !isFiniteNumber(vertex.altitude)) {
+    throw new Error(`Invalid GeoJSON position: [${position.join(", ")}] must contain finite numbers.`);
+  }
+  return vertex;
+}
+
+function polygonRingsToTriangles(rings: GeoJSONPosition[][]): GeoTriangle[] {
+  if (rings.length === 0) return [];
+  return triangulatePolygon(rings.map((ring) => openRing(ring.map(positionToVertex))));
+}
+
+/**
+ * Triangulates the 3D faces of a GeoJSON `Polygon` or `MultiPolygon`.
+ *
+ * Unlike {@link geoJSONPolygonToGeometry}, which extrudes 2D footprints, every polygon
+ * is read as a planar face in 3D, using the altitude of each position (`0` when missing).
+ * This is how PostGIS exports `POLYHEDRALSURFACE Z` and `TIN Z` with `ST_AsGeoJSON`.
+ * `GeometryCollection`s are flattened, other geometries are ignored.
+ *
+ * Faces are degenerate when their area is too small in local meters, like with
+ * `parseWKB`, while `parseWKT` checks `POLYHEDRALSURFACE` faces on raw degrees.
+ *
+ * @param geometry - The GeoJSON geometry
+ * @returns An array of GeoTriangle objects
+ * @throws Error if a ring is not closed, a position is not finite or a face is degenerate
+ *
+ * @example
+ * ```ts
+ * import { geoJSONToGeoTriangles } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const triangles = geoJSONToGeoTriangles({
+ *   type: 'MultiPolygon',
+ *   coordinates: [[[[0, 0, 0], [1, 0, 0], [1, 1, 10], [0, 0, 0]]]],
+ * });
+ * ```
+ *
+ * @see {@link geoTrianglesToGeoJSON} for the inverse operation
+ */
+export function geoJSONToGeoTriangles(geometry: GeoJSONGeometry): GeoTriangle[] {
+  switch (geometry.type) {
+    case 'Polygon':
+      return polygonRingsToTriangles(geometry.coordinates);
+    case 'MultiPolygon':
+      return geometry.coordinates.flatMap(polygonRingsToTriangles);
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(geoJSONToGeoTriangles);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Converts triangles into a GeoJSON `MultiPolygon` with Z, one polygon per triangle.
+ *
+ * @param triangles - The triangles to convert
+ * @returns A `MultiPolygon` with closed `[longitude, latitude, altitude]` rings
+ *
+ * @example
+ * ```ts
+ * import { geoTrianglesToGeoJSON } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const feature = { type: 'Feature', geometry: geoTrianglesToGeoJSON(triangles), properties: {} };
+ * ```
+ *
+ * @see {@link geoJSONToGeoTriangles} for the inverse operation
+ */
+export function geoTrianglesToGeoJSON(triangles: GeoTriangle[]): GeoJSONMultiPolygon {
+  const toPosition = (v: GeoVertex): GeoJSONPosition => [v.longitude, v.latitude, v.altitude];
+  return {
+    type: 'MultiPolygon',
+    coordinates: triangles.map(({ v0, v1, v2 }) => [
+      [toPosition(v0), toPosition(v1), toPosition(v2), toPosition(v0)],
+    ]),
+  };
+}
+
+/**
+ * Triangulates a GeoJSON `Polygon` or `MultiPolygon` with Z into a BufferGeometry,
+ * see {@link geoJSONToGeoTriangles}.
+ *
+ * @param geometry - The GeoJSON geometry
+ * @param options - Conversion options including the geographic origin
+ * @returns A non-indexed BufferGeometry with normals
+ * @throws Error if the geometry contains no faces
+ *
+ * @see {@link bufferGeometryToGeoJSON} for the inverse operation
+ */
+export function geoJSONToBufferGeometry(
+  geometry: GeoJSONGeometry,
+  options: GeoJSONBufferGeometryOptions
+): BufferGeometry {
+  const triangles = geoJSONToGeoTriangles(geometry);
+  if (triangles.length === 0) {
+    throw new Error("GeoJSON contains no faces to convert (expected a Polygon or MultiPolygon).");
+  }
+  return geoTrianglesToGeometry(triangles, options.origin);
+}
+
+/**
+ * Converts a BufferGeometry into a GeoJSON `MultiPolygon` with Z, one polygon per triangle.
+ *
+ * @param geometry - The Three.js BufferGeometry to convert
+ * @param options - Conversion options including the geographic origin
+ * @returns A `MultiPolygon` with closed `[longitude, latitude, altitude]` rings
+ * @throws Error if BufferGeometry has no position attribute
+ *
+ * @see {@link geoJSONToBufferGeometry} for the inverse operation
+ */
+export function bufferGeometryToGeoJSON(
+  geometry: BufferGeometry,
+  options: GeoJSONBufferGeometryOptions
+): GeoJSONMultiPolygon {
+  return geoTrianglesToGeoJSON(extractGeoTriangles(geometry, options.origin));
+}
@@ -1,8 +1,26 @@
 export * from './canvas-props';
 export * from './coordinates';
 export * from './coords';
+export * from './coords-array';
+export * from './coords-conversion';
 export * from './coords-to-vector-3';
+export * from './drape-geometry-on-terrain';
+export * from './extrude-footprint';
+export * from './geo-transform';
+export * from './geojson';
 export * from './near-coordinates';
+export * from './use-origin';
+export * from './use-terrain-elevation';
 export * from './vector-3-to-coords';
 export * from './polyhedral-surface';
 export * from './point-in-polyhedron';
+export * from './wkb';
+export * from './wkt';
+export * from './wkt-stream';
+export * from './polyhedron-index';
+export * from './polyhedron-repair';
+export * from './polyhedron-csg';
+export * from './polygon-prism';
+export * from './rebase-position';
+export * from './transform-history';
+export * from './use-transform-history';
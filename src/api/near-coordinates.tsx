@@ -1,5 +1,7 @@
 import { memo, useMemo } from "react";
+import { useResolvedAltitude } from "../core/terrain-altitude";
 import { useCoords } from "../core/use-coords";
+import { useR3M } from "../core/use-r3m";
 import { CoordinatesProps } from "./coordinates";
 import { coordsToVector3 } from "./coords-to-vector-3";
 
@@ -52,10 +54,12 @@ import { coordsToVector3 } from "./coords-to-vector-3";
  * @see {@link Coordinates} for accurate positioning at any distance
  * @see {@link coordsToVector3} for the underlying conversion function
  */
-export const NearCoordinates = memo<CoordinatesProps>(({children, ...coords})=>{
+export const NearCoordinates = memo<CoordinatesProps>(({children, altitudeReference, ...coords})=>{
   const {latitude, longitude, altitude} = useCoords();
-  const pos = useMemo(()=>coordsToVector3(coords, {latitude, longitude, altitude}), [ // eslint-disable-line react-hooks/exhaustive-deps
-    latitude, longitude, altitude, coords.latitude, coords.longitude, coords.altitude
+  const map = useR3M()?.map;
+  const resolvedAltitude = useResolvedAltitude(map, { ...coords, altitudeReference });
+  const pos = useMemo(()=>coordsToVector3({...coords, altitude: resolvedAltitude}, {latitude, longitude, altitude}), [ // eslint-disable-line react-hooks/exhaustive-deps
+    latitude, longitude, altitude, coords.latitude, coords.longitude, resolvedAltitude
   ]);
   return <object3D position={pos}>{children}</object3D>
 })
@@ -1,6 +1,7 @@
-import { BufferGeometry, Vector3, Vector3Tuple, Ray, Triangle } from "three";
+import { BufferAttribute, BufferGeometry, Vector3, Vector3Tuple, Ray, Triangle } from "three";
 import { Coords } from "./coords";
 import { coordsToVector3 } from "./coords-to-vector-3";
+import { vector3ToCoords } from "./vector-3-to-coords";
 import { GeoTriangle, GeoVertex } from "./polyhedral-surface";
 
 /**
@@ -24,10 +25,123 @@ export interface PointInPolyhedronResult {
   intersectionCount: number;
 }
 
+/**
+ * Distance from a point to the surface of a polyhedron.
+ */
+export interface PolyhedronDistanceResult {
+  /**
+   * Distance in meters to the closest point of the surface,
+   * negative when the point is inside (or on the boundary).
+   */
+  distance: number;
+
+  /** The closest point of the surface */
+  closestPoint: Vector3Tuple;
+
+  /** Index of the triangle the closest point lies on */
+  triangleIndex: number;
+
+  /** Whether the point is inside the polyhedron */
+  inside: boolean;
+}
+
+/**
+ * Distance from geographic coordinates to the surface of a polyhedron.
+ */
+export interface GeoPolyhedronDistanceResult extends PolyhedronDistanceResult {
+  /** The closest point of the surface, as geographic coordinates */
+  closestCoords: Coords;
+}
+
+/**
+ * A point where a path crosses the surface of a polyhedron.
+ */
+export interface PathCrossing {
+  /** Whether the path goes into or out of the polyhedron */
+  type: 'entry' | 'exit';
+
+  /** Where the path crosses the surface */
+  coords: Coords;
+
+  /** Distance in meters from the start of the path, along the path */
+  distance: number;
+
+  /** Index of the path segment, from `path[segmentIndex]` to `path[segmentIndex + 1]` */
+  segmentIndex: number;
+
+  /** Index of the crossed triangle */
+  triangleIndex: number;
+}
+
+/**
+ * Result of {@link intersectPathWithPolyhedron}.
+ */
+export interface PathIntersectionResult {
+  /** Entries and exits, ordered along the path */
+  crossings: PathCrossing[];
+
+  /** Whether the first point of the path is inside the polyhedron */
+  startsInside: boolean;
+
+  /** Whether the last point of the path is inside the polyhedron */
+  endsInside: boolean;
+
+  /** Whether any part of the path is inside the polyhedron */
+  intersects: boolean;
+
+  /** Length of the path in meters */
+  length: number;
+}
+
+/**
+ * Options for {@link intersectPathWithPolyhedron}.
+ */
+export interface IntersectPathOptions {
+  /**
+   * Origin of the local frame the path is measured in.
+   * @defaultValue the first point of the path
+   */
+  origin?: Coords;
+}
+
 const RAY_DIRECTION = new Vector3(1, 0.0001, 0.0001).normalize();
 const RAY_EPSILON = 1e-12;
 const BOUNDARY_TOLERANCE = 1e-3;
 
+/**
+ * Calls `callback` with every triangle of an indexed or non-indexed geometry,
+ * reusing the same Triangle. Stops early when the callback returns `true`.
+ */
+function forEachTriangle(
+  positions: ArrayLike<number>,
+  index: BufferAttribute | null,
+  callback: (triangle: Triangle, triangleIndex: number) => boolean | void
+): void {
+  const triangle = new Triangle();
+  if (index) {
+    const indices = index.array;
+    for (let i = 0; i < indices.length; i += 3) {
+      const i0 = indices[i] * 3;
+      const i1 = indices[i + 1] * 3;
+      const i2 = indices[i + 2] * 3;
+
+      triangle.a.set(positions[i0], positions[i0 + 1], positions[i0 + 2]);
+      triangle.b.set(positions[i1], positions[i1 + 1], positions[i1 + 2]);
+      triangle.c.set(positions[i2], positions[i2 + 1], positions[i2 + 2]);
+
+      if (callback(triangle, i / 3)) return;
+    }
+  } else {
+    for (let i = 0; i < positions.length; i += 9) {
+      triangle.a.set(positions[i], positions[i + 1], positions[i + 2]);
+      triangle.b.set(positions[i + 3], positions[i + 4], positions[i + 5]);
+      triangle.c.set(positions[i + 6], positions[i + 7], positions[i + 8]);
+
+      if (callback(triangle, i / 9)) return;
+    }
+  }
+}
+
 /**
  * Tests whether a 3D point is inside a closed polyhedron using ray casting.
  *
@@ -57,6 +171,8 @@ const BOUNDARY_TOLERANCE = 1e-3;
  * isPointInPolyhedron(pointInside, box).inside; // true
  * isPointInPolyhedron(pointOutside, box).inside; // false
  * ```
+ *
+ * @see {@link PolyhedronIndex} to test many points against the same geometry
  */
 export function isPointInPolyhedron(
   point: Vector3Tuple,
@@ -98,43 +214,16 @@ export function isPointInPolyhedron(
   }
 
   let intersectionCount = 0;
-  const triangle = new Triangle();
   const target = new Vector3();
 
-  if (index) {
-    // Indexed geometry
-    const indices = index.array;
-    for (let i = 0; i < indices.length; i += 3) {
-      const i0 = indices[i] * 3;
-      const i1 = indices[i + 1] * 3;
-      const i2 = indices[i + 2] * 3;
-
-      triangle.a.set(positions[i0], positions[i0 + 1], positions[i0 + 2]);
-      triangle.b.set(positions[i1], positions[i1 + 1], positions[i1 + 2]);
-      triangle.c.set(positions[i2], positions[i2 + 1], positions[i2 + 2]);
-
-      if (ray.intersectTriangle(triangle.a, triangle.b, triangle.c, false, target)) {
-        // Check if intersection is in the positive direction
-        if (target.clone().sub(origin).dot(RAY_DIRECTION) > RAY_EPSILON) {
-          intersectionCount++;
-        }
-      }
-    }
-  } else {
-    // Non-indexed geometry
-    for (let i = 0; i < positions.length; i += 9) {
-      triangle.a.set(positions[i], positions[i + 1], positions[i + 2]);
-      triangle.b.set(positions[i + 3], positions[i + 4], positions[i + 5]);
-      triangle.c.set(positions[i + 6], positions[i + 7], positions[i + 8]);
-
-      if (ray.intersectTriangle(triangle.a, triangle.b, triangle.c, false, target)) {
-        // Check if intersection is in the positive direction
-        if (target.clone().sub(origin).dot(RAY_DIRECTION) > RAY_EPSILON) {
-          intersectionCount++;
-        }
+  forEachTriangle(positions, index, (triangle) => {
+    if (ray.intersectTriangle(triangle.a, triangle.b, triangle.c, false, target)) {
+      // Check if intersection is in the positive direction
+      if (target.clone().sub(origin).dot(RAY_DIRECTION) > RAY_EPSILON) {
+        intersectionCount++;
       }
     }
-  }
+  });
 
   return {
     inside: intersectionCount % 2 === 1,
@@ -300,38 +389,265 @@ export function isPointOnSurface(
   }
 
   const positions = positionAttr.array as Float32Array;
-  const index = geometry.getIndex();
-  const triangle = new Triangle();
   const closestPoint = new Vector3();
 
-  if (index) {
-    const indices = index.array;
-    for (let i = 0; i < indices.length; i += 3) {
-      const i0 = indices[i] * 3;
-      const i1 = indices[i + 1] * 3;
-      const i2 = indices[i + 2] * 3;
+  let onSurface = false;
+  forEachTriangle(positions, geometry.getIndex(), (triangle) => {
+    triangle.closestPointToPoint(testPoint, closestPoint);
+    onSurface = testPoint.distanceTo(closestPoint) <= tolerance;
+    return onSurface;
+  });
 
-      triangle.a.set(positions[i0], positions[i0 + 1], positions[i0 + 2]);
-      triangle.b.set(positions[i1], positions[i1 + 1], positions[i1 + 2]);
-      triangle.c.set(positions[i2], positions[i2 + 1], positions[i2 + 2]);
+  return onSurface;
+}
 
-      triangle.closestPointToPoint(testPoint, closestPoint);
-      if (testPoint.distanceTo(closestPoint) <= tolerance) {
-        return true;
-      }
+/** triangle vertices in 3D space relative to origin, 9 numbers per triangle */
+/** ray parity test against non-indexed positions, without the on-surface check */
+function isInsidePositions(point: Vector3, positions: ArrayLike<number>): boolean {
+  const ray = new Ray(point, RAY_DIRECTION);
+  const target = new Vector3();
+  let intersectionCount = 0;
+  forEachTriangle(positions, null, (triangle) => {
+    if (ray.intersectTriangle(triangle.a, triangle.b, triangle.c, false, target) &&
+      target.sub(point).dot(RAY_DIRECTION) > RAY_EPSILON) {
+      intersectionCount++;
     }
-  } else {
-    for (let i = 0; i < positions.length; i += 9) {
-      triangle.a.set(positions[i], positions[i + 1], positions[i + 2]);
-      triangle.b.set(positions[i + 3], positions[i + 4], positions[i + 5]);
-      triangle.c.set(positions[i + 6], positions[i + 7], positions[i + 8]);
+  });
+  return intersectionCount % 2 === 1;
+}
+
+function geoTrianglesToPositions(triangles: GeoTriangle[], origin: Coords): number[] {
+  const positions: number[] = [];
+  for (const tri of triangles) {
+    positions.push(
+      ...coordsToVector3(tri.v0, origin),
+      ...coordsToVector3(tri.v1, origin),
+      ...coordsToVector3(tri.v2, origin)
+    );
+  }
+  return positions;
+}
+
+/** nearest point over every triangle */
+function closestSurfacePoint(
+  point: Vector3,
+  positions: ArrayLike<number>,
+  index: BufferAttribute | null
+): { distance: number; closestPoint: Vector3Tuple; triangleIndex: number } {
+  const candidate = new Vector3();
+  const closest = new Vector3();
+  let bestSq = Infinity;
+  let triangleIndex = -1;
+
+  forEachTriangle(positions, index, (triangle, i) => {
+    triangle.closestPointToPoint(point, candidate);
+    const distanceSq = candidate.distanceToSquared(point);
+    if (distanceSq < bestSq) {
+      bestSq = distanceSq;
+      triangleIndex = i;
+      closest.copy(candidate);
+    }
+  });
+
+  if (triangleIndex === -1) {
+    throw new Error("Cannot measure the distance to a polyhedron without triangles.");
+  }
+  return { distance: Math.sqrt(bestSq), closestPoint: closest.toArray(), triangleIndex };
+}
 
-      triangle.closestPointToPoint(testPoint, closestPoint);
-      if (testPoint.distanceTo(closestPoint) <= tolerance) {
-        return true;
+/**
+ * Measures how far a 3D point is from the surface of a closed polyhedron,
+ * and where the closest surface point is.
+ *
+ * The distance is signed: positive outside, negative inside, which makes
+ * "approaching the boundary" a simple threshold on its absolute value.
+ *
+ * @param point - The 3D point as a Vector3Tuple [x, y, z]
+ * @param geometry - The BufferGeometry representing the closed polyhedron
+ * @returns The signed distance, closest point and closest triangle index
+ * @throws Error if BufferGeometry has no position attribute or no triangles
+ *
+ * @example
+ * ```ts
+ * import { distanceToPolyhedron } from '@wendylabsinc/react-three-map/maplibre';
+ * import { BoxGeometry } from 'three';
+ *
+ * const box = new BoxGeometry(100, 100, 100);
+ * distanceToPolyhedron([40, 0, 0], box).distance; // -10, inside
+ * distanceToPolyhedron([80, 0, 0], box).distance; // 30, outside
+ * ```
+ *
+ * @see {@link PolyhedronIndex.distanceTo} to query many points against the same geometry
+ */
+export function distanceToPolyhedron(
+  point: Vector3Tuple,
+  geometry: BufferGeometry
+): PolyhedronDistanceResult {
+  const { inside } = isPointInPolyhedron(point, geometry);
+  const positions = geometry.getAttribute("position").array;
+  const closest = closestSurfacePoint(new Vector3(...point), positions, geometry.getIndex());
+  return { ...closest, distance: inside ? -closest.distance : closest.distance, inside };
+}
+
+/**
+ * Geographic version of {@link distanceToPolyhedron}.
+ *
+ * @param coords - The geographic coordinates to measure from
+ * @param geometry - The BufferGeometry representing the closed polyhedron (in 3D space relative to origin)
+ * @param origin - The geographic origin used for coordinate conversion
+ * @returns The signed distance in meters, the closest point in both 3D and geographic coordinates
+ *
+ * @example
+ * ```ts
+ * import { distanceCoordsToPolyhedron } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const { distance, closestCoords } = distanceCoordsToPolyhedron(drone, geofenceGeometry, origin);
+ * if (distance > -20) {
+ *   console.warn(`Drone is ${-distance}m from the geofence boundary, near`, closestCoords);
+ * }
+ * ```
+ */
+export function distanceCoordsToPolyhedron(
+  coords: Coords,
+  geometry: BufferGeometry,
+  origin: Coords
+): GeoPolyhedronDistanceResult {
+  const result = distanceToPolyhedron(coordsToVector3(coords, origin), geometry);
+  return { ...result, closestCoords: vector3ToCoords(result.closestPoint, origin) };
+}
+
+/**
+ * Geographic version of {@link distanceToPolyhedron}, for a polyhedron defined by GeoTriangles.
+ *
+ * @param coords - The geographic coordinates to measure from
+ * @param triangles - Array of GeoTriangle objects defining the closed surface
+ * @param origin - The geographic origin used for coordinate conversion
+ * @returns The signed distance in meters, the closest point in both 3D and geographic coordinates
+ * @throws Error if `triangles` is empty
+ */
+export function distanceCoordsToGeoTriangles(
+  coords: Coords,
+  triangles: GeoTriangle[],
+  origin: Coords
+): GeoPolyhedronDistanceResult {
+  const point = coordsToVector3(coords, origin);
+  const { inside } = isPointInGeoTriangles(point, triangles, origin);
+
+  const positions = geoTrianglesToPositions(triangles, origin);
+  const closest = closestSurfacePoint(new Vector3(...point), positions, null);
+
+  return {
+    ...closest,
+    distance: inside ? -closest.distance : closest.distance,
+    inside,
+    closestCoords: vector3ToCoords(closest.closestPoint, origin),
+  };
+}
+
+/**
+ * Finds where a path enters and exits a closed polyhedron, e.g. a flight path
+ * against a geofence loaded with {@link wktToBufferGeometry} or {@link parseWKT}.
+ *
+ * Each segment of the path is intersected with every triangle. A hit only counts
+ * as an entry or an exit when the path is on the other side of the surface right
+ * after it, tested with the same ray casting as {@link isPointInPolyhedron}, so the
+ * result doesn't depend on the winding of the triangles and paths grazing an edge
+ * or a vertex don't cross anything. A segment crossing an edge shared by two
+ * triangles counts once.
+ *
+ * @param path - Points of the path, at least 2
+ * @param triangles - Array of GeoTriangle objects defining the closed surface
+ * @param options - Origin of the local frame, the first point of the path by default
+ * @returns The ordered crossings, with their distance along the path
+ * @throws Error if the path has fewer than 2 points
+ *
+ * @example
+ * ```ts
+ * import { intersectPathWithPolyhedron, parseWKT } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const { crossings } = intersectPathWithPolyhedron(flightPlan, parseWKT(geofenceWkt));
+ * for (const { type, distance, coords } of crossings) {
+ *   console.log(`${type} after ${distance.toFixed(0)}m at`, coords);
+ * }
+ * ```
+ */
+export function intersectPathWithPolyhedron(
+  path: Coords[],
+  triangles: GeoTriangle[],
+  options?: IntersectPathOptions
+): PathIntersectionResult {
+  if (path.length < 2) {
+    throw new Error(`A path needs at least 2 points, received ${path.length}.`);
+  }
+  const origin = options?.origin ?? path[0];
+
+  const positions = geoTrianglesToPositions(triangles, origin);
+  const points = path.map((coords) => new Vector3(...coordsToVector3(coords, origin)));
+  const startsInside = isPointInGeoTriangles(points[0].toArray(), triangles, origin).inside;
+
+  // surface hits along the whole path, one per crossing point
+  const hits: { distance: number; point: Vector3; segmentIndex: number; triangleIndex: number }[] = [];
+  const ray = new Ray();
+  const target = new Vector3();
+  const starts: number[] = [];
+  let travelled = 0;
+
+  for (let segment = 0; segment < points.length - 1; segment++) {
+    const start = points[segment];
+    const length = start.distanceTo(points[segment + 1]);
+    starts.push(travelled);
+    if (length === 0) continue;
+    ray.origin.copy(start);
+    ray.direction.subVectors(points[segment + 1], start).divideScalar(length);
+
+    const segmentHits: typeof hits = [];
+    forEachTriangle(positions, null, (triangle, triangleIndex) => {
+      if (!ray.intersectTriangle(triangle.a, triangle.b, triangle.c, false, target)) return;
+      const t = target.distanceTo(start);
+      // hits at the start of a segment were counted at the end of the previous one
+      if (t > BOUNDARY_TOLERANCE && t <= length + BOUNDARY_TOLERANCE) {
+        segmentHits.push({ distance: travelled + t, point: target.clone(), segmentIndex: segment, triangleIndex });
       }
+    });
+    segmentHits.sort((a, b) => a.distance - b.distance);
+    for (const hit of segmentHits) {
+      // the same crossing through an edge or vertex shared by several triangles
+      const last = hits[hits.length - 1];
+      if (!last || hit.distance - last.distance > BOUNDARY_TOLERANCE) hits.push(hit);
     }
+    travelled += length;
   }
 
-  return false;
+  /** point `distance` meters along the path */
+  const pointAt = (distance: number) => {
+    let segment = 0;
+    while (segment < starts.length - 1 && starts[segment + 1] <= distance) segment++;
+    const start = points[segment];
+    const end = points[segment + 1];
+    const length = start.distanceTo(end);
+    return length === 0 ? start.clone() : start.clone().lerp(end, (distance - starts[segment]) / length);
+  };
+
+  // a hit only crosses the surface when the side changes: grazing an edge or a vertex doesn't
+  const crossings: PathCrossing[] = [];
+  let inside = startsInside;
+  hits.forEach(({ distance, point, segmentIndex, triangleIndex }, i) => {
+    const next = hits[i + 1]?.distance ?? travelled;
+    const after = next - distance > BOUNDARY_TOLERANCE
+      ? isInsidePositions(pointAt((distance + next) / 2), positions)
+      // the path ends on the surface
+      : !inside;
+    if (after === inside) return;
+    inside = after;
+    crossings.push({
+      type: inside ? 'entry' : 'exit',
+      coords: vector3ToCoords(point.toArray(), origin),
+      distance,
+      segmentIndex,
+      triangleIndex,
+    });
+  });
+
+  const intersects = startsInside || crossings.length > 0;
+  return { crossings, startsInside, endsInside: inside, intersects, length: travelled };
 }
@@ -0,0 +1,110 @@
+import { MathUtils } from "three";
+import { assertFiniteVertex, triangulatePolygon, verticesEqual } from "../core/geo-triangulation";
+import { Coords } from "./coords";
+import { GeoTriangle, GeoVertex } from "./polyhedral-surface";
+
+/**
+ * Altitude band of a prism built by {@link polygonPrismToGeoTriangles}.
+ */
+export interface PolygonPrismOptions {
+  /** Altitude of the bottom of the prism, in meters above sea level */
+  floor: number;
+  /** Altitude of the top of the prism, in meters above sea level */
+  ceiling: number;
+}
+
+/** ring without the repeated closing coordinate, at `altitude` */
+function ringToVertices(ring: Coords[], altitude: number, name: string): GeoVertex[] {
+  const vertices = ring.map(({ longitude, latitude }) => ({ longitude, latitude, altitude }));
+  vertices.forEach(assertFiniteVertex);
+  if (vertices.length > 1 && verticesEqual(vertices[0], vertices[vertices.length - 1])) vertices.pop();
+  if (vertices.length < 3) {
+    throw new Error(`${name} must have at least 3 coordinates.`);
+  }
+  return vertices;
+}
+
+/** twice the signed area of a ring seen from above, positive when counter-clockwise */
+function signedArea(ring: GeoVertex[]): number {
+  const cosLat = Math.cos(ring[0].latitude * MathUtils.DEG2RAD);
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    area += (a.longitude * b.latitude - b.longitude * a.latitude) * cosLat;
+  }
+  return area;
+}
+
+/** whether a horizontal triangle is counter-clockwise seen from above */
+function facesUp({ v0, v1, v2 }: GeoTriangle): boolean {
+  return (v1.longitude - v0.longitude) * (v2.latitude - v0.latitude) -
+    (v1.latitude - v0.latitude) * (v2.longitude - v0.longitude) > 0;
+}
+
+/**
+ * Builds a closed prism from a polygon and an altitude band, the usual shape of
+ * airspace definitions.
+ *
+ * The caps are triangulated with Earcut, holes included, and share their vertices
+ * with the walls, so the surface is watertight and its faces point outwards. The
+ * result works with {@link isCoordsInGeoTriangles}, {@link PolyhedronIndex.fromGeoTriangles}
+ * and {@link geoTrianglesToWKT}.
+ *
+ * @param ring - Polygon outline, either winding, closed or not. Altitudes are ignored.
+ * @param holes - Polygon holes, either winding, closed or not
+ * @param options - Floor and ceiling altitudes
+ * @returns The triangles of the prism
+ * @throws Error if a ring has fewer than 3 coordinates or non-finite coordinates
+ * @throws Error if `ceiling` is not above `floor`
+ *
+ * @example
+ * ```ts
+ * import { polygonPrismToGeoTriangles, isCoordsInGeoTriangles } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const airspace = polygonPrismToGeoTriangles(ring, [], { floor: 120, ceiling: 450 });
+ * isCoordsInGeoTriangles(drone, airspace, origin).inside;
+ * ```
+ */
+export function polygonPrismToGeoTriangles(
+  ring: Coords[],
+  holes: Coords[][],
+  options: PolygonPrismOptions
+): GeoTriangle[] {
+  const { floor, ceiling } = options;
+  if (!Number.isFinite(floor) || !Number.isFinite(ceiling) || !(ceiling > floor)) {
+    throw new Error(`Prism ceiling (${ceiling}) must be greater than floor (${floor}).`);
+  }
+
+  // outline counter-clockwise and holes clockwise, seen from above
+  const bottomRings = [
+    ringToVertices(ring, floor, "Prism outline"),
+    ...holes.map((hole, i) => ringToVertices(hole, floor, `Prism hole ${i}`)),
+  ];
+  bottomRings.forEach((r, i) => {
+    if ((signedArea(r) > 0) !== (i === 0)) r.reverse();
+  });
+  const topRings = bottomRings.map((r) => r.map((v) => ({ ...v, altitude: ceiling })));
+
+  const triangles: GeoTriangle[] = [];
+  for (const triangle of triangulatePolygon(topRings)) {
+    const { v0, v1, v2 } = triangle;
+    triangles.push(facesUp(triangle) ? triangle : { v0, v1: v2, v2: v1 });
+  }
+  for (const triangle of triangulatePolygon(bottomRings)) {
+    const { v0, v1, v2 } = triangle;
+    triangles.push(facesUp(triangle) ? { v0, v1: v2, v2: v1 } : triangle);
+  }
+
+  bottomRings.forEach((bottom, r) => {
+    const top = topRings[r];
+    for (let i = 0; i < bottom.length; i++) {
+      const j = (i + 1) % bottom.length;
+      // walking i -> j the outside is on the right, so this winding faces outwards
+      triangles.push({ v0: bottom[i], v1: bottom[j], v2: top[j] });
+      triangles.push({ v0: bottom[i], v1: top[j], v2: top[i] });
+    }
+  });
+
+  return triangles;
+}
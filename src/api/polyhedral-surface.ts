@@ -1,9 +1,17 @@
-import { BufferGeometry, Vector3Tuple, Float32BufferAttribute, Vector3 } from "three";
-// three ships Earcut internally; use it for triangulating polygon faces with >3 vertices
-import { Earcut } from "three/src/extras/Earcut.js";
+import { BufferGeometry, Vector3Tuple, Vector3 } from "three";
 import { Coords } from "./coords";
-import { coordsToVector3 } from "./coords-to-vector-3";
 import { vector3ToCoords } from "./vector-3-to-coords";
+import { geoTrianglesToWKT, GeoTrianglesToWKTOptions, parseWKT } from "./wkt";
+import {
+  assertFiniteVertex,
+  degreesProjection,
+  geoTrianglesToGeometry,
+  isFiniteNumber,
+  MIN_AREA_TOLERANCE,
+  openRing,
+  triangulatePolygon,
+} from "../core/geo-triangulation";
+import { geometryToTriangles } from "../core/geometry-to-triangles";
 
 /**
  * Represents a 3D geographic coordinate for use in polyhedral surfaces.
@@ -26,18 +34,12 @@ export interface GeoTriangle {
 /**
  * Options for converting BufferGeometry to WKT format.
  */
-export interface BufferGeometryToWKTOptions {
+export interface BufferGeometryToWKTOptions extends GeoTrianglesToWKTOptions {
   /**
    * The origin coordinates used as reference for converting 3D positions to geo-coordinates.
    * This should match the Canvas or scene origin.
    */
   origin: Coords;
-
-  /**
-   * Number of decimal places for coordinates in the WKT output.
-   * @defaultValue 8
-   */
-  precision?: number;
 }
 
 /**
@@ -51,30 +53,6 @@ export interface WKTToBufferGeometryOptions {
   origin: Coords;
 }
 
-const RING_CLOSURE_TOLERANCE = 1e-9;
-const MIN_AREA_TOLERANCE = 1e-12;
-
-type EarcutFn = (vertices: number[], holes?: number[], dimensions?: number) => number[];
-const earcut: EarcutFn = Earcut.triangulate.bind(Earcut);
-
-function isFiniteNumber(value: number): boolean {
-  return Number.isFinite(value) && !Number.isNaN(value);
-}
-
-function verticesEqual(a: GeoVertex, b: GeoVertex, tolerance = RING_CLOSURE_TOLERANCE): boolean {
-  return (
-    Math.abs(a.longitude - b.longitude) <= tolerance &&
-    Math.abs(a.latitude - b.latitude) <= tolerance &&
-    Math.abs(a.altitude - b.altitude) <= tolerance
-  );
-}
-
-function assertFiniteVertex(v: GeoVertex): void {
-  if (!isFiniteNumber(v.longitude) || !isFiniteNumber(v.latitude) || !isFiniteNumber(v.altitude)) {
-    throw new Error("Encountered non-finite coordinate when building GeoVertex.");
-  }
-}
-
 function parseVertexStrict(token: string): GeoVertex {
   const parts = token.split(/\s+/).filter((p) => p.length > 0);
   if (parts.length < 3) {
@@ -98,84 +76,6 @@ function parseVertexStrict(token: string): GeoVertex {
   return { longitude, latitude, altitude };
 }
 
-function buildPlaneBasis(vertices: Vector3[]): { origin: Vector3; u: Vector3; v: Vector3; normal: Vector3 } {
-  const origin = vertices[0].clone();
-
-  let normal = new Vector3();
-  for (let i = 1; i < vertices.length - 1; i++) {
-    const ab = vertices[i].clone().sub(origin);
-    for (let j = i + 1; j < vertices.length; j++) {
-      const ac = vertices[j].clone().sub(origin);
-      normal = ab.clone().cross(ac);
-      if (normal.lengthSq() > MIN_AREA_TOLERANCE) {
-        break;
-      }
-    }
-    if (normal.lengthSq() > MIN_AREA_TOLERANCE) {
-      break;
-    }
-  }
-
-  if (normal.lengthSq() <= MIN_AREA_TOLERANCE) {
-    throw new Error("Cannot triangulate polygon: vertices are collinear or degenerate.");
-  }
-
-  const normalizedNormal = normal.normalize();
-  const helperAxis = Math.abs(normalizedNormal.x) < 0.9 ? new Vector3(1, 0, 0) : new Vector3(0, 1, 0);
-  const u = new Vector3().crossVectors(normalizedNormal, helperAxis).normalize();
-  const v = new Vector3().crossVectors(normalizedNormal, u).normalize();
-
-  return { origin, u, v, normal: normalizedNormal };
-}
-
-function triangulateFace(vertices: GeoVertex[]): GeoTriangle[] {
-  if (vertices.length < 3) {
-    throw new Error("Cannot triangulate polygon face: fewer than 3 vertices.");
-  }
-
-  // Already a triangle
-  if (vertices.length === 3) {
-    const a = new Vector3(vertices[0].longitude, vertices[0].latitude, vertices[0].altitude);
-    const b = new Vector3(vertices[1].longitude, vertices[1].latitude, vertices[1].altitude);
-    const c = new Vector3(vertices[2].longitude, vertices[2].latitude, vertices[2].altitude);
-    const area = b.clone().sub(a).cross(c.clone().sub(a)).lengthSq();
-    if (area <= MIN_AREA_TOLERANCE) {
-      throw new Error("Cannot triangulate polygon face: triangle is degenerate.");
-    }
-    return [{ v0: vertices[0], v1: vertices[1], v2: vertices[2] }];
-  }
-
-  const vectors = vertices.map(
-    (v) => new Vector3(v.longitude, v.latitude, v.altitude)
-  );
-  const { origin, u, v } = buildPlaneBasis(vectors);
-
-  const projected: number[] = [];
-  for (const vec of vectors) {
-    const relative = vec.clone().sub(origin);
-    projected.push(relative.dot(u), relative.dot(v));
-  }
-
-  const indices = earcut(projected, undefined, 2);
-  if (!indices || indices.length === 0 || indices.length % 3 !== 0) {
-    throw new Error("Failed to triangulate polygon face with Earcut.");
-  }
-
-  const triangles: GeoTriangle[] = [];
-  for (let i = 0; i < indices.length; i += 3) {
-    const ia = indices[i];
-    const ib = indices[i + 1];
-    const ic = indices[i + 2];
-    triangles.push({
-      v0: vertices[ia],
-      v1: vertices[ib],
-      v2: vertices[ic],
-    });
-  }
-
-  return triangles;
-}
-
 function toGeoVertex(tuple: Vector3Tuple, origin: Coords): GeoVertex {
   const coords = vector3ToCoords(tuple, origin);
   const vertex: GeoVertex = {
@@ -279,11 +179,12 @@ export function extractGeoTriangles(
  *
  * This function extracts all triangular faces from the geometry and converts
  * them to geographic coordinates suitable for storage in PostGIS with
- * `geometry(POLYHEDRALSURFACEZ, 4326)` column type.
+ * `geometry(POLYHEDRALSURFACEZ, 4326)` column type. Set `type` to write
+ * `TIN Z` or `MULTIPOLYGON Z` instead, see {@link geoTrianglesToWKT}.
  *
  * @param geometry - The Three.js BufferGeometry to convert
  * @param options - Conversion options including the geographic origin
- * @returns WKT string in POLYHEDRALSURFACE Z format
+ * @returns WKT string in POLYHEDRALSURFACE Z format, or the requested `type`
  *
  * @remarks
  * The output format is:
@@ -317,7 +218,7 @@ export function bufferGeometryToWKT(
   geometry: BufferGeometry,
   options: BufferGeometryToWKTOptions
 ): string {
-  const { origin, precision = 8 } = options;
+  const { origin, ...wktOptions } = options;
   const triangles = extractGeoTriangles(geometry, origin);
 
   if (triangles.length === 0) {
@@ -327,27 +228,14 @@ export function bufferGeometryToWKT(
     );
   }
 
-  const formatCoord = (v: GeoVertex): string => {
-    const lng = v.longitude.toFixed(precision);
-    const lat = v.latitude.toFixed(precision);
-    const alt = v.altitude.toFixed(precision);
-    return `${lng} ${lat} ${alt}`;
-  };
-
-  const polygons = triangles.map((tri) => {
-    // Close the polygon by repeating the first vertex
-    const c0 = formatCoord(tri.v0);
-    const c1 = formatCoord(tri.v1);
-    const c2 = formatCoord(tri.v2);
-    return `((${c0}, ${c1}, ${c2}, ${c0}))`;
-  });
-
-  return `POLYHEDRALSURFACE Z (${polygons.join(", ")})`;
+  return geoTrianglesToWKT(triangles, wktOptions);
 }
 
 /**
  * Parses a PostGIS POLYHEDRALSURFACE Z WKT string and converts it to a BufferGeometry.
  *
+ * `TIN`, `MULTIPOLYGON`, `POLYGON` and `TRIANGLE` are accepted too, see {@link parseWKT}.
+ *
  * @param wkt - The WKT string in POLYHEDRALSURFACE Z format
  * @param options - Conversion options including the geographic origin
  * @returns A Three.js BufferGeometry representing the polyhedral surface
@@ -361,7 +249,7 @@ export function bufferGeometryToWKT(
  * )
  * ```
  *
- * @throws Error if WKT is not in POLYHEDRALSURFACE Z format
+ * @throws Error if WKT is not a supported surface type
  * @throws Error if WKT contains no valid triangular faces
  * @throws Error if coordinate parsing fails
  *
@@ -386,7 +274,7 @@ export function wktToBufferGeometry(
   options: WKTToBufferGeometryOptions
 ): BufferGeometry {
   const { origin } = options;
-  const triangles = parsePolyhedralSurfaceWKT(wkt);
+  const triangles = parseWKT(wkt);
 
   if (triangles.length === 0) {
     throw new Error(
@@ -394,24 +282,7 @@ export function wktToBufferGeometry(
     );
   }
 
-  // Convert to positions array (non-indexed for simplicity)
-  const positions: number[] = [];
-
-  for (const tri of triangles) {
-    const p0 = coordsToVector3(tri.v0, origin);
-    const p1 = coordsToVector3(tri.v1, origin);
-    const p2 = coordsToVector3(tri.v2, origin);
-
-    positions.push(p0[0], p0[1], p0[2]);
-    positions.push(p1[0], p1[1], p1[2]);
-    positions.push(p2[0], p2[1], p2[2]);
-  }
-
-  const geometry = new BufferGeometry();
-  geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
-  geometry.computeVertexNormals();
-
-  return geometry;
+  return geoTrianglesToGeometry(triangles, origin);
 }
 
 /**
@@ -420,6 +291,8 @@ export function wktToBufferGeometry(
  * @param wkt - The WKT string to parse
  * @returns An array of GeoTriangle objects
  *
+ * @see {@link WKTStreamParser} for large inputs and errors with their location
+ *
  * @internal
  */
 export function parsePolyhedralSurfaceWKT(wkt: string): GeoTriangle[] {
@@ -464,27 +337,10 @@ export function parsePolyhedralSurfaceWKT(wkt: string): GeoTriangle[] {
     }
 
     const coordTokens = rawRing.split(",").map((s) => s.trim()).filter(Boolean);
-
-    // A polygon must have at least 3 unique vertices + closing vertex
-    if (coordTokens.length < 4) {
-      throw new Error(
-        "Each polygon must have at least 4 coordinates (3 vertices + closing point)."
-      );
-    }
-
     const vertices = coordTokens.map(parseVertexStrict);
 
-    if (!verticesEqual(vertices[0], vertices[vertices.length - 1])) {
-      throw new Error(
-        "Invalid polygon ring: first and last coordinates must match to close the ring."
-      );
-    }
-
     // Remove closing coordinate for triangulation
-    const openVertices = vertices.slice(0, -1);
-    openVertices.forEach(assertFiniteVertex);
-
-    triangles.push(...triangulateFace(openVertices));
+    triangles.push(...triangulatePolygon([openRing(vertices)], degreesProjection));
   }
 
   return triangles;
@@ -545,27 +401,7 @@ export function geoTrianglesToBufferGeometry(
     );
   }
 
-  const positions: number[] = [];
-
-  for (const tri of triangles) {
-    assertFiniteVertex(tri.v0);
-    assertFiniteVertex(tri.v1);
-    assertFiniteVertex(tri.v2);
-
-    const p0 = coordsToVector3(tri.v0, origin);
-    const p1 = coordsToVector3(tri.v1, origin);
-    const p2 = coordsToVector3(tri.v2, origin);
-
-    positions.push(p0[0], p0[1], p0[2]);
-    positions.push(p1[0], p1[1], p1[2]);
-    positions.push(p2[0], p2[1], p2[2]);
-  }
-
-  const geometry = new BufferGeometry();
-  geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
-  geometry.computeVertexNormals();
-
-  return geometry;
+  return geoTrianglesToGeometry(triangles, origin);
 }
 
 export interface GeometryValidationOptions {
@@ -720,3 +556,121 @@ export function validatePolyhedronGeometry(
     nonManifoldEdgeCount: nonManifoldEdges,
   };
 }
+
+export interface PolyhedronMeasureOptions {
+  /**
+   * Tolerance used when comparing edge endpoints to check that the surface is closed.
+   * @defaultValue 1e-6
+   */
+  tolerance?: number;
+}
+
+export interface PolyhedronMeasurements {
+  /** Enclosed volume, in cubic meters */
+  volume: number;
+  /** Total area of the faces, in square meters */
+  surfaceArea: number;
+  /** Center of mass of the enclosed volume */
+  centroid: Coords;
+  /** Center of mass, in meters relative to the origin */
+  localCentroid: Vector3Tuple;
+  /** Whether every edge is shared by exactly two triangles */
+  isClosed: boolean;
+  /** Reasons the measurements may be wrong, empty for a valid closed surface */
+  warnings: string[];
+}
+
+/**
+ * Measures the volume, surface area and centroid of a closed polyhedral surface,
+ * e.g. for compliance reports on geofences.
+ *
+ * The volume is the sum of the signed volumes of the tetrahedra formed by each face
+ * and a reference point, so it is only meaningful for closed surfaces. Open surfaces,
+ * and surfaces whose faces point inwards, are still measured, with a warning.
+ *
+ * Does not mutate the geometry.
+ *
+ * @param surface - A BufferGeometry, in meters relative to `origin`, or GeoTriangles
+ * @param origin - The geographic origin for coordinate conversion
+ * @param options - Tolerance of the closed surface check
+ * @throws Error if BufferGeometry has no position attribute, or incomplete triangles
+ * @throws Error if a GeoTriangle has a non-finite coordinate
+ *
+ * @example
+ * ```ts
+ * import { measurePolyhedron } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const { volume, surfaceArea, centroid, warnings } = measurePolyhedron(triangles, origin);
+ * console.log(`${volume.toFixed(0)} m³ around ${centroid.latitude}, ${centroid.longitude}`);
+ * ```
+ */
+export function measurePolyhedron(
+  surface: BufferGeometry | GeoTriangle[],
+  origin: Coords,
+  options?: PolyhedronMeasureOptions
+): PolyhedronMeasurements {
+  const geometry = Array.isArray(surface) ? geoTrianglesToGeometry(surface, origin) : surface;
+  const triangles = geometryToTriangles(geometry);
+  const warnings: string[] = [];
+
+  const validation = validatePolyhedronGeometry(geometry, options);
+  const isClosed = validation.triangleCount > 0 && validation.nonManifoldEdgeCount === 0;
+  if (triangles.length === 0) {
+    warnings.push("Surface has no triangles.");
+  } else if (!isClosed) {
+    warnings.push(
+      `Surface is not closed: found ${validation.nonManifoldEdgeCount} non-manifold edges. ` +
+      "Volume and centroid are not reliable, see repairPolyhedronGeometry."
+    );
+  }
+
+  const a = new Vector3();
+  const b = new Vector3();
+  const c = new Vector3();
+  const cross = new Vector3();
+  const edge = new Vector3();
+  // tetrahedra share the first vertex rather than the origin, which may be far away
+  const reference = triangles.length > 0 ? new Vector3().fromArray(triangles, 0) : new Vector3();
+  const volumeCentroid = new Vector3();
+  const areaCentroid = new Vector3();
+  let signedVolume = 0;
+  let surfaceArea = 0;
+
+  for (let i = 0; i < triangles.length; i += 9) {
+    a.fromArray(triangles, i).sub(reference);
+    b.fromArray(triangles, i + 3).sub(reference);
+    c.fromArray(triangles, i + 6).sub(reference);
+
+    const area = cross.subVectors(c, a).cross(edge.subVectors(b, a)).length() / 2;
+    const volume = a.dot(cross.crossVectors(b, c)) / 6;
+    const sum = a.add(b).add(c);
+    surfaceArea += area;
+    signedVolume += volume;
+    volumeCentroid.addScaledVector(sum, volume / 4);
+    areaCentroid.addScaledVector(sum, area / 3);
+  }
+
+  if (signedVolume < 0) {
+    warnings.push("Faces point inwards, the volume is negated.");
+  }
+
+  let centroid: Vector3;
+  if (Math.abs(signedVolume) > MIN_AREA_TOLERANCE) {
+    centroid = volumeCentroid.divideScalar(signedVolume).add(reference);
+  } else if (surfaceArea > 0) {
+    warnings.push("Surface encloses no volume, the centroid is the center of its faces.");
+    centroid = areaCentroid.divideScalar(surfaceArea).add(reference);
+  } else {
+    centroid = reference;
+  }
+
+  const localCentroid = centroid.toArray();
+  return {
+    volume: Math.abs(signedVolume),
+    surfaceArea,
+    centroid: vector3ToCoords(localCentroid, origin),
+    localCentroid,
+    isClosed,
+    warnings,
+  };
+}
@@ -0,0 +1,110 @@
+import { BufferGeometry, Float32BufferAttribute } from "three";
+import { csg } from "../core/csg";
+import { geometryToTriangles } from "../core/geometry-to-triangles";
+import { geoTrianglesToGeometry } from "../core/geo-triangulation";
+import { Coords } from "./coords";
+import { extractGeoTriangles, GeoTriangle } from "./polyhedral-surface";
+
+/**
+ * Boolean operation between two volumes:
+ * - `union`: inside either volume
+ * - `intersection`: inside both volumes
+ * - `difference`: inside the first volume but not the second
+ */
+export type PolyhedronBooleanOperation = 'union' | 'intersection' | 'difference';
+
+/**
+ * Options for {@link polyhedronBoolean}.
+ */
+export interface PolyhedronBooleanOptions {
+  /**
+   * Distance, in meters, under which vertices are merged, and a vertex lies on an edge.
+   * @defaultValue 1e-5
+   */
+  tolerance?: number;
+}
+
+/**
+ * Options for {@link geoTrianglesBoolean}.
+ */
+export interface GeoTrianglesBooleanOptions extends PolyhedronBooleanOptions {
+  /**
+   * Origin of the local frame the operation runs in.
+   * @defaultValue the first vertex of the first volume
+   */
+  origin?: Coords;
+}
+
+/**
+ * Combines two closed volumes, e.g. a no-fly zone carved out of an allowed corridor.
+ *
+ * Faces are split with BSP trees, then welded, and split again wherever a vertex
+ * lies on the edge of a neighboring face, so the result is watertight and passes
+ * {@link validatePolyhedronGeometry} when both inputs do.
+ *
+ * Does not mutate the geometries.
+ *
+ * @param a - First closed volume, indexed or not
+ * @param b - Second closed volume, in the same frame as `a`
+ * @param operation - Union, intersection or difference
+ * @returns Indexed geometry with vertex normals, without any triangle when the result is empty
+ * @throws Error if a geometry has no 3D position attribute, or incomplete triangles
+ *
+ * @example
+ * ```ts
+ * import { polyhedronBoolean, bufferGeometryToWKT } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const allowed = polyhedronBoolean(corridor, noFlyZone, 'difference');
+ * const wkt = bufferGeometryToWKT(allowed, origin);
+ * ```
+ */
+export function polyhedronBoolean(
+  a: BufferGeometry,
+  b: BufferGeometry,
+  operation: PolyhedronBooleanOperation,
+  options?: PolyhedronBooleanOptions
+): BufferGeometry {
+  const tolerance = options?.tolerance ?? 1e-5;
+  const { positions, indices } = csg(geometryToTriangles(a), geometryToTriangles(b), operation, tolerance);
+
+  const geometry = new BufferGeometry();
+  geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/**
+ * Combines two closed volumes given as GeoTriangles, e.g. loaded from a database.
+ *
+ * @param a - First closed volume
+ * @param b - Second closed volume
+ * @param operation - Union, intersection or difference
+ * @returns GeoTriangles of the result, empty when the result is empty
+ * @throws Error if a vertex has a non-finite coordinate
+ * @see {@link polyhedronBoolean}
+ *
+ * @example
+ * ```ts
+ * import { geoTrianglesBoolean, geoTrianglesToWKT } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const restricted = geoTrianglesBoolean(noFlyZoneA, noFlyZoneB, 'union');
+ * const wkt = geoTrianglesToWKT(restricted);
+ * ```
+ */
+export function geoTrianglesBoolean(
+  a: GeoTriangle[],
+  b: GeoTriangle[],
+  operation: PolyhedronBooleanOperation,
+  options?: GeoTrianglesBooleanOptions
+): GeoTriangle[] {
+  const origin = options?.origin ?? a[0]?.v0 ?? b[0]?.v0;
+  if (!origin) return [];
+  const result = polyhedronBoolean(
+    geoTrianglesToGeometry(a, origin),
+    geoTrianglesToGeometry(b, origin),
+    operation,
+    options
+  );
+  return extractGeoTriangles(result, origin);
+}
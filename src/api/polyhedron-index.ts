@@ -0,0 +1,251 @@
+import { Box3, BufferGeometry, Vector3, Vector3Tuple } from "three";
+import { geometryToTriangles } from "../core/geometry-to-triangles";
+import { TriangleBVH } from "../core/triangle-bvh";
+import { Coords } from "./coords";
+import { coordsArrayToPositions } from "./coords-array";
+import { coordsToVector3 } from "./coords-to-vector-3";
+import { GeoPolyhedronDistanceResult, PointInPolyhedronResult, PolyhedronDistanceResult } from "./point-in-polyhedron";
+import { GeoTriangle } from "./polyhedral-surface";
+import { vector3ToCoords } from "./vector-3-to-coords";
+
+/**
+ * Options for {@link PolyhedronIndex}.
+ */
+export interface PolyhedronIndexOptions {
+  /**
+   * Geographic origin of the geometry, required by {@link PolyhedronIndex.containsCoords}.
+   * Set by {@link PolyhedronIndex.fromGeoTriangles}.
+   */
+  origin?: Coords;
+
+  /**
+   * Distance, in meters, within which a point is on the surface, and counts as inside.
+   * @defaultValue 0.001
+   */
+  boundaryTolerance?: number;
+
+  /**
+   * Number of rays that must agree on the result. Rays grazing an edge or a vertex
+   * abstain and are replaced by another direction.
+   * @defaultValue 3
+   */
+  rayCount?: number;
+}
+
+/** directions no mesh is likely to be aligned with */
+const RAY_DIRECTIONS = [
+  [1, 0.0001, 0.0001],
+  [0.2752, 0.8523, -0.4446],
+  [-0.6321, 0.1237, 0.7649],
+  [-0.3517, -0.7892, -0.5034],
+  [0.8271, -0.3312, 0.4541],
+  [-0.1089, 0.4387, -0.8921],
+  [0.5462, 0.6118, 0.5721],
+  [-0.7793, -0.2196, -0.5868],
+  [0.0517, -0.9311, 0.3612],
+].map(([x, y, z]) => new Vector3(x, y, z).normalize());
+
+const _point = new Vector3();
+const _closest = new Vector3();
+
+/**
+ * A closed polyhedron prepared for fast, repeated point-in-polyhedron tests.
+ *
+ * Building the index once puts the triangles in a bounding volume hierarchy, so each
+ * test costs O(log n) instead of O(n) for {@link isPointInPolyhedron}. Points outside the
+ * bounding box are rejected right away. Each test casts rays in several directions
+ * and takes the majority, skipping rays that graze an edge or a vertex, so a single
+ * unlucky ray can't flip the result.
+ *
+ * @example
+ * ```ts
+ * import { PolyhedronIndex } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const index = PolyhedronIndex.fromGeoTriangles(geofenceTriangles, origin);
+ *
+ * index.containsCoords({ latitude: 51.508, longitude: -0.127, altitude: 25 }).inside;
+ *
+ * // thousands of drones, as x, y, z triplets relative to the origin
+ * const inside = index.containsMany(dronePositions); // Uint8Array, 1 when inside
+ * ```
+ */
+export class PolyhedronIndex {
+  /** Geographic origin of the geometry, if known */
+  readonly origin?: Coords;
+  readonly boundaryTolerance: number;
+  readonly rayCount: number;
+
+  private bvh: TriangleBVH;
+  private bounds: Box3;
+
+  /**
+   * @param triangles - Triangle soup, 9 numbers (3 vertices) per triangle, in meters
+   * @param options - Origin, boundary tolerance and ray count
+   */
+  constructor(triangles: Float32Array, options?: PolyhedronIndexOptions) {
+    const { origin, boundaryTolerance = 1e-3, rayCount = 3 } = options ?? {};
+    if (rayCount < 1 || rayCount > RAY_DIRECTIONS.length) {
+      throw new Error(`rayCount must be between 1 and ${RAY_DIRECTIONS.length}, received ${rayCount}.`);
+    }
+    this.origin = origin;
+    this.boundaryTolerance = boundaryTolerance;
+    this.rayCount = rayCount;
+    this.bvh = new TriangleBVH(triangles);
+    this.bounds = this.bvh.boundingBox.clone().expandByScalar(boundaryTolerance);
+  }
+
+  /**
+   * Indexes a BufferGeometry, indexed or not.
+   *
+   * @throws Error if the geometry has no 3D position attribute, or incomplete triangles
+   */
+  static fromGeometry(geometry: BufferGeometry, options?: PolyhedronIndexOptions): PolyhedronIndex {
+    return new PolyhedronIndex(geometryToTriangles(geometry), options);
+  }
+
+  /**
+   * Indexes GeoTriangles, e.g. loaded from a database, in meters relative to `origin`.
+   */
+  static fromGeoTriangles(
+    triangles: GeoTriangle[],
+    origin: Coords,
+    options?: Omit<PolyhedronIndexOptions, 'origin'>
+  ): PolyhedronIndex {
+    const lngLatAlt = new Float64Array(triangles.length * 9);
+    triangles.forEach(({ v0, v1, v2 }, i) => {
+      [v0, v1, v2].forEach((v, j) => {
+        lngLatAlt[i * 9 + j * 3] = v.longitude;
+        lngLatAlt[i * 9 + j * 3 + 1] = v.latitude;
+        lngLatAlt[i * 9 + j * 3 + 2] = v.altitude;
+      });
+    });
+    return new PolyhedronIndex(coordsArrayToPositions(lngLatAlt, origin), { ...options, origin });
+  }
+
+  /** Number of indexed triangles */
+  get triangleCount(): number {
+    return this.bvh.triangleCount;
+  }
+
+  /** Bounding box of the polyhedron */
+  get boundingBox(): Box3 {
+    return this.bvh.boundingBox;
+  }
+
+  /**
+   * Tests whether a point, in meters relative to the origin, is inside the polyhedron.
+   */
+  contains(point: Vector3Tuple): PointInPolyhedronResult {
+    _point.set(point[0], point[1], point[2]);
+    return this.test(_point);
+  }
+
+  /**
+   * Tests whether geographic coordinates are inside the polyhedron.
+   *
+   * @throws Error if the index has no origin
+   */
+  containsCoords(coords: Coords): PointInPolyhedronResult {
+    return this.contains(coordsToVector3(coords, this.requireOrigin()));
+  }
+
+  /**
+   * Signed distance from a point, in meters relative to the origin, to the surface:
+   * negative inside, positive outside.
+   *
+   * @see {@link distanceToPolyhedron}
+   */
+  distanceTo(point: Vector3Tuple): PolyhedronDistanceResult {
+    _point.set(point[0], point[1], point[2]);
+    const triangleIndex = this.bvh.closestPoint(_point, _closest);
+    if (triangleIndex === -1) {
+      throw new Error("Cannot measure the distance to a polyhedron without triangles.");
+    }
+    const distance = _point.distanceTo(_closest);
+    const closestPoint = _closest.toArray();
+    const { inside } = this.test(_point);
+    return { distance: inside ? -distance : distance, closestPoint, triangleIndex, inside };
+  }
+
+  /**
+   * Signed distance from geographic coordinates to the surface.
+   *
+   * @throws Error if the index has no origin
+   * @see {@link distanceCoordsToPolyhedron}
+   */
+  distanceToCoords(coords: Coords): GeoPolyhedronDistanceResult {
+    const origin = this.requireOrigin();
+    const result = this.distanceTo(coordsToVector3(coords, origin));
+    return { ...result, closestCoords: vector3ToCoords(result.closestPoint, origin) };
+  }
+
+  /**
+   * Tests many points at once.
+   *
+   * @param points - x, y, z triplets in meters relative to the origin,
+   * see {@link coordsArrayToPositions} to convert coordinates
+   * @param target - Array to write the results into, one entry per point
+   * @returns `1` for points inside or on the surface, `0` otherwise
+   */
+  containsMany(points: ArrayLike<number>, target?: Uint8Array): Uint8Array {
+    if (points.length % 3 !== 0) {
+      throw new Error(`Points array length must be a multiple of 3, received ${points.length}.`);
+    }
+    const count = points.length / 3;
+    if (target && target.length !== count) {
+      throw new Error(`Target array must have one entry per point (${count}), received ${target.length}.`);
+    }
+    const result = target ?? new Uint8Array(count);
+    for (let i = 0; i < count; i++) {
+      _point.set(points[i * 3], points[i * 3 + 1], points[i * 3 + 2]);
+      result[i] = this.test(_point).inside ? 1 : 0;
+    }
+    return result;
+  }
+
+  private requireOrigin(): Coords {
+    if (!this.origin) {
+      throw new Error(
+        "PolyhedronIndex has no origin to convert coordinates. " +
+        "Pass `origin` when building it from a geometry."
+      );
+    }
+    return this.origin;
+  }
+
+  private test(point: Vector3): PointInPolyhedronResult {
+    if (!this.bounds.containsPoint(point)) {
+      return { inside: false, intersectionCount: 0, onBoundary: false };
+    }
+    if (this.bvh.closestPoint(point, _closest, this.boundaryTolerance) !== -1) {
+      return { inside: true, intersectionCount: 0, onBoundary: true };
+    }
+
+    const majority = Math.floor(this.rayCount / 2) + 1;
+    let insideVotes = 0;
+    let outsideVotes = 0;
+    let insideCount = 0;
+    let outsideCount = 0;
+    for (const direction of RAY_DIRECTIONS) {
+      let count = 0;
+      let grazing = false;
+      this.bvh.raycast(point, direction, (_, __, onEdge) => {
+        count++;
+        if (onEdge) grazing = true;
+      });
+      if (grazing) continue;
+
+      if (count % 2 === 1) {
+        insideVotes++;
+        insideCount = count;
+      } else {
+        outsideVotes++;
+        outsideCount = count;
+      }
+      if (insideVotes >= majority || outsideVotes >= majority) break;
+    }
+
+    const inside = insideVotes > outsideVotes;
+    return { inside, intersectionCount: inside ? insideCount : outsideCount, onBoundary: false };
+  }
+}
@@ -0,0 +1,371 @@
+import { BufferGeometry, Float32BufferAttribute, ShapeUtils, Vector2, Vector3 } from "three";
+import { buildPlaneBasis, MIN_AREA_TOLERANCE } from "../core/geo-triangulation";
+import { weldVertices } from "../core/weld-vertices";
+
+/**
+ * Options for {@link repairPolyhedronGeometry}.
+ */
+export interface PolyhedronRepairOptions {
+  /**
+   * Distance under which vertices are welded together.
+   * @defaultValue 1e-6
+   */
+  tolerance?: number;
+
+  /**
+   * Make the winding of adjacent faces consistent, with normals pointing outwards.
+   * @defaultValue true
+   */
+  fixWinding?: boolean;
+
+  /**
+   * Largest boundary hole, in edges, to close with new faces. `0` disables hole filling.
+   * @defaultValue 8
+   */
+  maxHoleEdges?: number;
+}
+
+/**
+ * What {@link repairPolyhedronGeometry} changed.
+ */
+export interface PolyhedronRepairReport {
+  /** Vertices merged into another vertex within tolerance */
+  weldedVertexCount: number;
+  /** Faces removed because they had no area once welded */
+  removedDegenerateFaceCount: number;
+  /** Faces removed because another face already used the same three vertices */
+  removedDuplicateFaceCount: number;
+  /** Faces whose winding was reversed */
+  flippedFaceCount: number;
+  /** Boundary holes closed with new faces */
+  filledHoleCount: number;
+  /** Faces added to close holes */
+  addedFaceCount: number;
+  /** Boundary holes left open, because they were too large or not a simple loop */
+  unfilledHoleCount: number;
+  /** Faces in the repaired geometry */
+  triangleCount: number;
+  /** Edges of the repaired geometry not shared by exactly two faces */
+  nonManifoldEdgeCount: number;
+  /** Whether every edge of the repaired geometry is shared by exactly two faces */
+  isWatertight: boolean;
+}
+
+/**
+ * Result of {@link repairPolyhedronGeometry}.
+ */
+export interface PolyhedronRepairResult {
+  /** Repaired, indexed geometry with vertex normals */
+  geometry: BufferGeometry;
+  report: PolyhedronRepairReport;
+}
+
+type Face = [number, number, number];
+
+function edgeKey(a: number, b: number): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`;
+}
+
+/** faces using each undirected edge */
+function buildEdgeFaces(faces: Face[]): Map<string, number[]> {
+  const edgeFaces = new Map<string, number[]>();
+  faces.forEach((face, f) => {
+    for (let i = 0; i < 3; i++) {
+      const key = edgeKey(face[i], face[(i + 1) % 3]);
+      const list = edgeFaces.get(key);
+      if (list) list.push(f);
+      else edgeFaces.set(key, [f]);
+    }
+  });
+  return edgeFaces;
+}
+
+function hasDirectedEdge(face: Face, from: number, to: number): boolean {
+  for (let i = 0; i < 3; i++) {
+    if (face[i] === from && face[(i + 1) % 3] === to) return true;
+  }
+  return false;
+}
+
+/**
+ * Repairs a BufferGeometry so it can be used as a closed volume, e.g. by
+ * {@link isPointInPolyhedron}. In order, it:
+ *
+ * - welds vertices closer than `tolerance`
+ * - removes faces left without area, and faces repeating the same three vertices
+ * - flips faces so adjacent faces wind the same way, with normals pointing outwards
+ * - closes boundary holes of up to `maxHoleEdges` edges
+ *
+ * Does not mutate the geometry. Run {@link validatePolyhedronGeometry} on the result,
+ * or check `report.isWatertight`, to know whether everything could be fixed.
+ *
+ * @param geometry - Geometry to repair, indexed or not
+ * @param options - Weld tolerance, winding and hole filling
+ * @returns The repaired geometry and a report of what changed
+ * @throws Error if BufferGeometry has no position attribute
+ *
+ * @example
+ * ```ts
+ * import { repairPolyhedronGeometry, wktToBufferGeometry } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const imported = wktToBufferGeometry(wkt, { origin });
+ * const { geometry, report } = repairPolyhedronGeometry(imported, { tolerance: 0.01 });
+ * if (!report.isWatertight) {
+ *   console.warn(`${report.unfilledHoleCount} holes could not be closed`);
+ * }
+ * ```
+ */
+export function repairPolyhedronGeometry(
+  geometry: BufferGeometry,
+  options?: PolyhedronRepairOptions
+): PolyhedronRepairResult {
+  const { tolerance = 1e-6, fixWinding = true, maxHoleEdges = 8 } = options ?? {};
+
+  const positionAttr = geometry.getAttribute("position");
+  if (!positionAttr) {
+    throw new Error(
+      "BufferGeometry must have a 'position' attribute. " +
+      "Ensure the geometry is properly initialized before repair."
+    );
+  }
+
+  const source: number[] = [];
+  for (let i = 0; i < positionAttr.count; i++) {
+    source.push(positionAttr.getX(i), positionAttr.getY(i), positionAttr.getZ(i));
+  }
+  const index = geometry.getIndex();
+  const corners = index ? Array.from(index.array) : Array.from({ length: positionAttr.count }, (_, i) => i);
+
+  const { welded: positions, remap } = weldVertices(source, tolerance);
+  const usedVertices = new Set(corners);
+
+  const a = new Vector3(), b = new Vector3(), c = new Vector3();
+  const vertex = (v: number, target: Vector3) => target.fromArray(positions, v * 3);
+
+  // degenerate and duplicate faces
+  let removedDegenerateFaceCount = 0;
+  let removedDuplicateFaceCount = 0;
+  const seen = new Set<string>();
+  let faces: Face[] = [];
+  for (let i = 0; i + 2 < corners.length; i += 3) {
+    const face: Face = [remap[corners[i]], remap[corners[i + 1]], remap[corners[i + 2]]];
+    vertex(face[0], a);
+    vertex(face[1], b);
+    vertex(face[2], c);
+    const degenerate = face[0] === face[1] || face[1] === face[2] || face[2] === face[0] ||
+      b.sub(a).cross(c.sub(a)).lengthSq() <= MIN_AREA_TOLERANCE;
+    if (degenerate) {
+      removedDegenerateFaceCount++;
+      continue;
+    }
+    const key = [...face].sort((x, y) => x - y).join("-");
+    if (seen.has(key)) {
+      removedDuplicateFaceCount++;
+      continue;
+    }
+    seen.add(key);
+    faces.push(face);
+  }
+
+  let flippedFaceCount = 0;
+  if (fixWinding) {
+    flippedFaceCount = orientFaces(faces, positions);
+  }
+
+  let filledHoleCount = 0;
+  let unfilledHoleCount = 0;
+  const addedFaces: Face[] = [];
+  for (const loop of findBoundaryLoops(faces)) {
+    const fill = loop && loop.length <= maxHoleEdges ? fillHole(loop, positions) : undefined;
+    if (fill) {
+      filledHoleCount++;
+      for (const face of fill) addedFaces.push(face);
+    } else {
+      unfilledHoleCount++;
+    }
+  }
+  faces = faces.concat(addedFaces);
+
+  const nonManifoldEdgeCount = Array.from(buildEdgeFaces(faces).values()).filter((f) => f.length !== 2).length;
+
+  // drop the vertices no face uses any more
+  const compact = new Map<number, number>();
+  const outPositions: number[] = [];
+  const outIndex: number[] = [];
+  for (const face of faces) {
+    for (const v of face) {
+      let id = compact.get(v);
+      if (id === undefined) {
+        id = compact.size;
+        compact.set(v, id);
+        outPositions.push(positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]);
+      }
+      outIndex.push(id);
+    }
+  }
+
+  const repaired = new BufferGeometry();
+  repaired.setAttribute("position", new Float32BufferAttribute(outPositions, 3));
+  repaired.setIndex(outIndex);
+  repaired.computeVertexNormals();
+
+  return {
+    geometry: repaired,
+    report: {
+      weldedVertexCount: usedVertices.size - new Set(Array.from(usedVertices, (v) => remap[v])).size,
+      removedDegenerateFaceCount,
+      removedDuplicateFaceCount,
+      flippedFaceCount,
+      filledHoleCount,
+      addedFaceCount: addedFaces.length,
+      unfilledHoleCount,
+      triangleCount: faces.length,
+      nonManifoldEdgeCount,
+      isWatertight: faces.length > 0 && nonManifoldEdgeCount === 0,
+    },
+  };
+}
+
+/**
+ * Flips faces in place so that faces sharing a manifold edge traverse it in
+ * opposite directions, then flips whole components enclosing a negative volume.
+ * Returns how many faces ended up flipped.
+ */
+function orientFaces(faces: Face[], positions: number[]): number {
+  const edgeFaces = buildEdgeFaces(faces);
+  const flipped = new Array<boolean>(faces.length).fill(false);
+  const component = new Array<number>(faces.length).fill(-1);
+  const flip = (f: number) => {
+    const face = faces[f];
+    [face[1], face[2]] = [face[2], face[1]];
+    flipped[f] = !flipped[f];
+  };
+
+  let components = 0;
+  for (let start = 0; start < faces.length; start++) {
+    if (component[start] !== -1) continue;
+    const id = components++;
+    component[start] = id;
+    const queue = [start];
+    while (queue.length > 0) {
+      const f = queue.pop() as number;
+      const face = faces[f];
+      for (let i = 0; i < 3; i++) {
+        const from = face[i], to = face[(i + 1) % 3];
+        const shared = edgeFaces.get(edgeKey(from, to)) as number[];
+        // a non-manifold edge gives no answer on which way the neighbors should wind
+        if (shared.length !== 2) continue;
+        const g = shared[0] === f ? shared[1] : shared[0];
+        if (component[g] !== -1) continue;
+        if (hasDirectedEdge(faces[g], from, to)) flip(g);
+        component[g] = id;
+        queue.push(g);
+      }
+    }
+  }
+
+  // signed volume of each component around its own centroid
+  const centroids = Array.from({ length: components }, () => ({ sum: new Vector3(), count: 0 }));
+  const p = new Vector3();
+  faces.forEach((face, f) => {
+    for (const v of face) {
+      centroids[component[f]].sum.add(p.fromArray(positions, v * 3));
+      centroids[component[f]].count++;
+    }
+  });
+  const volumes = new Array<number>(components).fill(0);
+  const magnitudes = new Array<number>(components).fill(0);
+  const a = new Vector3(), b = new Vector3(), c = new Vector3();
+  faces.forEach((face, f) => {
+    const { sum, count } = centroids[component[f]];
+    const centroid = p.copy(sum).divideScalar(count);
+    a.fromArray(positions, face[0] * 3).sub(centroid);
+    b.fromArray(positions, face[1] * 3).sub(centroid);
+    c.fromArray(positions, face[2] * 3).sub(centroid);
+    const volume = a.dot(b.cross(c));
+    volumes[component[f]] += volume;
+    magnitudes[component[f]] += Math.abs(volume);
+  });
+  faces.forEach((_, f) => {
+    // flat patches enclose nothing, leave them as they are
+    if (volumes[component[f]] < -1e-9 * magnitudes[component[f]]) flip(f);
+  });
+
+  return flipped.filter(Boolean).length;
+}
+
+/**
+ * Loops of boundary edges, each in the direction the faces closing it must wind.
+ * `undefined` for boundaries that don't form a simple loop.
+ */
+function findBoundaryLoops(faces: Face[]): (number[] | undefined)[] {
+  const edgeFaces = buildEdgeFaces(faces);
+  // a boundary edge a->b of a face is walked b->a by the face closing the hole
+  const next = new Map<number, number[]>();
+  for (const face of faces) {
+    for (let i = 0; i < 3; i++) {
+      const from = face[i], to = face[(i + 1) % 3];
+      if ((edgeFaces.get(edgeKey(from, to)) as number[]).length !== 1) continue;
+      const list = next.get(to);
+      if (list) list.push(from);
+      else next.set(to, [from]);
+    }
+  }
+
+  const loops: (number[] | undefined)[] = [];
+  const visited = new Set<number>();
+  for (const start of next.keys()) {
+    if (visited.has(start)) continue;
+    const loop: number[] = [];
+    let current: number | undefined = start;
+    let simple = true;
+    while (current !== undefined && !visited.has(current)) {
+      visited.add(current);
+      loop.push(current);
+      const targets: number[] = next.get(current) ?? [];
+      if (targets.length !== 1) simple = false;
+      current = targets[0];
+    }
+    loops.push(simple && current === start && loop.length >= 3 ? loop : undefined);
+  }
+  return loops;
+}
+
+/** triangulates a hole loop on its best fitting plane, keeping the loop direction */
+function fillHole(loop: number[], positions: number[]): Face[] | undefined {
+  if (loop.length === 3) return [[loop[0], loop[1], loop[2]]];
+
+  const points = loop.map((v) => new Vector3().fromArray(positions, v * 3));
+  // Newell normal: follows the loop direction, unlike the plane basis
+  const normal = new Vector3();
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    normal.x += (p.y - q.y) * (p.z + q.z);
+    normal.y += (p.z - q.z) * (p.x + q.x);
+    normal.z += (p.x - q.x) * (p.y + q.y);
+  });
+
+  let basis: ReturnType<typeof buildPlaneBasis>;
+  try {
+    basis = buildPlaneBasis(points);
+  } catch {
+    return undefined;
+  }
+  const { origin, u, v } = basis;
+  const contour = points.map((p) => {
+    const relative = p.clone().sub(origin);
+    return new Vector2(relative.dot(u), relative.dot(v));
+  });
+
+  const triangles = ShapeUtils.triangulateShape(contour, []);
+  if (triangles.length !== loop.length - 2) return undefined;
+
+  const ab = new Vector3(), ac = new Vector3();
+  return triangles.map(([i, j, k]) => {
+    ab.subVectors(points[j], points[i]);
+    ac.subVectors(points[k], points[i]);
+    return ab.cross(ac).dot(normal) >= 0
+      ? [loop[i], loop[j], loop[k]] as Face
+      : [loop[i], loop[k], loop[j]] as Face;
+  });
+}
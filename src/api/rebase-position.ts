@@ -0,0 +1,28 @@
+import { Vector3Tuple } from "three";
+import { Coords } from "./coords";
+import { CoordsConversionOptions } from "./coords-conversion";
+import { coordsToVector3 } from "./coords-to-vector-3";
+import { vector3ToCoords } from "./vector-3-to-coords";
+
+/**
+ * Re-projects a position from one origin to another, keeping its geographic coordinates.
+ *
+ * @param position - Position in meters relative to `from`
+ * @param from - The origin `position` is relative to
+ * @param to - The new origin
+ * @param options - Conversion options, such as the accuracy model
+ * @returns The same place, in meters relative to `to`
+ *
+ * @example
+ * ```ts
+ * mesh.position.fromArray(rebasePosition(mesh.position.toArray(), previousOrigin, origin));
+ * ```
+ */
+export function rebasePosition(
+  position: Vector3Tuple,
+  from: Coords,
+  to: Coords,
+  options?: CoordsConversionOptions
+): Vector3Tuple {
+  return coordsToVector3(vector3ToCoords(position, from, options), to, options);
+}
@@ -0,0 +1,177 @@
+import { Matrix4, Matrix4Tuple } from "three";
+
+/** One drag transaction, see {@link TransformHistory} */
+export interface TransformHistoryEntry {
+  /** id of the edited object */
+  id: string;
+  /** matrix when the drag started */
+  before: Matrix4Tuple;
+  /** matrix when the drag ended */
+  after: Matrix4Tuple;
+}
+
+/** JSON form of a {@link TransformHistory}, from {@link TransformHistory.toJSON} */
+export interface SerializedTransformHistory {
+  version: 1;
+  /** entries that can be undone, oldest first */
+  past: TransformHistoryEntry[];
+  /** entries that can be redone, next first */
+  future: TransformHistoryEntry[];
+}
+
+/** Options of {@link TransformHistory} */
+export interface TransformHistoryOptions {
+  /**
+   * Max amount of entries that can be undone, older ones are dropped.
+   * @defaultValue 100
+   */
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 100;
+
+const sameMatrix = (a: Matrix4Tuple, b: Matrix4Tuple) => a.every((v, i) => v === b[i]);
+
+/**
+ * Undo / redo stack of object transforms, recorded one drag at a time.
+ *
+ * Call {@link TransformHistory.begin} when a drag starts and {@link TransformHistory.end}
+ * when it ends: the whole drag becomes one entry. Entries are plain JSON, matrices are
+ * kept as `Matrix4Tuple`, so histories can be saved and restored.
+ *
+ * @example
+ * ```ts
+ * const history = new TransformHistory();
+ * history.begin('crane', crane.matrix);
+ * // ...drag...
+ * history.end(crane.matrix);
+ *
+ * const entry = history.undo();
+ * if (entry) objects[entry.id].matrix.fromArray(entry.before);
+ * ```
+ *
+ * @see {@link useTransformHistory} to use it with `EnhancedPivotControls`
+ */
+export class TransformHistory {
+  private past: TransformHistoryEntry[] = [];
+  private future: TransformHistoryEntry[] = [];
+  private pending?: { id: string; before: Matrix4Tuple };
+  private readonly limit: number;
+
+  constructor(options?: TransformHistoryOptions) {
+    this.limit = Math.max(1, options?.limit ?? DEFAULT_LIMIT);
+  }
+
+  /** whether {@link TransformHistory.undo} has something to undo */
+  get canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  /** whether {@link TransformHistory.redo} has something to redo */
+  get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  /** whether a drag started with {@link TransformHistory.begin} didn't end yet */
+  get isRecording(): boolean {
+    return !!this.pending;
+  }
+
+  /** starts a transaction for object `id`, from its current `matrix` */
+  begin(id: string, matrix: Matrix4 | Matrix4Tuple): void {
+    this.pending = { id, before: toTuple(matrix) };
+  }
+
+  /**
+   * Ends the transaction with the final `matrix` of the object, and records it.
+   * Clears what could be redone. Drags that didn't move anything are not recorded.
+   *
+   * @returns the recorded entry, if any
+   */
+  end(matrix: Matrix4 | Matrix4Tuple): TransformHistoryEntry | undefined {
+    const pending = this.pending;
+    this.pending = undefined;
+    if (!pending) return undefined;
+    const after = toTuple(matrix);
+    if (sameMatrix(pending.before, after)) return undefined;
+    const entry: TransformHistoryEntry = { ...pending, after };
+    this.past.push(entry);
+    if (this.past.length > this.limit) this.past.splice(0, this.past.length - this.limit);
+    this.future = [];
+    return entry;
+  }
+
+  /** drops the transaction started with {@link TransformHistory.begin} */
+  cancel(): void {
+    this.pending = undefined;
+  }
+
+  /**
+   * Steps back one entry. Apply its `before` matrix to the object with its `id`.
+   *
+   * @returns the undone entry, `undefined` when there is nothing to undo
+   */
+  undo(): TransformHistoryEntry | undefined {
+    const entry = this.past.pop();
+    if (entry) this.future.unshift(entry);
+    return entry;
+  }
+
+  /**
+   * Steps forward one entry. Apply its `after` matrix to the object with its `id`.
+   *
+   * @returns the redone entry, `undefined` when there is nothing to redo
+   */
+  redo(): TransformHistoryEntry | undefined {
+    const entry = this.future.shift();
+    if (entry) this.past.push(entry);
+    return entry;
+  }
+
+  /** forgets every entry */
+  clear(): void {
+    this.past = [];
+    this.future = [];
+    this.pending = undefined;
+  }
+
+  /** JSON form of the history, without the transaction in progress */
+  toJSON(): SerializedTransformHistory {
+    return {
+      version: 1,
+      past: this.past.map(cloneEntry),
+      future: this.future.map(cloneEntry),
+    };
+  }
+
+  /**
+   * Restores a history saved with {@link TransformHistory.toJSON}.
+   *
+   * @throws if `json` is not a serialized history
+   */
+  static fromJSON(json: SerializedTransformHistory, options?: TransformHistoryOptions): TransformHistory {
+    if (json?.version !== 1 || !Array.isArray(json.past) || !Array.isArray(json.future)) {
+      throw new Error('Invalid transform history: expected version 1 with past and future entries.');
+    }
+    [...json.past, ...json.future].forEach(assertEntry);
+    const history = new TransformHistory(options);
+    history.past = json.past.slice(-history.limit).map(cloneEntry);
+    history.future = json.future.map(cloneEntry);
+    return history;
+  }
+}
+
+function toTuple(matrix: Matrix4 | Matrix4Tuple): Matrix4Tuple {
+  return Array.isArray(matrix) ? [...matrix] as Matrix4Tuple : matrix.toArray();
+}
+
+function cloneEntry({ id, before, after }: TransformHistoryEntry): TransformHistoryEntry {
+  return { id, before: [...before] as Matrix4Tuple, after: [...after] as Matrix4Tuple };
+}
+
+function assertEntry(entry: TransformHistoryEntry) {
+  const isMatrix = (m: unknown) => Array.isArray(m) && m.length === 16 && m.every(Number.isFinite);
+  if (typeof entry?.id !== 'string' || !isMatrix(entry.before) || !isMatrix(entry.after)) {
+    throw new Error(`Invalid transform history entry: ${JSON.stringify(entry)}.`);
+  }
+}
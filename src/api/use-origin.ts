@@ -0,0 +1,68 @@
+import { useStore } from "@react-three/fiber";
+import { useEffect, useRef } from "react";
+import { Vector3Tuple } from "three";
+import { useCoords } from "../core/use-coords";
+import { Coords } from "./coords";
+import { CoordsConversionOptions } from "./coords-conversion";
+import { rebasePosition } from "./rebase-position";
+
+/**
+ * Event sent by {@link useOrigin} when the Canvas origin moves.
+ */
+export interface OriginChangeEvent {
+  /** The new origin */
+  origin: Coords;
+  /** The origin before the change */
+  previous: Coords;
+  /** Re-projects a position relative to `previous` to the new origin, see {@link rebasePosition} */
+  rebase(position: Vector3Tuple, options?: CoordsConversionOptions): Vector3Tuple;
+}
+
+const sameCoords = (a: Coords | undefined, b: Coords | undefined) =>
+  a?.longitude === b?.longitude && a?.latitude === b?.latitude && (a?.altitude || 0) === (b?.altitude || 0);
+
+/**
+ * React hook returning the origin of the enclosing {@link Canvas}, or {@link Coordinates} inside one.
+ *
+ * The origin moves when the Canvas `latitude`, `longitude` or `altitude` change, or with
+ * `autoRebase`. Positions computed from the old origin then point at the wrong place:
+ * `onChange` is called as soon as the origin moves, before the next frame renders, so
+ * positions kept outside of React, e.g. in refs, can be re-projected without a jump.
+ *
+ * @param onChange - Called with the new and previous origins when the origin moves
+ * @returns The current origin
+ *
+ * @example
+ * ```tsx
+ * function Vehicle({ track }: { track: Vector3Tuple[] }) {
+ *   const ref = useRef<Mesh>(null);
+ *   useOrigin(({ rebase }) => {
+ *     ref.current?.position.fromArray(rebase(ref.current.position.toArray()));
+ *   });
+ *   return <mesh ref={ref}><boxGeometry args={[4, 2, 2]} /></mesh>;
+ * }
+ * ```
+ */
+export function useOrigin(onChange?: (event: OriginChangeEvent) => void): Coords {
+  const origin = useCoords();
+  const store = useStore();
+
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    // listen to the store rather than re-renders, so nothing renders in between
+    return store.subscribe((state, prevState) => {
+      const origin = (state as unknown as { coords?: Coords }).coords;
+      const previous = (prevState as unknown as { coords?: Coords }).coords;
+      if (!origin || !previous || sameCoords(origin, previous) || !onChangeRef.current) return;
+      onChangeRef.current({
+        origin,
+        previous,
+        rebase: (position, options) => rebasePosition(position, previous, origin, options),
+      });
+    });
+  }, [store]);
+
+  return origin;
+}
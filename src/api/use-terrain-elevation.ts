@@ -0,0 +1,43 @@
+import { useCallback } from "react";
+import { getTerrainElevation, useTerrainRevision } from "../core/terrain-altitude";
+import { Coords } from "./coords";
+import { useMap } from "./use-map";
+
+/**
+ * Elevation of the map terrain at some coordinates, in meters above sea level,
+ * exaggeration included. `0` without terrain, or before its tiles load.
+ */
+export type TerrainElevationSampler = (coords: Coords) => number;
+
+/**
+ * React hook to sample the terrain of the map from within a react-three-map Canvas.
+ *
+ * The returned function changes whenever the terrain may have changed, terrain set or
+ * removed, or DEM tiles loaded, so use it as a dependency to sample again.
+ *
+ * @returns A function returning the terrain elevation at some coordinates
+ *
+ * @example
+ * ```tsx
+ * import { useTerrainElevation, drapeGeometryOnTerrain } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * // `origin` is the Canvas latitude, longitude and altitude
+ * function Road({ geometry, origin }) {
+ *   const elevation = useTerrainElevation();
+ *   // draped again as higher resolution terrain tiles load
+ *   const draped = useMemo(() => drapeGeometryOnTerrain(geometry, origin, elevation), [geometry, origin, elevation]);
+ *   return <mesh geometry={draped}><meshStandardMaterial color="red" /></mesh>;
+ * }
+ * ```
+ *
+ * @see {@link drapeGeometryOnTerrain} to put geometries on the terrain
+ * @see {@link CoordinatesProps.altitudeReference} to put a whole object on the terrain
+ */
+export function useTerrainElevation(): TerrainElevationSampler {
+  const map = useMap();
+  const revision = useTerrainRevision(map);
+  return useCallback(
+    (coords: Coords) => getTerrainElevation(map, coords),
+    [map, revision] // eslint-disable-line react-hooks/exhaustive-deps
+  );
+}
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from "react";
+import { Matrix4 } from "three";
+import {
+  SerializedTransformHistory, TransformHistory, TransformHistoryEntry, TransformHistoryOptions,
+} from "./transform-history";
+
+/** Drag callbacks of `EnhancedPivotControls`, see {@link TransformHistoryControls.bind} */
+export interface TransformHistoryHandlers {
+  onDragStart?: () => void;
+  onDrag?: (matrix: Matrix4) => void;
+  onDragEnd?: () => void;
+}
+
+/** Options of {@link useTransformHistory} */
+export interface UseTransformHistoryOptions extends TransformHistoryOptions {
+  /** Called on undo and redo with the matrix to restore on the object `id` */
+  onApply: (id: string, matrix: Matrix4) => void;
+  /**
+   * Undo with `Ctrl+Z` / `Cmd+Z`, redo with `Ctrl+Shift+Z`, `Cmd+Shift+Z` or `Ctrl+Y`.
+   * Shortcuts are ignored while typing in inputs.
+   * @defaultValue true
+   */
+  keyboard?: boolean;
+  /** History to start from, saved with {@link TransformHistoryControls.serialize} */
+  initial?: SerializedTransformHistory;
+}
+
+/** Returned by {@link useTransformHistory} */
+export interface TransformHistoryControls {
+  /** The underlying history */
+  history: TransformHistory;
+  /**
+   * Drag callbacks recording the drags of object `id`, to spread on `EnhancedPivotControls`.
+   * Your own `handlers` are called too.
+   */
+  bind(id: string, matrix: Matrix4, handlers?: TransformHistoryHandlers): Required<TransformHistoryHandlers>;
+  undo(): void;
+  redo(): void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** JSON form of the history, see {@link TransformHistory.toJSON} */
+  serialize(): SerializedTransformHistory;
+  /** Replaces the history with a serialized one */
+  load(json: SerializedTransformHistory): void;
+  clear(): void;
+}
+
+const isTyping = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * React hook recording the drags of `EnhancedPivotControls` for undo and redo.
+ *
+ * Each drag, from `onDragStart` to `onDragEnd`, is one entry. Undo and redo call
+ * `onApply` with the matrix to restore, set it on your object like `onDrag` would.
+ * One history can record several objects, told apart by their id.
+ *
+ * @param options - `onApply`, keyboard shortcuts, initial history and entry limit
+ * @returns The history, drag callbacks to bind to the controls, and undo / redo
+ *
+ * @example
+ * ```tsx
+ * function Editor() {
+ *   const [matrices, setMatrices] = useState<Record<string, Matrix4>>({ crane: new Matrix4() });
+ *   const setMatrix = useCallback((id: string, matrix: Matrix4) =>
+ *     setMatrices((prev) => ({ ...prev, [id]: matrix.clone() })), []);
+ *   const { bind } = useTransformHistory({ onApply: setMatrix });
+ *
+ *   return Object.entries(matrices).map(([id, matrix]) => (
+ *     <EnhancedPivotControls key={id} matrix={matrix} {...bind(id, matrix, { onDrag: (m) => setMatrix(id, m) })} />
+ *   ));
+ * }
+ * ```
+ */
+export function useTransformHistory(options: UseTransformHistoryOptions): TransformHistoryControls {
+  const { keyboard = true, initial, limit } = options;
+  const [history, setHistory] = useState(() =>
+    initial ? TransformHistory.fromJSON(initial, { limit }) : new TransformHistory({ limit })
+  );
+  // re-render when entries change
+  const [, changed] = useReducer((n: number) => n + 1, 0);
+
+  const onApplyRef = useRef(options.onApply);
+  onApplyRef.current = options.onApply;
+
+  /** last matrix sent by `onDrag`, per object */
+  const latest = useRef(new Map<string, Matrix4>());
+
+  const apply = useCallback((entry: TransformHistoryEntry | undefined, key: 'before' | 'after') => {
+    if (!entry) return;
+    onApplyRef.current(entry.id, new Matrix4().fromArray(entry[key]));
+    changed();
+  }, []);
+
+  const undo = useCallback(() => {
+    if (!history.isRecording) apply(history.undo(), 'before');
+  }, [history, apply]);
+
+  const redo = useCallback(() => {
+    if (!history.isRecording) apply(history.redo(), 'after');
+  }, [history, apply]);
+
+  const bind = useCallback((id: string, matrix: Matrix4, handlers?: TransformHistoryHandlers) => ({
+    onDragStart: () => {
+      history.begin(id, matrix);
+      latest.current.set(id, matrix);
+      handlers?.onDragStart?.();
+    },
+    onDrag: (m: Matrix4) => {
+      latest.current.set(id, m.clone());
+      handlers?.onDrag?.(m);
+    },
+    onDragEnd: () => {
+      if (history.end(latest.current.get(id) ?? matrix)) changed();
+      latest.current.delete(id);
+      handlers?.onDragEnd?.();
+    },
+  }), [history]);
+
+  const load = useCallback((json: SerializedTransformHistory) => {
+    setHistory(TransformHistory.fromJSON(json, { limit }));
+  }, [limit]);
+
+  const clear = useCallback(() => {
+    history.clear();
+    changed();
+  }, [history]);
+
+  useEffect(() => {
+    if (!keyboard) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTyping(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === 'y' && e.ctrlKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [keyboard, undo, redo]);
+
+  const { canUndo, canRedo } = history;
+  return useMemo(() => ({
+    history,
+    bind,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    serialize: () => history.toJSON(),
+    load,
+    clear,
+  }), [history, bind, undo, redo, load, clear, canUndo, canRedo]);
+}
@@ -1,11 +1,15 @@
 import { MathUtils, Vector3Tuple } from "three";
 import { Coords } from "./coords";
+import { CoordsConversionOptions } from "./coords-conversion";
 import { earthRadius } from "../core/earth-radius";
+import { getOriginFrame, originEnuFrame, originMercatorLatitude } from "../core/origin-frame";
+import { ecefToGeodetic, enuToEcef } from "../core/wgs84";
 
 /**
  * Converts a 3D position vector back to geographic coordinates.
  *
- * This is the inverse operation of {@link coordsToVector3}.
+ * This is the inverse operation of {@link coordsToVector3}. Using the same
+ * {@link CoordsConversionOptions.model | model} in both directions gives exact round trips.
  *
  * The input Vector3Tuple should represent a position in meters where:
  * - X axis points East (positive longitude direction)
@@ -14,12 +18,17 @@ import { earthRadius } from "../core/earth-radius";
  *
  * @param position - The 3D position as a Vector3Tuple [x, y, z] in meters
  * @param origin - The origin coordinates used as the reference point
+ * @param options - Conversion options, such as the accuracy model
  * @returns Geographic coordinates (latitude, longitude, altitude)
  *
  * @remarks
- * This function provides reasonable accuracy at city-level distances.
- * At country-level distances, the precision decreases due to Mercator projection
- * distortion not being fully accounted for in the reverse calculation.
+ * With the default `"mercator"` model the latitude comes from the inverse Mercator projection,
+ * so `vector3ToCoords(coordsToVector3(p, o), o)` returns `p`. For survey-grade accuracy
+ * over long distances use `{ model: 'wgs84-enu' }` in both directions.
+ *
+ * Before the `model` option, the inverse was always spherical and drifted from
+ * {@link coordsToVector3} far from the origin. Pass `{ model: 'spherical' }` to keep
+ * the previous results.
  *
  * @example
  * ```ts
@@ -37,15 +46,31 @@ import { earthRadius } from "../core/earth-radius";
  *   const newCoords = vector3ToCoords(newPosition, origin);
  *   console.log(`Moved to: ${newCoords.latitude}, ${newCoords.longitude}`);
  * };
+ *
+ * // Ellipsoidal round trip, exact to the millimetre
+ * const enu = coordsToVector3(coords, origin, { model: 'wgs84-enu' });
+ * vector3ToCoords(enu, origin, { model: 'wgs84-enu' });
  * ```
  *
  * @see {@link coordsToVector3} for the forward operation
  */
-export function vector3ToCoords(position: Vector3Tuple, origin: Coords): Coords {
+export function vector3ToCoords(position: Vector3Tuple, origin: Coords, options?: CoordsConversionOptions): Coords {
   const [x, y, z] = position;
-  const latitude = origin.latitude + (-z / earthRadius) * MathUtils.RAD2DEG;
-  const longitude = origin.longitude + (x / earthRadius) * MathUtils.RAD2DEG / Math.cos(origin.latitude * MathUtils.DEG2RAD);
-  const altitude = (origin.altitude || 0) + y;
+  const model = options?.model ?? 'mercator';
+
+  const frame = getOriginFrame(origin);
+
+  if (model === 'wgs84-enu') {
+    const ecef = enuToEcef(originEnuFrame(frame), x, y, z);
+    const [longitude, latitude, altitude] = ecefToGeodetic(ecef[0], ecef[1], ecef[2]);
+    return { latitude, longitude, altitude };
+  }
+
+  const latitude = model === 'spherical'
+    ? origin.latitude + (-z / earthRadius) * MathUtils.RAD2DEG
+    : originMercatorLatitude(frame, z);
+  const longitude = origin.longitude + (x / frame.metersPerRadianLon) * MathUtils.RAD2DEG;
+  const altitude = frame.altitude + y;
   const coords: Coords = { latitude, longitude, altitude };
   return coords;
 }
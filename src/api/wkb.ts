@@ -0,0 +1,369 @@
+import { BufferGeometry } from "three";
+import { Coords } from "./coords";
+import { geoTrianglesToGeometry, isFiniteNumber, openRing, triangulatePolygon } from "../core/geo-triangulation";
+import { extractGeoTriangles, GeoTriangle, GeoVertex } from "./polyhedral-surface";
+
+/**
+ * Surface geometry types written by {@link geoTrianglesToWKB}.
+ */
+export type WKBGeometryType = 'POLYHEDRALSURFACE' | 'TIN' | 'MULTIPOLYGON';
+
+/**
+ * Options for {@link geoTrianglesToWKB}.
+ */
+export interface GeoTrianglesToWKBOptions {
+  /**
+   * Geometry type of the output.
+   * @defaultValue "POLYHEDRALSURFACE"
+   */
+  type?: WKBGeometryType;
+
+  /**
+   * Write PostGIS EWKB with this SRID. Without it, ISO WKB is written.
+   */
+  srid?: number;
+
+  /**
+   * Byte order of the output, PostGIS writes little endian (NDR).
+   * @defaultValue true
+   */
+  littleEndian?: boolean;
+}
+
+/**
+ * Options for {@link bufferGeometryToWKB}.
+ */
+export interface BufferGeometryToWKBOptions extends GeoTrianglesToWKBOptions {
+  /**
+   * The origin coordinates used as reference for converting 3D positions to geo-coordinates.
+   * This should match the Canvas or scene origin.
+   */
+  origin: Coords;
+}
+
+/**
+ * Options for {@link wkbToBufferGeometry}.
+ */
+export interface WKBToBufferGeometryOptions {
+  /**
+   * The origin coordinates used as reference for converting geo-coordinates to 3D positions.
+   * This should match the Canvas or scene origin.
+   */
+  origin: Coords;
+}
+
+const WKB_POLYGON = 3;
+const WKB_MULTIPOLYGON = 6;
+const WKB_GEOMETRYCOLLECTION = 7;
+const WKB_POLYHEDRALSURFACE = 15;
+const WKB_TIN = 16;
+const WKB_TRIANGLE = 17;
+
+const EWKB_Z = 0x80000000;
+const EWKB_M = 0x40000000;
+const EWKB_SRID = 0x20000000;
+
+const TYPE_CODES: Record<WKBGeometryType, number> = {
+  POLYHEDRALSURFACE: WKB_POLYHEDRALSURFACE,
+  TIN: WKB_TIN,
+  MULTIPOLYGON: WKB_MULTIPOLYGON,
+};
+
+/** decode hex WKB, as returned by PostGIS for geometry columns */
+function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.trim().replace(/^\\x/i, "");
+  if (clean.length % 2 !== 0 || /[^0-9a-f]/i.test(clean)) {
+    throw new Error("Invalid hex WKB: expected an even number of hexadecimal digits.");
+  }
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+interface WKBHeader {
+  littleEndian: boolean;
+  type: number;
+  hasZ: boolean;
+  hasM: boolean;
+  srid?: number;
+}
+
+class WKBReader {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private assertAvailable(size: number) {
+    if (this.offset + size > this.view.byteLength) {
+      throw new Error(`Invalid WKB: unexpected end of data at byte ${this.offset}.`);
+    }
+  }
+
+  readHeader(): WKBHeader {
+    this.assertAvailable(5);
+    const order = this.view.getUint8(this.offset++);
+    if (order !== 0 && order !== 1) {
+      throw new Error(`Invalid WKB: unknown byte order ${order} at byte ${this.offset - 1}.`);
+    }
+    const littleEndian = order === 1;
+    const raw = this.readUint32(littleEndian);
+    // EWKB stores flags in the high bits, ISO WKB adds 1000 / 2000 / 3000 to the type
+    const iso = (raw & 0xffff) % 1000;
+    const isoDims = Math.floor((raw & 0xffff) / 1000);
+    const header: WKBHeader = {
+      littleEndian,
+      type: iso,
+      hasZ: (raw & EWKB_Z) !== 0 || isoDims === 1 || isoDims === 3,
+      hasM: (raw & EWKB_M) !== 0 || isoDims === 2 || isoDims === 3,
+    };
+    if (raw & EWKB_SRID) header.srid = this.readUint32(littleEndian);
+    return header;
+  }
+
+  readUint32(littleEndian: boolean): number {
+    this.assertAvailable(4);
+    const value = this.view.getUint32(this.offset, littleEndian);
+    this.offset += 4;
+    return value;
+  }
+
+  readVertex({ littleEndian, hasZ, hasM }: WKBHeader): GeoVertex {
+    const size = 2 + (hasZ ? 1 : 0) + (hasM ? 1 : 0);
+    this.assertAvailable(size * 8);
+    const values: number[] = [];
+    for (let i = 0; i < size; i++) {
+      values.push(this.view.getFloat64(this.offset, littleEndian));
+      this.offset += 8;
+    }
+    const vertex = { longitude: values[0], latitude: values[1], altitude: hasZ ? values[2] : 0 };
+    if (!isFiniteNumber(vertex.longitude) || !isFiniteNumber(vertex.latitude) || !isFiniteNumber(vertex.altitude)) {
+      throw new Error(`Invalid WKB: non-finite coordinate before byte ${this.offset}.`);
+    }
+    return vertex;
+  }
+
+  /** polygon body, after its header */
+  readPolygon(header: WKBHeader): GeoTriangle[] {
+    const ringCount = this.readUint32(header.littleEndian);
+    const rings: GeoVertex[][] = [];
+    for (let r = 0; r < ringCount; r++) {
+      const count = this.readUint32(header.littleEndian);
+      const ring: GeoVertex[] = [];
+      for (let i = 0; i < count; i++) ring.push(this.readVertex(header));
+      rings.push(ring);
+    }
+    if (rings.length === 0) return [];
+    return triangulatePolygon(rings.map(openRing));
+  }
+
+  /** any supported geometry, header included */
+  readGeometry(triangles: GeoTriangle[]): void {
+    const header = this.readHeader();
+    switch (header.type) {
+      case WKB_POLYGON:
+      case WKB_TRIANGLE:
+        triangles.push(...this.readPolygon(header));
+        break;
+      case WKB_MULTIPOLYGON:
+      case WKB_POLYHEDRALSURFACE:
+      case WKB_TIN:
+      case WKB_GEOMETRYCOLLECTION: {
+        const count = this.readUint32(header.littleEndian);
+        for (let i = 0; i < count; i++) this.readGeometry(triangles);
+        break;
+      }
+      default:
+        throw new Error(
+          `Unsupported WKB geometry type ${header.type}. ` +
+          "Expected a Polygon, MultiPolygon, PolyhedralSurface, TIN, Triangle or GeometryCollection of those."
+        );
+    }
+  }
+
+  assertEnd() {
+    if (this.offset !== this.view.byteLength) {
+      throw new Error(`Invalid WKB: ${this.view.byteLength - this.offset} unexpected trailing bytes.`);
+    }
+  }
+}
+
+/**
+ * Parses binary WKB or PostGIS EWKB surfaces into triangles.
+ *
+ * Accepts a `Uint8Array` or a hex string, as returned by PostGIS for geometry
+ * columns. Both byte orders, ISO WKB (`1000`/`2000`/`3000` type offsets) and EWKB
+ * (Z, M and SRID flags) are supported. Polygon, MultiPolygon, PolyhedralSurface,
+ * TIN and Triangle geometries, and GeometryCollections of them, are triangulated.
+ *
+ * Faces are degenerate when their area is too small in local meters, for every
+ * geometry type. `parseWKT` checks `POLYHEDRALSURFACE` faces on raw degrees instead,
+ * to accept the same faces it always did.
+ *
+ * @param wkb - The WKB bytes, or their hex encoding
+ * @returns An array of GeoTriangle objects
+ * @throws Error if the data is malformed or the geometry type is not supported
+ *
+ * @example
+ * ```ts
+ * import { parseWKB } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * // SELECT geom FROM geofences
+ * const triangles = parseWKB(row.geom);
+ * ```
+ *
+ * @see {@link geoTrianglesToWKB} for the inverse operation
+ */
+export function parseWKB(wkb: Uint8Array | string): GeoTriangle[] {
+  const reader = new WKBReader(typeof wkb === "string" ? hexToBytes(wkb) : wkb);
+  const triangles: GeoTriangle[] = [];
+  reader.readGeometry(triangles);
+  reader.assertEnd();
+  return triangles;
+}
+
+/**
+ * Reads the SRID of PostGIS EWKB.
+ *
+ * @param wkb - The WKB bytes, or their hex encoding
+ * @returns The SRID, or `undefined` for ISO WKB and EWKB without SRID
+ */
+export function getWKBSrid(wkb: Uint8Array | string): number | undefined {
+  return new WKBReader(typeof wkb === "string" ? hexToBytes(wkb) : wkb).readHeader().srid;
+}
+
+/**
+ * Serializes triangles into WKB, one polygon per triangle.
+ *
+ * Writes ISO WKB with Z by default, or PostGIS EWKB when `srid` is set.
+ *
+ * @param triangles - The triangles to serialize
+ * @param options - Geometry type, SRID and byte order
+ * @returns The WKB bytes
+ *
+ * @example
+ * ```ts
+ * import { geoTrianglesToWKB } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const ewkb = geoTrianglesToWKB(triangles, { type: 'TIN', srid: 4326 });
+ * // INSERT INTO geofences (geom) VALUES ($1) with ewkb as a bytea parameter
+ * ```
+ *
+ * @see {@link parseWKB} for the inverse operation
+ */
+export function geoTrianglesToWKB(triangles: GeoTriangle[], options?: GeoTrianglesToWKBOptions): Uint8Array {
+  const { type = 'POLYHEDRALSURFACE', srid, littleEndian = true } = options ?? {};
+  const ewkb = srid !== undefined;
+  const typeCode = (code: number) => ewkb ? (code | EWKB_Z) >>> 0 : code + 1000;
+  const partType = type === 'TIN' ? WKB_TRIANGLE : WKB_POLYGON;
+
+  // header + count, then per triangle: header + ring count + point count + 4 XYZ points
+  const partSize = 5 + 4 + 4 + 4 * 24;
+  const size = 5 + (ewkb ? 4 : 0) + 4 + triangles.length * partSize;
+  const view = new DataView(new ArrayBuffer(size));
+  let offset = 0;
+  const writeHeader = (code: number, withSrid: boolean) => {
+    view.setUint8(offset, littleEndian ? 1 : 0);
+    view.setUint32(offset + 1, withSrid ? (typeCode(code) | EWKB_SRID) >>> 0 : typeCode(code), littleEndian);
+    offset += 5;
+    if (withSrid) {
+      view.setUint32(offset, srid as number, littleEndian);
+      offset += 4;
+    }
+  };
+  const writeUint32 = (value: number) => {
+    view.setUint32(offset, value, littleEndian);
+    offset += 4;
+  };
+  const writeVertex = (v: GeoVertex) => {
+    view.setFloat64(offset, v.longitude, littleEndian);
+    view.setFloat64(offset + 8, v.latitude, littleEndian);
+    view.setFloat64(offset + 16, v.altitude, littleEndian);
+    offset += 24;
+  };
+
+  writeHeader(TYPE_CODES[type], ewkb);
+  writeUint32(triangles.length);
+  for (const tri of triangles) {
+    writeHeader(partType, false);
+    writeUint32(1);
+    writeUint32(4);
+    writeVertex(tri.v0);
+    writeVertex(tri.v1);
+    writeVertex(tri.v2);
+    writeVertex(tri.v0);
+  }
+  return new Uint8Array(view.buffer);
+}
+
+/**
+ * Serializes triangles into hex encoded WKB, see {@link geoTrianglesToWKB}.
+ *
+ * @param triangles - The triangles to serialize
+ * @param options - Geometry type, SRID and byte order
+ * @returns Upper case hex string, as accepted by PostGIS `ST_GeomFromEWKB(decode(hex, 'hex'))`
+ */
+export function geoTrianglesToHexWKB(triangles: GeoTriangle[], options?: GeoTrianglesToWKBOptions): string {
+  const bytes = geoTrianglesToWKB(triangles, options);
+  let hex = "";
+  for (let i = 0; i < bytes.length; i++) hex += bytes[i].toString(16).padStart(2, "0");
+  return hex.toUpperCase();
+}
+
+/**
+ * Parses WKB or EWKB surfaces and converts them to a BufferGeometry.
+ *
+ * @param wkb - The WKB bytes, or their hex encoding
+ * @param options - Conversion options including the geographic origin
+ * @returns A non-indexed BufferGeometry with normals
+ * @throws Error if the WKB is invalid or contains no faces
+ *
+ * @example
+ * ```ts
+ * import { wkbToBufferGeometry } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const geometry = wkbToBufferGeometry(row.geom, { origin });
+ * ```
+ *
+ * @see {@link bufferGeometryToWKB} for the inverse operation
+ */
+export function wkbToBufferGeometry(wkb: Uint8Array | string, options: WKBToBufferGeometryOptions): BufferGeometry {
+  const triangles = parseWKB(wkb);
+  if (triangles.length === 0) {
+    throw new Error("WKB contains no faces to convert (geometry is EMPTY or has no valid polygons).");
+  }
+  return geoTrianglesToGeometry(triangles, options.origin);
+}
+
+/**
+ * Converts a BufferGeometry to WKB or EWKB.
+ *
+ * @param geometry - The Three.js BufferGeometry to convert
+ * @param options - Conversion options including the geographic origin
+ * @returns The WKB bytes
+ * @throws Error if BufferGeometry has no position attribute or no triangular faces
+ *
+ * @example
+ * ```ts
+ * import { bufferGeometryToWKB } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const ewkb = bufferGeometryToWKB(geometry, { origin, srid: 4326 });
+ * ```
+ *
+ * @see {@link wkbToBufferGeometry} for the inverse operation
+ */
+export function bufferGeometryToWKB(geometry: BufferGeometry, options: BufferGeometryToWKBOptions): Uint8Array {
+  const { origin, ...wkbOptions } = options;
+  const triangles = extractGeoTriangles(geometry, origin);
+  if (triangles.length === 0) {
+    throw new Error(
+      "BufferGeometry has no triangular faces to convert. " +
+      "The geometry must contain indexed triangles or non-indexed vertex triplets."
+    );
+  }
+  return geoTrianglesToWKB(triangles, wkbOptions);
+}
@@ -0,0 +1,395 @@
+import { degreesProjection, isFiniteNumber, openRing, triangulatePolygon } from "../core/geo-triangulation";
+import type { GeoTriangle, GeoVertex } from "./polyhedral-surface";
+import type { WKTGeometryType } from "./wkt";
+
+/** Where, in the whole WKT input, something was read */
+export interface WKTPosition {
+  /** Character offset from the start of the input, counting every chunk written so far */
+  offset: number;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+/**
+ * Thrown by {@link WKTStreamParser}, {@link parseWKTStream} and {@link parseWKT}
+ * when the WKT is malformed, carrying where the failure happened.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   parseWKT(wkt);
+ * } catch (error) {
+ *   if (error instanceof WKTParseError) {
+ *     highlight(error.line, error.column);
+ *     console.log(`face ${error.polygonIndex}, ring ${error.ringIndex}`);
+ *   }
+ * }
+ * ```
+ */
+export class WKTParseError extends Error implements WKTPosition {
+  readonly offset: number;
+  readonly line: number;
+  readonly column: number;
+  /** Index of the polygon (face) being read, `undefined` outside of any polygon */
+  readonly polygonIndex?: number;
+  /** Index of the ring within the polygon, `0` being the outline, `undefined` outside of any ring */
+  readonly ringIndex?: number;
+
+  constructor(message: string, position: WKTPosition, polygonIndex?: number, ringIndex?: number) {
+    super(`${message} (offset ${position.offset}, line ${position.line}, column ${position.column})`);
+    this.name = "WKTParseError";
+    this.offset = position.offset;
+    this.line = position.line;
+    this.column = position.column;
+    this.polygonIndex = polygonIndex;
+    this.ringIndex = ringIndex;
+  }
+}
+
+/** Chunks accepted by {@link parseWKTStream}, e.g. a `fetch` body or a Node.js file stream */
+export type WKTChunkSource =
+  | AsyncIterable<string | Uint8Array>
+  | Iterable<string | Uint8Array>
+  | ReadableStream<string | Uint8Array>;
+
+export const WKT_TYPES: WKTGeometryType[] = ['POLYHEDRALSURFACE', 'TIN', 'MULTIPOLYGON', 'POLYGON', 'TRIANGLE'];
+
+type HeaderState = 'start' | 'srid' | 'type' | 'dimension' | 'body' | 'empty' | 'done';
+type Token = '(' | ')' | ',' | ';' | string;
+
+const SEPARATORS = new Set(['(', ')', ',', ';']);
+
+/**
+ * Incremental WKT surface parser: write the WKT in chunks of any size and
+ * get the triangles of every polygon as soon as it is closed.
+ *
+ * Accepts the same input as {@link parseWKT}, without ever holding more than the
+ * polygon being read, so multi-megabyte surfaces can be imported while they download.
+ * Failures throw a {@link WKTParseError} pointing at the offending character.
+ *
+ * @example
+ * ```ts
+ * import { WKTStreamParser } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const parser = new WKTStreamParser();
+ * const triangles = [];
+ * for (const chunk of chunks) {
+ *   triangles.push(...parser.write(chunk));
+ * }
+ * parser.end();
+ * ```
+ *
+ * @see {@link parseWKTStream} to read from an async iterable
+ */
+export class WKTStreamParser {
+  private state: HeaderState = 'start';
+  private _type?: WKTGeometryType;
+  private _srid?: number;
+  private dimension = "";
+
+  /** position of the next character */
+  private position: WKTPosition = { offset: 0, line: 1, column: 1 };
+  /** word being read, possibly split across chunks */
+  private word = "";
+  private wordStart: WKTPosition = this.position;
+
+  private depth = 0;
+  private ringDepth = 0;
+  private last: Token = "";
+
+  private polygonIndex = 0;
+  private polygonStart: WKTPosition = this.position;
+  private rings: GeoVertex[][] = [];
+
+  private ringIndex = 0;
+  private ringStart: WKTPosition = this.position;
+  private ring: GeoVertex[] = [];
+
+  private coordinate: number[] = [];
+  private coordinateText: string[] = [];
+  private coordinateStart: WKTPosition = this.position;
+
+  private triangles: GeoTriangle[] = [];
+
+  /** Geometry type, once the header has been read */
+  get type(): WKTGeometryType | undefined {
+    return this._type;
+  }
+
+  /** SRID of an EWKT `SRID=<srid>;` prefix, if any */
+  get srid(): number | undefined {
+    return this._srid;
+  }
+
+  /**
+   * Parses the next chunk of WKT.
+   *
+   * @param chunk - Any slice of the input, it may split numbers or keywords
+   * @returns The triangles of the polygons closed within this chunk
+   * @throws WKTParseError if the WKT read so far is malformed
+   */
+  write(chunk: string): GeoTriangle[] {
+    this.triangles = [];
+    const position = this.position;
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+      if (SEPARATORS.has(char) || /\s/.test(char)) {
+        this.flushWord();
+        if (SEPARATORS.has(char)) this.token(char, { ...position });
+      } else {
+        if (!this.word) this.wordStart = { ...position };
+        this.word += char;
+      }
+      position.offset++;
+      if (char === "\n") {
+        position.line++;
+        position.column = 1;
+      } else {
+        position.column++;
+      }
+    }
+    return this.triangles;
+  }
+
+  /**
+   * Signals the end of the input.
+   *
+   * @throws WKTParseError if the input is empty or incomplete
+   */
+  end(): void {
+    this.triangles = [];
+    this.flushWord();
+    switch (this.state) {
+      case 'start':
+        throw new WKTParseError("Invalid WKT: empty string.", this.position);
+      case 'srid':
+      case 'type':
+        throw new WKTParseError(this.unsupportedType("end of input"), this.position);
+      case 'dimension':
+        this.fail(`expected "(" or EMPTY but found end of input.`, this.position);
+        break;
+      case 'body':
+        this.fail(`expected ")" but found end of input.`, this.position);
+    }
+  }
+
+  private flushWord() {
+    if (!this.word) return;
+    const word = this.word;
+    this.word = "";
+    this.token(word, this.wordStart);
+  }
+
+  private unsupportedType(received: string) {
+    return `Invalid WKT format: expected one of ${WKT_TYPES.join(", ")}. Received: ${received}`;
+  }
+
+  /** throws with the polygon and ring being read */
+  private fail(message: string, at: WKTPosition): never {
+    const polygonIndex = this.depth >= this.ringDepth - 1 && this.depth > 0 ? this.polygonIndex : undefined;
+    const ringIndex = this.depth >= this.ringDepth && this.depth > 0 ? this.ringIndex : undefined;
+    throw new WKTParseError(`Invalid WKT: ${message}`, at, polygonIndex, ringIndex);
+  }
+
+  private token(token: Token, at: WKTPosition) {
+    switch (this.state) {
+      case 'start':
+        if (/^SRID=\d+$/i.test(token)) {
+          this._srid = Number(token.substring(5));
+          this.state = 'srid';
+          return;
+        }
+        return this.readType(token, at);
+      case 'srid':
+        if (token !== ";") this.fail(`expected ";" after the SRID but found "${token}".`, at);
+        this.state = 'type';
+        return;
+      case 'type':
+        return this.readType(token, at);
+      case 'dimension': {
+        const upper = token.toUpperCase();
+        if (!this.dimension && (upper === "Z" || upper === "M" || upper === "ZM")) {
+          this.dimension = upper;
+          return;
+        }
+        if (upper === "EMPTY") {
+          this.state = 'empty';
+          return;
+        }
+        if (token !== "(") this.fail(`expected "(" or EMPTY but found "${token}".`, at);
+        this.state = 'body';
+        return this.readBody(token, at);
+      }
+      case 'body':
+        return this.readBody(token, at);
+      case 'empty':
+      case 'done':
+        this.fail(`unexpected "${token}".`, at);
+    }
+  }
+
+  private readType(token: Token, at: WKTPosition) {
+    const type = token.toUpperCase() as WKTGeometryType;
+    if (!WKT_TYPES.includes(type)) {
+      throw new WKTParseError(this.unsupportedType(`"${token}"`), at);
+    }
+    this._type = type;
+    this.ringDepth = type === 'POLYGON' || type === 'TRIANGLE' ? 2 : 3;
+    this.state = 'dimension';
+  }
+
+  private readBody(token: Token, at: WKTPosition) {
+    const polygonDepth = this.ringDepth - 1;
+    const last = this.last;
+    this.last = token;
+
+    if (token === "(") {
+      if (last !== "(" && last !== "," && last !== "") this.fail(`expected "," or ")" but found "(".`, at);
+      if (this.depth === this.ringDepth) this.fail(`expected a coordinate but found "(".`, at);
+      this.depth++;
+      if (this.depth === polygonDepth) {
+        this.polygonStart = at;
+        this.rings = [];
+        this.ringIndex = 0;
+      } else if (this.depth === this.ringDepth) {
+        this.ringStart = at;
+        this.ring = [];
+        this.coordinateText = [];
+      }
+      return;
+    }
+
+    if (token === ",") {
+      if (last === "(" || last === ",") this.fail(`unexpected ",".`, at);
+      if (this.depth === this.ringDepth) this.closeCoordinate();
+      return;
+    }
+
+    if (token === ")") {
+      if (last === ",") this.fail(`unexpected ")".`, at);
+      if (this.depth === this.ringDepth) {
+        if (last !== "(") this.closeCoordinate();
+        this.closeRing();
+      } else if (this.depth === polygonDepth) {
+        this.closePolygon();
+      }
+      this.depth--;
+      if (this.depth === 0) this.state = 'done';
+      return;
+    }
+
+    if (token === ";") this.fail(`unexpected ";".`, at);
+
+    // a number, only valid within a ring
+    if (this.depth < this.ringDepth) {
+      this.fail(
+        this.depth === polygonDepth
+          ? "expected a polygon as a list of rings."
+          : `expected ${this._type} to contain a list of polygons.`,
+        at
+      );
+    }
+    if (last === ")") this.fail(`expected "," or ")" but found "${token}".`, at);
+    const value = Number(token);
+    if (!isFiniteNumber(value)) {
+      this.fail(
+        `Invalid numeric value in WKT coordinate: "${token}". ` +
+        "Longitude, latitude, and altitude must be finite numbers.",
+        at
+      );
+    }
+    if (this.coordinateText.length === 0) this.coordinateStart = at;
+    this.coordinate.push(value);
+    this.coordinateText.push(token);
+  }
+
+  private closeCoordinate() {
+    const values = this.coordinate;
+    if (values.length < 2) {
+      this.fail(
+        `expected "longitude latitude [altitude]" but got "${this.coordinateText.join(" ")}".`,
+        this.coordinateStart
+      );
+    }
+    // an M-only geometry stores the measure in the third value
+    const altitude = this.dimension === "M" ? 0 : values[2] ?? 0;
+    this.ring.push({ longitude: values[0], latitude: values[1], altitude });
+    this.coordinate = [];
+    this.coordinateText = [];
+  }
+
+  private closeRing() {
+    try {
+      this.rings.push(openRing(this.ring));
+    } catch (error) {
+      this.fail((error as Error).message, this.ringStart);
+    }
+    this.ring = [];
+    this.ringIndex++;
+  }
+
+  private closePolygon() {
+    if (this.rings.length > 0) {
+      let triangles: GeoTriangle[] = [];
+      try {
+        // POLYHEDRALSURFACE keeps the degenerate face checks it always had
+        const project = this._type === 'POLYHEDRALSURFACE' ? degreesProjection : undefined;
+        triangles = triangulatePolygon(this.rings, project);
+      } catch (error) {
+        this.fail((error as Error).message, this.polygonStart);
+      }
+      for (const triangle of triangles) this.triangles.push(triangle);
+    }
+    this.rings = [];
+    this.polygonIndex++;
+  }
+}
+
+async function* readChunks(source: WKTChunkSource): AsyncGenerator<string | Uint8Array> {
+  if ('getReader' in source) {
+    const reader = source.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+  for await (const chunk of source) yield chunk;
+}
+
+/**
+ * Parses WKT surfaces from a stream of chunks, yielding triangles as each polygon is read.
+ *
+ * @param source - Strings or UTF-8 bytes, as an iterable, async iterable or `ReadableStream`
+ * @returns An async iterable of the triangles, in order
+ * @throws WKTParseError if the WKT is malformed, with where it failed
+ *
+ * @example
+ * ```ts
+ * import { parseWKTStream } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const response = await fetch('/surfaces/building.wkt');
+ * const triangles = [];
+ * for await (const triangle of parseWKTStream(response.body!)) {
+ *   triangles.push(triangle);
+ * }
+ * ```
+ *
+ * @see {@link WKTStreamParser} to push chunks manually
+ */
+export async function* parseWKTStream(source: WKTChunkSource): AsyncGenerator<GeoTriangle> {
+  const parser = new WKTStreamParser();
+  const decoder = new TextDecoder();
+  for await (const chunk of readChunks(source)) {
+    const text = typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+    for (const triangle of parser.write(text)) yield triangle;
+  }
+  for (const triangle of parser.write(decoder.decode())) yield triangle;
+  parser.end();
+}
@@ -0,0 +1,126 @@
+import type { GeoTriangle, GeoVertex } from "./polyhedral-surface";
+import { WKTStreamParser } from "./wkt-stream";
+
+/**
+ * Surface geometry types supported by {@link parseWKT} and {@link geoTrianglesToWKT}.
+ *
+ * - `POLYHEDRALSURFACE`: one polygon per face, what PostGIS uses for closed volumes.
+ * - `TIN`: triangulated irregular network, one triangle per face.
+ * - `MULTIPOLYGON`: one polygon per face, readable by any GIS tool.
+ * - `POLYGON`: a single face, with optional holes.
+ * - `TRIANGLE`: a single triangle (read only).
+ */
+export type WKTGeometryType = 'POLYHEDRALSURFACE' | 'TIN' | 'MULTIPOLYGON' | 'POLYGON' | 'TRIANGLE';
+
+/**
+ * Options for {@link geoTrianglesToWKT}.
+ */
+export interface GeoTrianglesToWKTOptions {
+  /**
+   * Geometry type of the output.
+   * `POLYGON` only accepts a single triangle.
+   * @defaultValue "POLYHEDRALSURFACE"
+   */
+  type?: Exclude<WKTGeometryType, 'TRIANGLE'>;
+
+  /**
+   * Number of decimal places for coordinates in the WKT output.
+   * @defaultValue 8
+   */
+  precision?: number;
+
+  /** Prefix the output with `SRID=<srid>;`, producing PostGIS EWKT */
+  srid?: number;
+}
+
+/**
+ * Parses surface WKT or PostGIS EWKT into triangles.
+ *
+ * Supports `POLYHEDRALSURFACE`, `TIN`, `MULTIPOLYGON`, `POLYGON` and `TRIANGLE`,
+ * in 2D, `Z`, `M` or `ZM`, optionally prefixed with `SRID=<srid>;`. Polygons with
+ * holes and faces with more than 3 vertices are triangulated. Missing altitudes
+ * are read as `0` and measures are ignored.
+ *
+ * Faces are degenerate when their area is too small in local meters, except
+ * `POLYHEDRALSURFACE` faces, which keep their original check on raw degrees:
+ * this parser read them before the other types, and accepts and rejects the same
+ * faces as it always did. A face only a few meters wide can be rejected there,
+ * when `parseWKB` and `geoJSONToGeoTriangles` accept it.
+ *
+ * @param wkt - The WKT string to parse
+ * @returns An array of GeoTriangle objects, empty for `EMPTY` geometries
+ * @throws WKTParseError if the geometry type is not supported
+ * @throws WKTParseError if the WKT is malformed, a ring is not closed or a face is degenerate,
+ * with the offset, polygon and ring where it failed
+ *
+ * @example
+ * ```ts
+ * import { parseWKT } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const triangles = parseWKT('TIN Z (((0 0 0, 0 1 0, 1 0 0, 0 0 0)))');
+ * const faces = parseWKT('SRID=4326;MULTIPOLYGON Z (((0 0 0, 1 0 0, 1 1 0, 0 1 0, 0 0 0)))');
+ * ```
+ *
+ * @see {@link geoTrianglesToWKT} for the inverse operation
+ * @see {@link parseWKTStream} for large inputs
+ */
+export function parseWKT(wkt: string): GeoTriangle[] {
+  const parser = new WKTStreamParser();
+  const triangles = parser.write(wkt);
+  parser.end();
+  return triangles;
+}
+
+/**
+ * Serializes triangles into surface WKT, one polygon per triangle.
+ *
+ * @param triangles - The triangles to serialize
+ * @param options - Geometry type, precision and SRID
+ * @returns WKT, or EWKT when `srid` is set
+ * @throws Error if `type` is `POLYGON` and there is more than one triangle
+ *
+ * @example
+ * ```ts
+ * import { geoTrianglesToWKT } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * const tin = geoTrianglesToWKT(triangles, { type: 'TIN' });
+ * // TIN Z (((lng lat alt, lng lat alt, lng lat alt, lng lat alt)), ...)
+ * const ewkt = geoTrianglesToWKT(triangles, { type: 'MULTIPOLYGON', srid: 4326 });
+ * ```
+ *
+ * @see {@link parseWKT} for the inverse operation
+ */
+export function geoTrianglesToWKT(triangles: GeoTriangle[], options?: GeoTrianglesToWKTOptions): string {
+  const { type = 'POLYHEDRALSURFACE', precision = 8, srid } = options ?? {};
+  const prefix = srid !== undefined ? `SRID=${srid};` : "";
+
+  if (triangles.length === 0) {
+    return `${prefix}${type} Z EMPTY`;
+  }
+  if (type === 'POLYGON' && triangles.length > 1) {
+    throw new Error(
+      `POLYGON Z can only hold a single face, received ${triangles.length} triangles. ` +
+      "Use MULTIPOLYGON, TIN or POLYHEDRALSURFACE instead."
+    );
+  }
+
+  const formatCoord = (v: GeoVertex): string => {
+    const lng = v.longitude.toFixed(precision);
+    const lat = v.latitude.toFixed(precision);
+    const alt = v.altitude.toFixed(precision);
+    return `${lng} ${lat} ${alt}`;
+  };
+
+  const polygons = triangles.map((tri) => {
+    // Close the polygon by repeating the first vertex
+    const c0 = formatCoord(tri.v0);
+    const c1 = formatCoord(tri.v1);
+    const c2 = formatCoord(tri.v2);
+    return `((${c0}, ${c1}, ${c2}, ${c0}))`;
+  });
+
+  if (type === 'POLYGON') {
+    return `${prefix}POLYGON Z ${polygons[0]}`;
+  }
+  return `${prefix}${type} Z (${polygons.join(", ")})`;
+}
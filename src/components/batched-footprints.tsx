@@ -0,0 +1,250 @@
+/**
+ * @packageDocumentation
+ * Thousands of extruded building footprints merged into a single draw call.
+ */
+import { useEffect, useLayoutEffect, useMemo, useRef } from 'react'
+import { ThreeEvent } from '@react-three/fiber'
+import { BatchedMesh, Color, ColorRepresentation } from 'three'
+import { Coords } from '../api/coords'
+import { ExtrudeFootprintOptions } from '../api/extrude-footprint'
+import { BatchedStandardMaterial } from '../core/batched-standard-material'
+import { extrudeFootprints } from '../core/extrude-footprints'
+import { useCoords } from '../core/use-coords'
+
+/**
+ * A building footprint rendered by {@link BatchedFootprints}.
+ */
+export interface BatchedFootprint extends ExtrudeFootprintOptions {
+  /** Unique id, reported back on pointer events */
+  id: string | number
+  /** Footprint outline */
+  ring: Coords[]
+  /** Footprint holes, e.g. courtyards */
+  holes?: Coords[][]
+}
+
+/** A style value, either fixed or computed per footprint */
+export type BatchedFootprintStyle<T> = T | ((footprint: BatchedFootprint) => T)
+
+/**
+ * A React Three Fiber pointer event with the footprint that was hit.
+ */
+export type BatchedFootprintsEvent = ThreeEvent<PointerEvent> & {
+  /** The footprint the intersected batch instance was built from */
+  footprint: BatchedFootprint
+}
+
+/**
+ * Props for the BatchedFootprints component.
+ *
+ * @example
+ * ```tsx
+ * <BatchedFootprints
+ *   footprints={footprints}
+ *   color={(f) => f.height > 50 ? '#f38630' : '#e0e4cc'}
+ *   highlighted={hovered}
+ *   onPointerMove={(e) => setHovered(e.footprint.id)}
+ * />
+ * ```
+ */
+export interface BatchedFootprintsProps {
+  /** The footprints to extrude. Changing this rebuilds the batch. */
+  footprints: BatchedFootprint[]
+
+  /**
+   * Diffuse color.
+   * @defaultValue "#ffffff"
+   */
+  color?: BatchedFootprintStyle<ColorRepresentation>
+
+  /**
+   * Roughness, from 0 to 1.
+   * @defaultValue 1
+   */
+  roughness?: BatchedFootprintStyle<number>
+
+  /**
+   * Metalness, from 0 to 1.
+   * @defaultValue 0
+   */
+  metalness?: BatchedFootprintStyle<number>
+
+  /**
+   * Whether each footprint is rendered and pickable.
+   * @defaultValue true
+   */
+  visible?: BatchedFootprintStyle<boolean>
+
+  /** Id, or ids, of the footprints to highlight */
+  highlighted?: string | number | (string | number)[]
+
+  /**
+   * Emissive color added to highlighted footprints.
+   * @defaultValue "#888888"
+   */
+  highlightColor?: ColorRepresentation
+
+  /**
+   * Called for each footprint that can't be extruded, like outlines with fewer than
+   * 3 coordinates or heights not above `minHeight`. Those footprints are skipped.
+   * Without it, skipped footprints are reported with a single `console.warn`.
+   */
+  onInvalidFootprint?: (footprint: BatchedFootprint, error: Error) => void
+
+  onClick?: (event: BatchedFootprintsEvent) => void
+  onDoubleClick?: (event: BatchedFootprintsEvent) => void
+  onPointerDown?: (event: BatchedFootprintsEvent) => void
+  onPointerUp?: (event: BatchedFootprintsEvent) => void
+  onPointerMove?: (event: BatchedFootprintsEvent) => void
+  onPointerOver?: (event: BatchedFootprintsEvent) => void
+  onPointerOut?: (event: BatchedFootprintsEvent) => void
+}
+
+const eventNames = [
+  'onClick', 'onDoubleClick', 'onPointerDown', 'onPointerUp', 'onPointerMove', 'onPointerOver', 'onPointerOut',
+] as const
+
+const _color = new Color()
+const _black = new Color(0, 0, 0)
+
+function resolveStyle<T>(style: BatchedFootprintStyle<T> | undefined, footprint: BatchedFootprint, fallback: T): T {
+  if (style === undefined) return fallback
+  if (typeof style === 'function') return (style as (footprint: BatchedFootprint) => T)(footprint)
+  return style
+}
+
+interface Batch {
+  mesh: BatchedMesh
+  material: BatchedStandardMaterial
+  /** footprint index of every batch instance */
+  footprintAt: number[]
+}
+
+function createBatch(
+  footprints: BatchedFootprint[],
+  origin: Coords,
+  onInvalid?: (footprint: BatchedFootprint, error: Error) => void,
+): Batch {
+  const invalid: BatchedFootprint[] = []
+  const extruded = extrudeFootprints(footprints, origin, onInvalid ?? (footprint => invalid.push(footprint)))
+  if (invalid.length > 0) {
+    console.warn(`BatchedFootprints skipped ${invalid.length} invalid footprints:`, invalid.map(f => f.id))
+  }
+  const { geometries } = extruded
+  const vertexCount = geometries.reduce((acc, g) => acc + g.attributes.position.count, 0)
+  const material = new BatchedStandardMaterial(Math.max(geometries.length, 1))
+  // footprints are non-indexed, so the batch needs no index buffer
+  const mesh = new BatchedMesh(Math.max(geometries.length, 1), Math.max(vertexCount, 1), 0, material)
+  const footprintAt: number[] = []
+  geometries.forEach((geometry, i) => {
+    footprintAt[mesh.addInstance(mesh.addGeometry(geometry))] = extruded.footprintAt[i]
+    // the batch keeps its own copy of the vertices
+    geometry.dispose()
+  })
+  return { mesh, material, footprintAt }
+}
+
+/**
+ * Extrudes building footprints with {@link extrudeFootprint} and merges them into a
+ * single `BatchedMesh`, so thousands of buildings render in one draw call.
+ *
+ * Color, roughness, metalness and highlight are stored per footprint in a float
+ * texture, and visibility in the batch itself, so changing them never re-uploads
+ * geometry. Only a new `footprints` array, or moving the Canvas origin, rebuilds the batch.
+ *
+ * Pointer events report the footprint that was hit as `event.footprint`, found
+ * through the batch id of the intersection. Footprints that can't be extruded are
+ * skipped and reported through `onInvalidFootprint`.
+ *
+ * @example
+ * ```tsx
+ * import { Canvas, BatchedFootprints } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * function City({ footprints }) {
+ *   const [hovered, setHovered] = useState<string | number>();
+ *   return (
+ *     <Canvas latitude={51.5074} longitude={-0.1278}>
+ *       <hemisphereLight />
+ *       <BatchedFootprints
+ *         footprints={footprints}
+ *         highlighted={hovered}
+ *         onPointerMove={(e) => { e.stopPropagation(); setHovered(e.footprint.id); }}
+ *         onPointerOut={() => setHovered(undefined)}
+ *       />
+ *     </Canvas>
+ *   );
+ * }
+ * ```
+ */
+export function BatchedFootprints({
+  footprints,
+  color,
+  roughness,
+  metalness,
+  visible,
+  highlighted,
+  highlightColor = '#888888',
+  onInvalidFootprint,
+  ...handlers
+}: BatchedFootprintsProps) {
+  const { latitude, longitude, altitude } = useCoords()
+
+  // read at build time, so an inline callback doesn't rebuild the batch
+  const onInvalidRef = useRef(onInvalidFootprint)
+  onInvalidRef.current = onInvalidFootprint
+
+  const batch = useMemo(
+    () => createBatch(footprints, { latitude, longitude, altitude }, onInvalidRef.current),
+    [footprints, latitude, longitude, altitude]
+  )
+  useEffect(() => () => {
+    batch.mesh.dispose()
+    batch.material.dispose()
+  }, [batch])
+
+  useLayoutEffect(() => {
+    const { material, footprintAt } = batch
+    footprintAt.forEach((index, instanceId) => {
+      const footprint = footprints[index]
+      material.setValue(instanceId, 'diffuse', ..._color.set(resolveStyle(color, footprint, '#ffffff')).toArray())
+      material.setValue(instanceId, 'roughness', resolveStyle(roughness, footprint, 1))
+      material.setValue(instanceId, 'metalness', resolveStyle(metalness, footprint, 0))
+    })
+  }, [batch, color, roughness, metalness]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useLayoutEffect(() => {
+    const { mesh, footprintAt } = batch
+    footprintAt.forEach((index, instanceId) => {
+      mesh.setVisibleAt(instanceId, resolveStyle(visible, footprints[index], true))
+    })
+  }, [batch, visible]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const highlightKey = Array.isArray(highlighted) ? highlighted.join('\u0000') : highlighted
+  useLayoutEffect(() => {
+    const { material, footprintAt } = batch
+    const ids = new Set(Array.isArray(highlighted) ? highlighted : [highlighted])
+    const emissive = _color.set(highlightColor).toArray()
+    footprintAt.forEach((index, instanceId) => {
+      material.setValue(instanceId, 'emissive', ...(ids.has(footprints[index].id) ? emissive : _black.toArray()))
+    })
+  }, [batch, highlightKey, highlightColor]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // attach the footprint to every R3F event before forwarding it
+  const events = useMemo(() => {
+    const events: Partial<Record<typeof eventNames[number], (e: ThreeEvent<MouseEvent>) => void>> = {}
+    for (const name of eventNames) {
+      const handler = handlers[name]
+      if (!handler) continue
+      events[name] = (e) => {
+        if (e.batchId === undefined) return
+        const footprint = footprints[batch.footprintAt[e.batchId]]
+        if (!footprint) return
+        // R3F types clicks as MouseEvent, but they are dispatched from pointer events
+        handler(Object.assign(e as ThreeEvent<PointerEvent>, { footprint }))
+      }
+    }
+    return events
+  }, [batch, ...eventNames.map(name => handlers[name])]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  return <primitive object={batch.mesh} {...events} />
+}
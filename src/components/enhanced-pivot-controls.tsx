@@ -15,9 +15,23 @@ import {
   Quaternion,
   Euler,
   Raycaster,
-  Vector2
+  Vector2,
+  MathUtils,
+  Plane,
+  DoubleSide
 } from 'three'
 import { Billboard, Text } from '@react-three/drei'
+import { Coords } from '../api/coords'
+import { GeoTransform, geoTransformToMatrix, matrixToGeoTransform } from '../api/geo-transform'
+import { vector3ToCoords } from '../api/vector-3-to-coords'
+import { useMap } from '../api/use-map'
+import {
+  AxisRanges, PivotSnapTarget, clampRotation, clampToRanges, dropOnObjects, snapIncrement, snapToLonLatGrid
+} from '../core/pivot-constraints'
+import { setRayFromCamera } from '../core/events'
+import { lockMapInteractions, suppressNextClick } from '../core/map-interaction-lock'
+import { getTerrainElevation } from '../core/terrain-altitude'
+import { useCoords } from '../core/use-coords'
 
 // Extend Three.js objects for React Three Fiber
 extend({ Group, Matrix4, Mesh, MeshBasicMaterial, TubeGeometry })
@@ -96,42 +110,93 @@ export interface PivotControlsProps {
   onDrag?: (matrix: Matrix4) => void
 
   /**
-   * Callback fired when dragging starts.
-   * **Important:** Use this to disable map interactions to prevent conflicts.
+   * Geographic position of the gizmo. When set, the gizmo is placed from `coords`,
+   * `heading`, `pitch` and `roll` relative to the enclosing Canvas or Coordinates,
+   * and `matrix` is ignored.
+   *
+   * @example
+   * ```tsx
+   * <EnhancedPivotControls coords={{ latitude: 51.5, longitude: -0.12 }} heading={90} />
+   * ```
+   */
+  coords?: Coords
+
+  /**
+   * Heading in degrees, clockwise from north. Only used with `coords`.
+   *
+   * @defaultValue 0
+   */
+  heading?: number
+
+  /**
+   * Pitch in degrees, nose up. Only used with `coords`.
+   *
+   * @defaultValue 0
+   */
+  pitch?: number
+
+  /**
+   * Roll in degrees, right side down. Only used with `coords`.
+   *
+   * @defaultValue 0
+   */
+  roll?: number
+
+  /**
+   * Callback fired continuously while dragging, like `onDrag`, with the new real-world
+   * position and orientation instead of a matrix. Works with or without `coords`.
    *
    * @example
    * ```tsx
-   * const map = useMap();
+   * const [geo, setGeo] = useState<GeoTransform>({ coords, headingDeg: 0, pitchDeg: 0, rollDeg: 0 });
    *
-   * const onDragStart = useCallback(() => {
-   *   map.dragPan.disable();
-   *   map.dragRotate.disable();
-   *   map.doubleClickZoom.disable();
-   * }, [map]);
+   * <EnhancedPivotControls
+   *   coords={geo.coords}
+   *   heading={geo.headingDeg}
+   *   pitch={geo.pitchDeg}
+   *   roll={geo.rollDeg}
+   *   onGeoDrag={setGeo}
+   * />
+   * ```
+   *
+   * @see {@link GeoTransform} for the angle conventions
+   */
+  onGeoDrag?: (transform: GeoTransform) => void
+
+  /**
+   * Callback fired when dragging starts.
+   * Map interactions are already locked, see `lockMapInteractions`.
+   *
+   * @example
+   * ```tsx
+   * const onDragStart = useCallback(() => setEditing(true), []);
    * ```
    */
   onDragStart?: () => void
 
   /**
    * Callback fired when dragging ends.
-   * Use this to re-enable map interactions.
+   * Map interactions are restored right after, see `lockMapInteractions`.
    *
    * @example
    * ```tsx
-   * const map = useMap();
-   *
-   * const onDragEnd = useCallback(() => {
-   *   // Small delay prevents the release event from triggering map pan
-   *   setTimeout(() => {
-   *     map.dragPan.enable();
-   *     map.dragRotate.enable();
-   *     map.doubleClickZoom.enable();
-   *   }, 50);
-   * }, [map]);
+   * const onDragEnd = useCallback(() => save(matrix), [matrix]);
    * ```
    */
   onDragEnd?: () => void
 
+  /**
+   * Lock the map while dragging: `dragPan`, `dragRotate`, `doubleClickZoom`, `boxZoom`,
+   * `touchZoomRotate` and `touchPitch` are disabled when a drag starts, and the ones that
+   * were enabled are enabled again when it ends. The click that ends the drag is swallowed,
+   * so it doesn't reach the map or the objects under the pointer.
+   *
+   * Set it to `false` to manage map interactions yourself in `onDragStart` and `onDragEnd`.
+   *
+   * @defaultValue true
+   */
+  lockMapInteractions?: boolean
+
   /**
    * Scale factor for the control gizmo size in meters.
    * Choose a value appropriate for your zoom level and object size.
@@ -197,8 +262,131 @@ export interface PivotControlsProps {
   disableRotations?: boolean | [boolean, boolean, boolean]
 
   /**
-   * Show angle annotations while rotating.
-   * Displays a tooltip with the rotation angle in degrees during drag operations.
+   * Disable the plane drag squares.
+   * - `true`: Disable all planes
+   * - `false`: Enable all planes
+   * - `[yz, xz, xy]`: Disable specific planes, by their normal axis (true = disabled)
+   *
+   * The XZ square drags on the ground plane, keeping the object under the pointer.
+   * Combine it with `snapTo="terrain"` to follow the terrain surface.
+   *
+   * Sliders are disabled by default so existing gizmos look the same.
+   *
+   * @defaultValue true
+   *
+   * @example
+   * ```tsx
+   * // Only drag on the ground
+   * <EnhancedPivotControls disableSliders={[true, false, true]} />
+   * ```
+   */
+  disableSliders?: boolean | [boolean, boolean, boolean]
+
+  /**
+   * Disable the scale handles.
+   * - `true`: Disable all scale handles
+   * - `false`: Enable the uniform and per-axis scale handles
+   * - `[x, y, z]`: Disable specific axes (true = disabled), the uniform handle stays
+   *
+   * Scaling is disabled by default so existing `onDrag` handlers, which often read
+   * rotations from the matrix, keep receiving unscaled matrices. Scales are only
+   * reported through `onDrag`, `onGeoDrag` and geo mode ignore them.
+   *
+   * @defaultValue true
+   *
+   * @example
+   * ```tsx
+   * <EnhancedPivotControls disableScaling={false} dimensions={[20, 8, 40]} />
+   * ```
+   */
+  disableScaling?: boolean | [boolean, boolean, boolean]
+
+  /**
+   * Size of the object in meters `[x, y, z]`, before scaling.
+   * With `annotations`, scaling then shows the resulting dimensions instead of factors.
+   */
+  dimensions?: [number, number, number]
+
+  /**
+   * Translation increment in meters. Arrows move by multiples of it from where the drag started.
+   *
+   * @example
+   * ```tsx
+   * // Move by 1m steps
+   * <EnhancedPivotControls translationSnap={1} />
+   * ```
+   */
+  translationSnap?: number
+
+  /**
+   * Rotation increment in degrees. Rings rotate by multiples of it from where the drag started.
+   *
+   * @example
+   * ```tsx
+   * // Rotate by 15° steps
+   * <EnhancedPivotControls rotationSnap={15} />
+   * ```
+   */
+  rotationSnap?: number
+
+  /**
+   * Factor applied to pointer movements and snap increments while Shift is held,
+   * for fine adjustments.
+   *
+   * @defaultValue 0.1
+   */
+  fineFactor?: number
+
+  /**
+   * Position range per axis `[x, y, z]`, in meters, in the space of the gizmo parent.
+   * `undefined` leaves an axis free.
+   *
+   * @example
+   * ```tsx
+   * // Stay within 500m east / west and above the origin
+   * <EnhancedPivotControls translationLimits={[[-500, 500], [0, Infinity], undefined]} />
+   * ```
+   */
+  translationLimits?: AxisRanges
+
+  /**
+   * Rotation range per axis `[x, y, z]`, in degrees, as euler angles in the `'YXZ'` order.
+   * `undefined` leaves an axis free.
+   *
+   * @example
+   * ```tsx
+   * // Tilt at most 30° forward and backward
+   * <EnhancedPivotControls rotationLimits={[[-30, 30], undefined, undefined]} />
+   * ```
+   */
+  rotationLimits?: AxisRanges
+
+  /**
+   * Snap translated positions to map features:
+   * - `'terrain'`: stick to the terrain surface
+   * - `{ objects }`: stick to the top of these meshes, found by raycasting down
+   * - `{ grid }`: snap to a longitude / latitude grid spaced `grid` degrees
+   *
+   * Applied after `translationSnap` and before `translationLimits`.
+   *
+   * @example
+   * ```tsx
+   * // Place equipment on the ground
+   * <EnhancedPivotControls snapTo="terrain" />
+   *
+   * // On the roofs of buildings
+   * <EnhancedPivotControls snapTo={{ objects: [buildingsRef.current] }} />
+   *
+   * // On a 0.0001° grid, about 10m
+   * <EnhancedPivotControls snapTo={{ grid: 0.0001 }} />
+   * ```
+   */
+  snapTo?: PivotSnapTarget
+
+  /**
+   * Show annotations while dragging.
+   * Displays a tooltip with the rotation angle in degrees, the distance moved in meters,
+   * or the scale, during drag operations.
    *
    * @defaultValue false
    *
@@ -330,6 +518,14 @@ interface ContextProps {
   enabled: boolean
   anyDragging: boolean
   setAnyDragging: (v: boolean) => void
+  translationSnap?: number
+  rotationSnap?: number
+  fineFactor: number
+  dimensions?: [number, number, number]
+  /** applies `snapTo` and `translationLimits`, in place */
+  constrainPosition: (position: Vector3) => Vector3
+  /** applies `rotationLimits`, in place */
+  constrainRotation: (rotation: Quaternion) => Quaternion
 }
 
 const Context = createContext<ContextProps>({
@@ -343,12 +539,53 @@ const Context = createContext<ContextProps>({
   arrowHeadLength: 0.2,
   enabled: true,
   anyDragging: false,
-  setAnyDragging: () => {}
+  setAnyDragging: () => {},
+  fineFactor: 0.1,
+  constrainPosition: (position) => position,
+  constrainRotation: (rotation) => rotation
 })
 
 const _quaternion = new Quaternion()
 const _position = new Vector3()
 const _scale = new Vector3()
+const _pointer = new Vector2()
+const _raycaster = new Raycaster()
+const _hit = new Vector3()
+
+/** NDC of a pointer event over `element` */
+const toNDC = (e: { clientX: number; clientY: number }, element: HTMLElement, target: Vector2) => {
+  const rect = element.getBoundingClientRect()
+  return target.set(
+    ((e.clientX - rect.left) / rect.width) * 2 - 1,
+    -((e.clientY - rect.top) / rect.height) * 2 + 1
+  )
+}
+
+const formatMeters = (meters: number) => `${meters.toFixed(1)} m`
+
+/** scale handles can't shrink objects below this factor, or flip them */
+const MIN_SCALE_FACTOR = 0.01
+
+// Drag tooltip
+const Annotation: React.FC<{
+  position: Vector3 | [number, number, number]
+  fontSize: number
+  label: string
+}> = ({ position, fontSize, label }) => (
+  <Billboard position={position} follow>
+    <Text
+      renderOrder={10}
+      fontSize={fontSize}
+      color="white"
+      anchorX="center"
+      anchorY="middle"
+      outlineWidth="20%"
+      outlineColor="black"
+    >
+      {label}
+    </Text>
+  </Billboard>
+)
 
 // Enhanced AxisRotator with TubeGeometry for better raycasting
 const AxisRotator: React.FC<{
@@ -356,7 +593,7 @@ const AxisRotator: React.FC<{
   direction: Vector3
   color: string
 }> = ({ axis, direction, color }) => {
-  const { scale, annotations, onDragStart, onDragEnd, onDrag, matrix, rotationThickness, enabled, anyDragging, setAnyDragging } = useContext(Context)
+  const { scale, annotations, onDragStart, onDragEnd, onDrag, matrix, rotationThickness, enabled, anyDragging, setAnyDragging, rotationSnap, fineFactor, constrainRotation } = useContext(Context)
   const [hovered, setHovered] = useState(false)
   const [dragging, setDragging] = useState(false)
   const [angle, setAngle] = useState(0)
@@ -391,7 +628,7 @@ const AxisRotator: React.FC<{
     return new TubeGeometry(curve, segments * 2, radius * rotationThickness, 8, true)
   }, [curve, segments, radius, rotationThickness])
   
-  const dragStartRef = useRef<{ x: number; y: number; rotation: Quaternion }>()
+  const dragStartRef = useRef<{ x: number; y: number; rotation: Quaternion; angle: number }>()
   const annotationPosition = useMemo(
     () => direction.clone().multiplyScalar(radius * 1.2),
     [direction, radius]
@@ -418,7 +655,8 @@ const AxisRotator: React.FC<{
     dragStartRef.current = {
       x: e.clientX,
       y: e.clientY,
-      rotation: _quaternion.clone()
+      rotation: _quaternion.clone(),
+      angle: 0
     }
     
     onDragStart?.()
@@ -441,16 +679,18 @@ const AxisRotator: React.FC<{
       const x = ((e.clientX - rect.left) / rect.width) * 2 - 1
       const y = -((e.clientY - rect.top) / rect.height) * 2 + 1
       
-      // Get start mouse position in NDC
+      // Get previous mouse position in NDC, movements add up so Shift can toggle mid-drag
       const startX = ((dragStartRef.current.x - rect.left) / rect.width) * 2 - 1
       const startY = -((dragStartRef.current.y - rect.top) / rect.height) * 2 + 1
+      dragStartRef.current.x = e.clientX
+      dragStartRef.current.y = e.clientY
       
       // Create rays from camera through mouse positions
       const raycaster = new Raycaster()
-      raycaster.setFromCamera(new Vector2(x, y), camera)
+      setRayFromCamera(raycaster, new Vector2(x, y), camera)
       const currentRay = raycaster.ray.direction.clone().normalize()
       
-      raycaster.setFromCamera(new Vector2(startX, startY), camera)
+      setRayFromCamera(raycaster, new Vector2(startX, startY), camera)
       const startRay = raycaster.ray.direction.clone().normalize()
       
       // Get the rotation axis vector
@@ -459,9 +699,9 @@ const AxisRotator: React.FC<{
       else if (axis === 1) rotationAxis.set(0, 1, 0) // Y axis
       else rotationAxis.set(0, 0, 1) // Z axis
       
-      // Apply current rotation to the axis
+      // Apply the rotation at drag start to the axis
       matrix.decompose(_position, _quaternion, _scale)
-      rotationAxis.applyQuaternion(_quaternion)
+      rotationAxis.applyQuaternion(dragStartRef.current.rotation)
       
       // Project rays onto the plane perpendicular to rotation axis
       const projectedStart = startRay.clone().sub(
@@ -479,9 +719,14 @@ const AxisRotator: React.FC<{
       const cross = new Vector3().crossVectors(projectedStart, projectedCurrent)
       if (cross.dot(rotationAxis) > 0) angle = -angle
       
+      // Fine mode slows down the rotation and its increments
+      const factor = e.shiftKey ? fineFactor : 1
+      dragStartRef.current.angle += angle * factor
+      angle = snapIncrement(dragStartRef.current.angle, (rotationSnap || 0) * MathUtils.DEG2RAD * factor)
+      
       // Apply the rotation
       const rotationQuaternion = new Quaternion().setFromAxisAngle(rotationAxis, angle)
-      const newQuaternion = rotationQuaternion.multiply(dragStartRef.current.rotation)
+      const newQuaternion = constrainRotation(rotationQuaternion.multiply(dragStartRef.current.rotation))
       
       const newMatrix = new Matrix4()
       newMatrix.compose(_position, newQuaternion, _scale)
@@ -489,7 +734,7 @@ const AxisRotator: React.FC<{
       
       setAngle(angle)
     }
-  }, [dragging, onDrag, gl, camera, axis, matrix])
+  }, [dragging, onDrag, gl, camera, axis, matrix, rotationSnap, fineFactor, constrainRotation])
   
   React.useEffect(() => {
     if (dragging) {
@@ -528,19 +773,7 @@ const AxisRotator: React.FC<{
       
       {/* Annotation */}
       {annotations && dragging && (
-        <Billboard position={annotationPosition} follow>
-          <Text
-            renderOrder={10}
-            fontSize={annotationFontSize}
-            color="white"
-            anchorX="center"
-            anchorY="middle"
-            outlineWidth="20%"
-            outlineColor="black"
-          >
-            {annotationLabel}
-          </Text>
-        </Billboard>
+        <Annotation position={annotationPosition} fontSize={annotationFontSize} label={annotationLabel} />
       )}
     </group>
   )
@@ -552,11 +785,12 @@ const AxisArrow: React.FC<{
   direction: Vector3
   color: string
 }> = ({ axis, direction, color }) => {
-  const { scale, onDragStart, onDragEnd, onDrag, matrix, translationThickness, arrowHeadSize, arrowLength: arrowLengthProp, arrowHeadLength, enabled, anyDragging, setAnyDragging } = useContext(Context)
+  const { scale, annotations, onDragStart, onDragEnd, onDrag, matrix, translationThickness, arrowHeadSize, arrowLength: arrowLengthProp, arrowHeadLength, enabled, anyDragging, setAnyDragging, translationSnap, fineFactor, constrainPosition } = useContext(Context)
   const [hovered, setHovered] = useState(false)
   const [dragging, setDragging] = useState(false)
+  const [moved, setMoved] = useState(0)
   const { camera, gl } = useThree()
-  const dragStartRef = useRef<{ x: number; y: number; position: Vector3; plane: Vector3 }>()
+  const dragStartRef = useRef<{ x: number; y: number; position: Vector3; rotation: Quaternion; plane: Vector3; distance: number }>()
   
   const arrowLength = scale * arrowLengthProp
   const cylinderWidth = scale * translationThickness
@@ -585,7 +819,9 @@ const AxisArrow: React.FC<{
       x: e.clientX,
       y: e.clientY,
       position: _position.clone(),
-      plane: cameraDirection
+      rotation: _quaternion.clone(),
+      plane: cameraDirection,
+      distance: 0
     }
     
     onDragStart?.()
@@ -594,6 +830,7 @@ const AxisArrow: React.FC<{
   const handlePointerUp = useCallback(() => {
     if (dragging) {
       setDragging(false)
+      setMoved(0)
       dragStartRef.current = undefined
       setAnyDragging(false)
       onDragEnd?.()
@@ -608,35 +845,44 @@ const AxisArrow: React.FC<{
       const y = -((e.clientY - rect.top) / rect.height) * 2 + 1
       const startX = ((dragStartRef.current.x - rect.left) / rect.width) * 2 - 1
       const startY = -((dragStartRef.current.y - rect.top) / rect.height) * 2 + 1
+      dragStartRef.current.x = e.clientX
+      dragStartRef.current.y = e.clientY
       
       // Create rays from camera
       const raycaster = new Raycaster()
-      raycaster.setFromCamera(new Vector2(x, y), camera)
+      setRayFromCamera(raycaster, new Vector2(x, y), camera)
       const currentRay = raycaster.ray.direction.clone()
       
-      raycaster.setFromCamera(new Vector2(startX, startY), camera)
+      setRayFromCamera(raycaster, new Vector2(startX, startY), camera)
       const startRay = raycaster.ray.direction.clone()
       
-      // Get the current rotation from the matrix
+      // Get the current rotation and scale from the matrix
       matrix.decompose(_position, _quaternion, _scale)
       
-      // Transform the axis direction by the current rotation
-      const worldDirection = direction.clone().applyQuaternion(_quaternion)
+      // Transform the axis direction by the rotation at drag start
+      const worldDirection = direction.clone().applyQuaternion(dragStartRef.current.rotation)
       
       // Project rays onto the rotated axis direction
       const currentProjection = currentRay.dot(worldDirection) 
       const startProjection = startRay.dot(worldDirection)
       const deltaProjection = currentProjection - startProjection
       
+      // Fine mode slows down the movement and its increments
+      const factor = e.shiftKey ? fineFactor : 1
+      dragStartRef.current.distance += deltaProjection * scale * 2 * factor
+      const distance = snapIncrement(dragStartRef.current.distance, (translationSnap || 0) * factor)
+      
       // Calculate new position using the rotated direction
-      const delta = worldDirection.multiplyScalar(deltaProjection * scale * 2)
-      const newPosition = dragStartRef.current.position.clone().add(delta)
+      const delta = worldDirection.multiplyScalar(distance)
+      const newPosition = constrainPosition(dragStartRef.current.position.clone().add(delta))
       
       const newMatrix = new Matrix4()
       newMatrix.compose(newPosition, _quaternion, _scale)
       onDrag(newMatrix)
+      
+      setMoved(distance)
     }
-  }, [dragging, onDrag, gl, camera, direction, matrix, scale])
+  }, [dragging, onDrag, gl, camera, direction, matrix, scale, translationSnap, fineFactor, constrainPosition])
   
   React.useEffect(() => {
     if (dragging) {
@@ -696,6 +942,297 @@ const AxisArrow: React.FC<{
           transparent
         />
       </mesh>
+      
+      {/* Annotation */}
+      {annotations && dragging && (
+        <Annotation position={[0, arrowLength + coneLength * 2, 0]} fontSize={scale * 0.1} label={formatMeters(moved)} />
+      )}
+    </group>
+  )
+}
+
+// Plane drag square, `axis` is the plane normal
+const PlaneSlider: React.FC<{
+  axis: 0 | 1 | 2
+  color: string
+}> = ({ axis, color }) => {
+  const { scale, annotations, onDragStart, onDragEnd, onDrag, matrix, enabled, anyDragging, setAnyDragging, translationSnap, fineFactor, constrainPosition } = useContext(Context)
+  const [hovered, setHovered] = useState(false)
+  const [dragging, setDragging] = useState(false)
+  const [moved, setMoved] = useState<[number, number]>([0, 0])
+  const { camera, gl } = useThree()
+  const dragStartRef = useRef<{ position: Vector3; rotation: Quaternion; plane: Plane; last: Vector3; offset: Vector3 }>()
+  
+  // the two axes spanning the plane
+  const [u, v] = useMemo(() => [0, 1, 2].filter(i => i !== axis) as [0 | 1 | 2, 0 | 1 | 2], [axis])
+  const size = scale * 0.2
+  const offset = scale * 0.3
+  
+  const position = useMemo(() => {
+    const p = new Vector3()
+    p.setComponent(u, offset)
+    p.setComponent(v, offset)
+    return p
+  }, [u, v, offset])
+  
+  const rotation = useMemo(() => {
+    const euler = new Euler()
+    if (axis === 0) euler.set(0, Math.PI / 2, 0)
+    else if (axis === 1) euler.set(-Math.PI / 2, 0, 0)
+    return euler
+  }, [axis])
+  
+  // where the pointer ray crosses the drag plane
+  const intersect = useCallback((e: { clientX: number; clientY: number }, plane: Plane) => {
+    setRayFromCamera(_raycaster, toNDC(e, gl.domElement, _pointer), camera)
+    return _raycaster.ray.intersectPlane(plane, _hit)
+  }, [gl, camera])
+  
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (!enabled) return
+    e.stopPropagation()
+    // Prevent the event from reaching the map
+    if (e.nativeEvent) {
+      e.nativeEvent.stopPropagation()
+    }
+    
+    // Drag on the plane through the object, the XZ plane is the ground
+    matrix.decompose(_position, _quaternion, _scale)
+    const normal = new Vector3().setComponent(axis, 1).applyQuaternion(_quaternion)
+    const plane = new Plane().setFromNormalAndCoplanarPoint(normal, _position)
+    const start = intersect(e, plane)
+    if (!start) return
+    
+    setDragging(true)
+    setAnyDragging(true)
+    dragStartRef.current = {
+      position: _position.clone(),
+      rotation: _quaternion.clone(),
+      plane,
+      last: start.clone(),
+      offset: new Vector3()
+    }
+    
+    onDragStart?.()
+  }
+  
+  const handlePointerUp = useCallback(() => {
+    if (dragging) {
+      setDragging(false)
+      setMoved([0, 0])
+      dragStartRef.current = undefined
+      setAnyDragging(false)
+      onDragEnd?.()
+    }
+  }, [dragging, onDragEnd, setAnyDragging])
+  
+  const handlePointerMove = useCallback((e: PointerEvent) => {
+    const start = dragStartRef.current
+    if (!dragging || !onDrag || !start) return
+    const hit = intersect(e, start.plane)
+    if (!hit) return
+    
+    // Pointer movement in the gizmo axes, slowed down in fine mode
+    const factor = e.shiftKey ? fineFactor : 1
+    const step = hit.clone().sub(start.last).applyQuaternion(start.rotation.clone().invert())
+    start.last.copy(hit)
+    start.offset.addScaledVector(step, factor)
+    
+    const snapped = new Vector3()
+    snapped.setComponent(u, snapIncrement(start.offset.getComponent(u), (translationSnap || 0) * factor))
+    snapped.setComponent(v, snapIncrement(start.offset.getComponent(v), (translationSnap || 0) * factor))
+    
+    const newPosition = constrainPosition(start.position.clone().add(snapped.clone().applyQuaternion(start.rotation)))
+    matrix.decompose(_position, _quaternion, _scale)
+    onDrag(new Matrix4().compose(newPosition, _quaternion, _scale))
+    
+    setMoved([snapped.getComponent(u), snapped.getComponent(v)])
+  }, [dragging, onDrag, intersect, matrix, u, v, translationSnap, fineFactor, constrainPosition])
+  
+  React.useEffect(() => {
+    if (dragging) {
+      window.addEventListener('pointermove', handlePointerMove)
+      window.addEventListener('pointerup', handlePointerUp)
+      return () => {
+        window.removeEventListener('pointermove', handlePointerMove)
+        window.removeEventListener('pointerup', handlePointerUp)
+      }
+    }
+  }, [dragging, handlePointerMove, handlePointerUp])
+  
+  const axisNames = 'xyz'
+  
+  return (
+    <group position={position}>
+      <mesh
+        rotation={rotation}
+        onPointerDown={handlePointerDown}
+        onPointerOver={(e) => {
+          if (!enabled) return
+          if (!anyDragging || dragging) {
+            // Ensure only the nearest intersected gizmo handles hover
+            e.stopPropagation()
+            setHovered(true)
+          }
+        }}
+        onPointerOut={() => setHovered(false)}
+      >
+        <planeGeometry args={[size, size]} />
+        <meshBasicMaterial 
+          color={enabled ? (((hovered && !anyDragging) || dragging) ? '#ffff00' : color) : '#808080'}
+          opacity={enabled ? (((hovered && !anyDragging) || dragging) ? 0.8 : 0.4) : 0.2}
+          side={DoubleSide}
+          transparent
+        />
+      </mesh>
+      
+      {/* Annotation */}
+      {annotations && dragging && (
+        <Annotation
+          position={[0, size, 0]}
+          fontSize={scale * 0.1}
+          label={`${axisNames[u]} ${formatMeters(moved[0])}  ${axisNames[v]} ${formatMeters(moved[1])}`}
+        />
+      )}
+    </group>
+  )
+}
+
+// Scale handle, along `axis` or uniform without it
+const ScaleHandle: React.FC<{
+  axis?: 0 | 1 | 2
+  color: string
+}> = ({ axis, color }) => {
+  const { scale, annotations, onDragStart, onDragEnd, onDrag, matrix, arrowHeadSize, arrowLength, arrowHeadLength, enabled, anyDragging, setAnyDragging, fineFactor, dimensions } = useContext(Context)
+  const [hovered, setHovered] = useState(false)
+  const [dragging, setDragging] = useState(false)
+  const [factor, setFactor] = useState(1)
+  const { camera, gl } = useThree()
+  const dragStartRef = useRef<{ x: number; y: number; scale: Vector3; rotation: Quaternion; amount: number }>()
+  
+  const handleSize = scale * arrowHeadSize * 1.5
+  // past the arrow head
+  const handleDistance = scale * (arrowLength + arrowHeadLength) + handleSize
+  const position = useMemo(() => {
+    const p = new Vector3()
+    if (axis !== undefined) p.setComponent(axis, handleDistance)
+    return p
+  }, [axis, handleDistance])
+  
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (!enabled) return
+    e.stopPropagation()
+    // Prevent the event from reaching the map
+    if (e.nativeEvent) {
+      e.nativeEvent.stopPropagation()
+    }
+    setDragging(true)
+    setAnyDragging(true)
+    
+    matrix.decompose(_position, _quaternion, _scale)
+    dragStartRef.current = {
+      x: e.clientX,
+      y: e.clientY,
+      scale: _scale.clone(),
+      rotation: _quaternion.clone(),
+      amount: 0
+    }
+    
+    onDragStart?.()
+  }
+  
+  const handlePointerUp = useCallback(() => {
+    if (dragging) {
+      setDragging(false)
+      setFactor(1)
+      dragStartRef.current = undefined
+      setAnyDragging(false)
+      onDragEnd?.()
+    }
+  }, [dragging, onDragEnd, setAnyDragging])
+  
+  const handlePointerMove = useCallback((e: PointerEvent) => {
+    const start = dragStartRef.current
+    if (!dragging || !onDrag || !start) return
+    const fine = e.shiftKey ? fineFactor : 1
+    
+    let newFactor: number
+    if (axis === undefined) {
+      // Uniform: dragging up grows, doubling every 100px
+      start.amount += (start.y - e.clientY) * fine
+      newFactor = Math.pow(2, start.amount / 100)
+    } else {
+      // Per axis: the handle follows the pointer along the axis, like the arrows
+      const previous = toNDC({ clientX: start.x, clientY: start.y }, gl.domElement, new Vector2())
+      setRayFromCamera(_raycaster, previous, camera)
+      const startRay = _raycaster.ray.direction.clone()
+      setRayFromCamera(_raycaster, toNDC(e, gl.domElement, _pointer), camera)
+      const direction = new Vector3().setComponent(axis, 1).applyQuaternion(start.rotation)
+      start.amount += (_raycaster.ray.direction.dot(direction) - startRay.dot(direction)) * scale * 2 * fine
+      newFactor = Math.max(MIN_SCALE_FACTOR, 1 + start.amount / handleDistance)
+    }
+    start.x = e.clientX
+    start.y = e.clientY
+    
+    const newScale = start.scale.clone()
+    if (axis === undefined) newScale.multiplyScalar(newFactor)
+    else newScale.setComponent(axis, newScale.getComponent(axis) * newFactor)
+    
+    matrix.decompose(_position, _quaternion, _scale)
+    onDrag(new Matrix4().compose(_position, _quaternion, newScale))
+    
+    setFactor(newFactor)
+  }, [dragging, onDrag, gl, camera, axis, matrix, scale, handleDistance, fineFactor])
+  
+  React.useEffect(() => {
+    if (dragging) {
+      window.addEventListener('pointermove', handlePointerMove)
+      window.addEventListener('pointerup', handlePointerUp)
+      return () => {
+        window.removeEventListener('pointermove', handlePointerMove)
+        window.removeEventListener('pointerup', handlePointerUp)
+      }
+    }
+  }, [dragging, handlePointerMove, handlePointerUp])
+  
+  // Dimensions in meters when known, the scale factor otherwise
+  const annotationLabel = useMemo(() => {
+    const startScale = dragStartRef.current?.scale
+    if (!dimensions || !startScale) return `×${factor.toFixed(2)}`
+    const size = dimensions.map((d, i) => d * startScale.getComponent(i) * (axis === undefined || axis === i ? factor : 1))
+    return axis === undefined ? size.map(d => d.toFixed(1)).join(' × ') + ' m' : formatMeters(size[axis])
+  }, [dimensions, factor, axis])
+  
+  const highlighted = (hovered && !anyDragging) || dragging
+  
+  return (
+    <group position={position}>
+      <mesh
+        onPointerDown={handlePointerDown}
+        onPointerOver={(e) => {
+          if (!enabled) return
+          if (!anyDragging || dragging) {
+            // Ensure only the nearest intersected gizmo handles hover
+            e.stopPropagation()
+            setHovered(true)
+          }
+        }}
+        onPointerOut={() => setHovered(false)}
+      >
+        {axis === undefined
+          ? <sphereGeometry args={[handleSize * 1.5, 16, 8]} />
+          : <boxGeometry args={[handleSize, handleSize, handleSize]} />}
+        <meshBasicMaterial 
+          color={enabled ? (highlighted ? '#ffff00' : color) : '#808080'}
+          opacity={enabled ? (highlighted ? 1 : 0.8) : 0.3}
+          transparent
+        />
+      </mesh>
+      
+      {/* Annotation */}
+      {annotations && dragging && (
+        <Annotation position={[0, handleSize * 2, 0]} fontSize={scale * 0.1} label={annotationLabel} />
+      )}
     </group>
   )
 }
@@ -705,19 +1242,20 @@ const AxisArrow: React.FC<{
  *
  * Provides intuitive controls for manipulating objects with:
  * - **Translation arrows** (red=X, green=Y, blue=Z) for moving objects
+ * - **Plane squares** for moving objects on a plane, such as the ground
  * - **Rotation rings** for rotating around each axis
+ * - **Scale handles** per axis and uniform, when `disableScaling` is `false`
  * - **Hover highlighting** and **drag annotations**
  *
  * Designed to work seamlessly with MapLibre/Mapbox maps by properly handling
- * pointer events and providing callbacks to disable map interactions during manipulation.
+ * pointer events and locking map interactions during manipulation.
  *
  * @example
  * ```tsx
- * import { Canvas, EnhancedPivotControls, useMap } from '@wendylabsinc/react-three-map/maplibre';
+ * import { Canvas, EnhancedPivotControls } from '@wendylabsinc/react-three-map/maplibre';
  * import { Matrix4, Vector3, Euler } from 'three';
  *
  * function DraggableObject() {
- *   const map = useMap();
  *   const [position, setPosition] = useState([0, 0, 0]);
  *   const [rotation, setRotation] = useState([0, 0, 0]);
  *
@@ -728,16 +1266,6 @@ const AxisArrow: React.FC<{
  *     return m;
  *   }, [position, rotation]);
  *
- *   const onDragStart = () => {
- *     map.dragPan.disable();
- *     map.dragRotate.disable();
- *   };
- *
- *   const onDragEnd = () => {
- *     map.dragPan.enable();
- *     map.dragRotate.enable();
- *   };
- *
  *   const onDrag = (m4: Matrix4) => {
  *     setPosition(new Vector3().setFromMatrixPosition(m4).toArray());
  *     const euler = new Euler().setFromRotationMatrix(m4);
@@ -749,8 +1277,6 @@ const AxisArrow: React.FC<{
  *       <EnhancedPivotControls
  *         matrix={matrix}
  *         scale={500}
- *         onDragStart={onDragStart}
- *         onDragEnd={onDragEnd}
  *         onDrag={onDrag}
  *         annotations
  *       />
@@ -766,13 +1292,27 @@ const AxisArrow: React.FC<{
  * @see {@link PivotControlsProps} for available configuration options
  */
 export const EnhancedPivotControls: React.FC<PivotControlsProps> = ({
-  matrix = new Matrix4(),
-  onDrag,
+  matrix: matrixProp,
+  onDrag: onDragProp,
+  coords,
+  heading = 0,
+  pitch = 0,
+  roll = 0,
+  onGeoDrag,
   onDragStart,
   onDragEnd,
   scale = 1,
   disableTranslations = false,
   disableRotations = false,
+  disableSliders = true,
+  disableScaling = true,
+  dimensions,
+  translationSnap,
+  rotationSnap,
+  fineFactor = 0.1,
+  translationLimits,
+  rotationLimits,
+  snapTo,
   annotations = false,
   activeAxes = [true, true, true],
   rotationThickness = 0.03,
@@ -781,10 +1321,64 @@ export const EnhancedPivotControls: React.FC<PivotControlsProps> = ({
   arrowLength = 1,
   arrowHeadLength = 0.2,
   visible = true,
-  enabled = true
+  enabled = true,
+  lockMapInteractions: lockInteractions = true
 }) => {
   const groupRef = useRef<Group>(null)
-  const [anyDragging, setAnyDragging] = useState(false)
+  const [anyDragging, setAnyDraggingState] = useState(false)
+  const map = useMap()
+  const unlockRef = useRef<() => void>()
+  
+  // Lock the map for the whole drag, synchronously so it never sees the pointer down
+  const setAnyDragging = useCallback((dragging: boolean) => {
+    setAnyDraggingState(dragging)
+    if (dragging) {
+      if (lockInteractions && map && !unlockRef.current) unlockRef.current = lockMapInteractions(map)
+    } else if (unlockRef.current) {
+      unlockRef.current()
+      unlockRef.current = undefined
+      suppressNextClick()
+    }
+  }, [lockInteractions, map])
+  
+  // Release the map when unmounted mid-drag
+  React.useEffect(() => () => {
+    unlockRef.current?.()
+    unlockRef.current = undefined
+  }, [])
+  const origin = useCoords()
+
+  // in geo mode the matrix comes from coords and angles, relative to the enclosing origin
+  const matrix = useMemo(() => {
+    if (!coords) return matrixProp || new Matrix4()
+    return geoTransformToMatrix({ coords, headingDeg: heading, pitchDeg: pitch, rollDeg: roll }, origin)
+  }, [coords, heading, pitch, roll, origin, matrixProp])
+
+  const onDrag = useMemo(() => {
+    if (!onDragProp && !onGeoDrag) return undefined
+    return (m4: Matrix4) => {
+      onDragProp?.(m4)
+      onGeoDrag?.(matrixToGeoTransform(m4, origin))
+    }
+  }, [onDragProp, onGeoDrag, origin])
+
+  // the terrain is sampled while dragging, no need to re-render the gizmo as its tiles load
+  const constrainPosition = useCallback((position: Vector3) => {
+    if (snapTo === 'terrain') {
+      const altitude = getTerrainElevation(map, vector3ToCoords(position.toArray(), origin))
+      position.y = altitude - (origin.altitude || 0)
+    } else if (snapTo && 'objects' in snapTo) {
+      dropOnObjects(position, snapTo.objects)
+    } else if (snapTo) {
+      snapToLonLatGrid(position, origin, snapTo.grid)
+    }
+    return clampToRanges(position, translationLimits)
+  }, [snapTo, map, origin, translationLimits])
+
+  const constrainRotation = useCallback(
+    (rotation: Quaternion) => clampRotation(rotation, rotationLimits),
+    [rotationLimits]
+  )
   
   const config = useMemo<ContextProps>(() => ({
     scale,
@@ -801,7 +1395,13 @@ export const EnhancedPivotControls: React.FC<PivotControlsProps> = ({
     enabled,
     anyDragging,
     setAnyDragging,
-  }), [scale, annotations, onDragStart, onDragEnd, onDrag, matrix, rotationThickness, translationThickness, arrowHeadSize, arrowLength, arrowHeadLength, enabled, anyDragging])
+    translationSnap,
+    rotationSnap,
+    fineFactor,
+    dimensions,
+    constrainPosition,
+    constrainRotation,
+  }), [scale, annotations, onDragStart, onDragEnd, onDrag, matrix, rotationThickness, translationThickness, arrowHeadSize, arrowLength, arrowHeadLength, enabled, anyDragging, translationSnap, rotationSnap, fineFactor, dimensions, constrainPosition, constrainRotation, setAnyDragging])
   
   const translationEnabled = useMemo(() => {
     if (typeof disableTranslations === 'boolean') {
@@ -817,10 +1417,25 @@ export const EnhancedPivotControls: React.FC<PivotControlsProps> = ({
     return disableRotations.map(d => !d)
   }, [disableRotations])
   
-  // Apply matrix to group
+  const slidersEnabled = useMemo(() => {
+    if (typeof disableSliders === 'boolean') {
+      return !disableSliders ? [true, true, true] : [false, false, false]
+    }
+    return disableSliders.map(d => !d)
+  }, [disableSliders])
+  
+  const scalingEnabled = useMemo(() => {
+    if (typeof disableScaling === 'boolean') {
+      return !disableScaling ? [true, true, true] : [false, false, false]
+    }
+    return disableScaling.map(d => !d)
+  }, [disableScaling])
+  
+  // Apply matrix to group, without its scale so the gizmo keeps its shape
   React.useLayoutEffect(() => {
     if (groupRef.current) {
-      groupRef.current.matrix.copy(matrix)
+      matrix.decompose(_position, _quaternion, _scale)
+      groupRef.current.matrix.compose(_position, _quaternion, _scale.set(1, 1, 1))
       groupRef.current.matrixAutoUpdate = false
       groupRef.current.matrixWorldNeedsUpdate = true
     }
@@ -852,6 +1467,31 @@ export const EnhancedPivotControls: React.FC<PivotControlsProps> = ({
         {rotationEnabled[2] && activeAxes[2] && (
           <AxisRotator axis={2} direction={new Vector3(0, 0, 1)} color="#0000ff" />
         )}
+        
+        {/* Plane drag squares, by normal axis */}
+        {slidersEnabled[0] && activeAxes[1] && activeAxes[2] && (
+          <PlaneSlider axis={0} color="#ff0000" />
+        )}
+        {slidersEnabled[1] && activeAxes[0] && activeAxes[2] && (
+          <PlaneSlider axis={1} color="#00ff00" />
+        )}
+        {slidersEnabled[2] && activeAxes[0] && activeAxes[1] && (
+          <PlaneSlider axis={2} color="#0000ff" />
+        )}
+        
+        {/* Scale handles */}
+        {scalingEnabled[0] && activeAxes[0] && (
+          <ScaleHandle axis={0} color="#ff0000" />
+        )}
+        {scalingEnabled[1] && activeAxes[1] && (
+          <ScaleHandle axis={1} color="#00ff00" />
+        )}
+        {scalingEnabled[2] && activeAxes[2] && (
+          <ScaleHandle axis={2} color="#0000ff" />
+        )}
+        {disableScaling !== true && (
+          <ScaleHandle color="#ffffff" />
+        )}
       </group>
     </Context.Provider>
   )
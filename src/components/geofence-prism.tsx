@@ -0,0 +1,102 @@
+/**
+ * @packageDocumentation
+ * Geofence volume extruded from a polygon between a floor and a ceiling altitude.
+ */
+import { ReactNode, useEffect, useMemo } from 'react'
+import { ThreeEvent } from '@react-three/fiber'
+import { ColorRepresentation } from 'three'
+import { Coords } from '../api/coords'
+import { polygonPrismToGeoTriangles } from '../api/polygon-prism'
+import { geoTrianglesToGeometry } from '../core/geo-triangulation'
+import { useCoords } from '../core/use-coords'
+
+/**
+ * Props for the GeofencePrism component.
+ *
+ * @example
+ * ```tsx
+ * <GeofencePrism ring={ring} floor={120} ceiling={450} color="red" opacity={0.4} />
+ * ```
+ */
+export interface GeofencePrismProps {
+  /** Polygon outline, either winding, closed or not. Changing it rebuilds the geometry. */
+  ring: Coords[]
+
+  /** Polygon holes, either winding, closed or not */
+  holes?: Coords[][]
+
+  /** Altitude of the bottom of the prism, in meters above sea level */
+  floor: number
+
+  /** Altitude of the top of the prism, in meters above sea level */
+  ceiling: number
+
+  /**
+   * Color of the default material.
+   * @defaultValue "#ffffff"
+   */
+  color?: ColorRepresentation
+
+  /**
+   * Opacity of the default material. Values below 1 enable transparency.
+   * @defaultValue 1
+   */
+  opacity?: number
+
+  /** Material, and any other children of the mesh, replacing the default material */
+  children?: ReactNode
+
+  onClick?: (event: ThreeEvent<MouseEvent>) => void
+  onDoubleClick?: (event: ThreeEvent<MouseEvent>) => void
+  onPointerDown?: (event: ThreeEvent<PointerEvent>) => void
+  onPointerUp?: (event: ThreeEvent<PointerEvent>) => void
+  onPointerMove?: (event: ThreeEvent<PointerEvent>) => void
+  onPointerOver?: (event: ThreeEvent<PointerEvent>) => void
+  onPointerOut?: (event: ThreeEvent<PointerEvent>) => void
+}
+
+/**
+ * Renders a geofence built with {@link polygonPrismToGeoTriangles} inside a {@link Canvas},
+ * positioned relative to the Canvas origin.
+ *
+ * The mesh is the same closed surface that {@link isCoordsInGeoTriangles} tests against
+ * and {@link geoTrianglesToWKT} exports, so what is drawn is what is enforced.
+ *
+ * @example
+ * ```tsx
+ * import { Canvas, GeofencePrism } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * function Airspace({ ring }) {
+ *   return (
+ *     <Canvas latitude={51.5074} longitude={-0.1278}>
+ *       <hemisphereLight />
+ *       <GeofencePrism ring={ring} floor={120} ceiling={450}>
+ *         <meshStandardMaterial color="orange" opacity={0.3} transparent depthWrite={false} />
+ *       </GeofencePrism>
+ *     </Canvas>
+ *   );
+ * }
+ * ```
+ */
+export function GeofencePrism({
+  ring,
+  holes,
+  floor,
+  ceiling,
+  color = '#ffffff',
+  opacity = 1,
+  children,
+  ...handlers
+}: GeofencePrismProps) {
+  const { latitude, longitude, altitude } = useCoords()
+
+  const geometry = useMemo(() => geoTrianglesToGeometry(
+    polygonPrismToGeoTriangles(ring, holes ?? [], { floor, ceiling }),
+    { latitude, longitude, altitude }
+  ), [ring, holes, floor, ceiling, latitude, longitude, altitude])
+  useEffect(() => () => geometry.dispose(), [geometry])
+
+  return <mesh geometry={geometry} {...handlers}>
+    {children ?? <meshStandardMaterial color={color} opacity={opacity} transparent={opacity < 1} />}
+  </mesh>
+}
@@ -0,0 +1,280 @@
+/**
+ * @packageDocumentation
+ * GeoJSON layer that turns features into Three.js meshes and lines.
+ */
+import { memo, useEffect, useMemo } from 'react'
+import { ThreeEvent } from '@react-three/fiber'
+import { BufferGeometry, ColorRepresentation, SphereGeometry, Vector3Tuple } from 'three'
+import { Coords } from '../api/coords'
+import { coordsToVector3 } from '../api/coords-to-vector-3'
+import {
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  GeoJSONGeometry,
+  GeoJSONProperties,
+  geoJSONLineToGeometry,
+  geoJSONPolygonToGeometry,
+  positionToCoords,
+} from '../api/geojson'
+import { useCoords } from '../core/use-coords'
+
+/**
+ * A React Three Fiber pointer event with the GeoJSON feature that was hit.
+ */
+export type GeoJSONLayerEvent<P = GeoJSONProperties> = ThreeEvent<PointerEvent> & {
+  /** The feature the intersected object was built from */
+  feature: GeoJSONFeature<P>
+}
+
+/** A style value, either fixed or computed per feature */
+export type GeoJSONStyle<T, P = GeoJSONProperties> = T | ((feature: GeoJSONFeature<P>) => T)
+
+/**
+ * Props for the GeoJSONLayer component.
+ *
+ * @example
+ * ```tsx
+ * <GeoJSONLayer
+ *   data={buildings}
+ *   color={(f) => f.properties.color}
+ *   extrusionHeight={(f) => f.properties.height}
+ *   onClick={(e) => console.log(e.feature.id)}
+ * />
+ * ```
+ */
+export interface GeoJSONLayerProps<P = GeoJSONProperties> {
+  /** The features to render */
+  data: GeoJSONFeatureCollection<P>
+
+  /**
+   * Color of meshes and lines.
+   * @defaultValue "#ffffff"
+   */
+  color?: GeoJSONStyle<ColorRepresentation, P>
+
+  /**
+   * Opacity of meshes and lines. Values below 1 enable transparency.
+   * @defaultValue 1
+   */
+  opacity?: GeoJSONStyle<number, P>
+
+  /**
+   * Polygon extrusion height in meters above `baseHeight`. `0` renders flat polygons.
+   * @defaultValue 0
+   */
+  extrusionHeight?: GeoJSONStyle<number, P>
+
+  /**
+   * Altitude in meters above sea level of polygons, and of points and lines without altitude.
+   * @defaultValue 0
+   */
+  baseHeight?: GeoJSONStyle<number, P>
+
+  /**
+   * Radius in meters of the spheres rendered for points.
+   * @defaultValue 2
+   */
+  pointRadius?: GeoJSONStyle<number, P>
+
+  onClick?: (event: GeoJSONLayerEvent<P>) => void
+  onDoubleClick?: (event: GeoJSONLayerEvent<P>) => void
+  onPointerDown?: (event: GeoJSONLayerEvent<P>) => void
+  onPointerUp?: (event: GeoJSONLayerEvent<P>) => void
+  onPointerMove?: (event: GeoJSONLayerEvent<P>) => void
+  onPointerOver?: (event: GeoJSONLayerEvent<P>) => void
+  onPointerOut?: (event: GeoJSONLayerEvent<P>) => void
+}
+
+type EventHandlers<P> = Pick<GeoJSONLayerProps<P>,
+  'onClick' | 'onDoubleClick' | 'onPointerDown' | 'onPointerUp' | 'onPointerMove' | 'onPointerOver' | 'onPointerOut'>
+
+const eventNames = [
+  'onClick', 'onDoubleClick', 'onPointerDown', 'onPointerUp', 'onPointerMove', 'onPointerOver', 'onPointerOut',
+] as const
+
+function resolveStyle<T, P>(style: GeoJSONStyle<T, P> | undefined, feature: GeoJSONFeature<P>, fallback: T): T {
+  if (style === undefined) return fallback
+  if (typeof style === 'function') return (style as (feature: GeoJSONFeature<P>) => T)(feature)
+  return style
+}
+
+interface FeatureParts {
+  polygons: BufferGeometry[]
+  lines: BufferGeometry[]
+  points: Vector3Tuple[]
+}
+
+/** pushes the geometry built by `build`, skipping degenerate parts that can't be built */
+function pushPart(geometries: BufferGeometry[], build: () => BufferGeometry) {
+  try {
+    geometries.push(build())
+  } catch {
+    // zero-area or degenerate polygons are common in real data, one of them shouldn't break the layer
+  }
+}
+
+function collectParts(
+  geometry: GeoJSONGeometry,
+  origin: Coords,
+  base: number,
+  height: number,
+  parts: FeatureParts,
+) {
+  switch (geometry.type) {
+    case 'Point':
+      parts.points.push(coordsToVector3(positionToCoords(geometry.coordinates, geometry.coordinates[2] ?? base), origin))
+      break
+    case 'MultiPoint':
+      for (const p of geometry.coordinates) parts.points.push(coordsToVector3(positionToCoords(p, p[2] ?? base), origin))
+      break
+    case 'LineString':
+      pushPart(parts.lines, () => geoJSONLineToGeometry(geometry.coordinates, origin, base))
+      break
+    case 'MultiLineString':
+      for (const line of geometry.coordinates) pushPart(parts.lines, () => geoJSONLineToGeometry(line, origin, base))
+      break
+    case 'Polygon':
+      pushPart(parts.polygons, () => geoJSONPolygonToGeometry(geometry.coordinates, origin, { base, height }))
+      break
+    case 'MultiPolygon':
+      for (const polygon of geometry.coordinates) {
+        pushPart(parts.polygons, () => geoJSONPolygonToGeometry(polygon, origin, { base, height }))
+      }
+      break
+    case 'GeometryCollection':
+      for (const child of geometry.geometries) collectParts(child, origin, base, height, parts)
+      break
+  }
+}
+
+interface FeatureObjectProps<P> extends EventHandlers<P> {
+  feature: GeoJSONFeature<P>
+  origin: Coords
+  sphere: SphereGeometry
+  color: ColorRepresentation
+  opacity: number
+  extrusionHeight: number
+  baseHeight: number
+  pointRadius: number
+}
+
+function FeatureObjectImpl<P>({
+  feature, origin, sphere, color, opacity, extrusionHeight, baseHeight, pointRadius, ...handlers
+}: FeatureObjectProps<P>) {
+
+  const { latitude, longitude, altitude } = origin
+
+  const parts = useMemo(() => {
+    const parts: FeatureParts = { polygons: [], lines: [], points: [] }
+    if (feature.geometry) {
+      collectParts(feature.geometry, { latitude, longitude, altitude }, baseHeight, extrusionHeight, parts)
+    }
+    return parts
+  }, [feature, latitude, longitude, altitude, baseHeight, extrusionHeight])
+
+  useEffect(() => () => {
+    parts.polygons.forEach(g => g.dispose())
+    parts.lines.forEach(g => g.dispose())
+  }, [parts])
+
+  // attach the feature to every R3F event before forwarding it
+  const events = useMemo(() => {
+    const events: Partial<Record<typeof eventNames[number], (e: ThreeEvent<MouseEvent>) => void>> = {}
+    for (const name of eventNames) {
+      const handler = handlers[name]
+      if (!handler) continue
+      // R3F types clicks as MouseEvent, but they are dispatched from pointer events
+      events[name] = (e) => handler(Object.assign(e as ThreeEvent<PointerEvent>, { feature }))
+    }
+    return events
+  }, [feature, ...eventNames.map(name => handlers[name])]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const transparent = opacity < 1
+
+  return <>
+    {parts.polygons.map((geometry, i) => (
+      <mesh key={`polygon-${i}`} geometry={geometry} {...events}>
+        <meshStandardMaterial color={color} opacity={opacity} transparent={transparent} />
+      </mesh>
+    ))}
+    {parts.lines.map((geometry, i) => (
+      <lineSegments key={`line-${i}`} geometry={geometry} {...events}>
+        <lineBasicMaterial color={color} opacity={opacity} transparent={transparent} />
+      </lineSegments>
+    ))}
+    {parts.points.map((position, i) => (
+      <mesh key={`point-${i}`} geometry={sphere} position={position} scale={pointRadius} {...events}>
+        <meshStandardMaterial color={color} opacity={opacity} transparent={transparent} />
+      </mesh>
+    ))}
+  </>
+}
+
+const FeatureObject = memo(FeatureObjectImpl) as typeof FeatureObjectImpl
+
+/**
+ * Renders a GeoJSON `FeatureCollection` inside a {@link Canvas}.
+ *
+ * - `Polygon` / `MultiPolygon` become meshes, flat or extruded, with holes cut out.
+ * - `LineString` / `MultiLineString` become line segments.
+ * - `Point` / `MultiPoint` become spheres.
+ *
+ * Everything is positioned relative to the Canvas origin with {@link coordsToVector3},
+ * so it works best at city-level distances, like {@link NearCoordinates}.
+ *
+ * Pointer events are forwarded with the originating feature attached as `event.feature`.
+ * Polygons and lines that can't be built, like zero-area or degenerate rings, are skipped.
+ *
+ * @example
+ * ```tsx
+ * import { Canvas, GeoJSONLayer } from '@wendylabsinc/react-three-map/maplibre';
+ *
+ * function Buildings({ data }) {
+ *   const [hovered, setHovered] = useState<string | number>();
+ *   return (
+ *     <Canvas latitude={51.5074} longitude={-0.1278}>
+ *       <hemisphereLight />
+ *       <GeoJSONLayer
+ *         data={data}
+ *         extrusionHeight={(f) => f.properties.height ?? 10}
+ *         baseHeight={(f) => f.properties.min_height ?? 0}
+ *         color={(f) => f.id === hovered ? 'orange' : '#e0e4cc'}
+ *         onPointerOver={(e) => { e.stopPropagation(); setHovered(e.feature.id); }}
+ *         onPointerOut={() => setHovered(undefined)}
+ *       />
+ *     </Canvas>
+ *   );
+ * }
+ * ```
+ */
+export function GeoJSONLayer<P = GeoJSONProperties>({
+  data,
+  color,
+  opacity,
+  extrusionHeight,
+  baseHeight,
+  pointRadius,
+  ...handlers
+}: GeoJSONLayerProps<P>) {
+  const origin = useCoords()
+
+  const sphere = useMemo(() => new SphereGeometry(1, 16, 8), [])
+  useEffect(() => () => sphere.dispose(), [sphere])
+
+  return <group>
+    {data.features.map((feature, i) => (
+      <FeatureObject<P>
+        key={`${feature.id ?? ''}-${i}`}
+        feature={feature}
+        origin={origin}
+        sphere={sphere}
+        color={resolveStyle(color, feature, '#ffffff')}
+        opacity={resolveStyle(opacity, feature, 1)}
+        extrusionHeight={resolveStyle(extrusionHeight, feature, 0)}
+        baseHeight={resolveStyle(baseHeight, feature, 0)}
+        pointRadius={resolveStyle(pointRadius, feature, 2)}
+        {...handlers}
+      />
+    ))}
+  </group>
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { Coords } from "../api/coords";
+import { coordsToVector3 } from "../api/coords-to-vector-3";
+import { MapInstance } from "./generic-map";
+
+/** rebase distance, in meters, of `autoRebase={true}` */
+const DEFAULT_REBASE_DISTANCE = 1000;
+
+/** whether `center` is farther than `distance` meters from `origin`, along the ground */
+export function isRebaseNeeded(origin: Coords, center: Coords, distance: number): boolean {
+  const [x, , z] = coordsToVector3({ longitude: center.longitude, latitude: center.latitude }, origin);
+  return Math.hypot(x, z) > distance;
+}
+
+/**
+ * The Canvas origin: `coords`, or with `autoRebase` the map center
+ * each time it drifts farther than the rebase distance.
+ */
+export function useAutoRebase(
+  map: MapInstance | undefined,
+  { longitude, latitude }: Coords,
+  autoRebase: boolean | number = false,
+): Coords {
+  const [origin, setOrigin] = useState<Coords>({ longitude, latitude });
+
+  // the props set the origin again when they change
+  useEffect(() => {
+    setOrigin((o) => o.longitude === longitude && o.latitude === latitude ? o : { longitude, latitude });
+  }, [longitude, latitude]);
+
+  useEffect(() => {
+    if (!map || autoRebase === false) return;
+    const distance = autoRebase === true ? DEFAULT_REBASE_DISTANCE : autoRebase;
+    const onMove = () => {
+      const { lng, lat } = map.getCenter();
+      const center = { longitude: lng, latitude: lat };
+      setOrigin((o) => isRebaseNeeded(o, center, distance) ? center : o);
+    };
+    onMove();
+    map.on('move', onMove);
+    return () => map.off('move', onMove);
+  }, [map, autoRebase]);
+
+  return autoRebase === false ? { longitude, latitude } : origin;
+}
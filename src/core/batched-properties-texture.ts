@@ -0,0 +1,86 @@
+import { DataTexture, FloatType, RGBAFormat } from "three"
+
+interface PropertyField {
+  name: string
+  type: string
+  dim: number
+  comp: string
+}
+
+/**
+ * Float texture holding per-instance material properties of a `BatchedMesh`,
+ * one texel per property, so they can change without touching the geometry.
+ */
+export class BatchedPropertiesTexture extends DataTexture {
+
+  private fields: PropertyField[]
+
+  private fieldToIndex: Record<string, number>
+
+  /**
+   * @param params - GLSL type of each property, e.g. `{ diffuse: 'vec3', roughness: 'float' }`
+   * @param count - Max amount of instances
+   */
+  constructor(params: Record<string, string>, count: number) {
+    const fields = Object.entries(params)
+      .map(([name, type]) => ({ name, ...parseToInfo(type) }))
+      .sort((a, b) => a.dim - b.dim)
+    const width = fields.length
+    // square texture, with rows a multiple of `width` so an instance never wraps
+    let size = Math.sqrt(count * width)
+    size = Math.ceil(size / width) * width
+    size = Math.max(size, width)
+    const fieldToIndex: Record<string, number> = {}
+    for (let i = 0, l = fields.length; i < l; i++) {
+      fieldToIndex[fields[i].name] = i
+    }
+    super(new Float32Array(size * size * 4), size, size, RGBAFormat, FloatType)
+    this.fields = fields
+    this.fieldToIndex = fieldToIndex
+  }
+
+  /** set the value of property `name` for instance `id`, ignoring unknown properties */
+  setValue(id: number, name: string, ...values: number[]) {
+    const { fields, fieldToIndex, image } = this
+    const width = fields.length
+    if (!(name in fieldToIndex)) return
+    const fieldId = fieldToIndex[name]
+    const dim = fields[fieldId].dim
+    const data = image.data as Float32Array
+    const offset = id * width * 4 + fieldId * 4
+    for (let i = 0; i < dim; i++) data[offset + i] = values[i] || 0
+    this.needsUpdate = true
+  }
+
+  /** read back the value of property `name` for instance `id` */
+  getValue(id: number, name: string): number[] {
+    const { fields, fieldToIndex, image } = this
+    if (!(name in fieldToIndex)) return []
+    const fieldId = fieldToIndex[name]
+    const offset = id * fields.length * 4 + fieldId * 4
+    return Array.from((image.data as Float32Array).subarray(offset, offset + fields[fieldId].dim))
+  }
+
+  /** GLSL declaring every property as a local variable, read from the texture for instance `idField` */
+  getGlsl(idField = 'vBatchId', textureName = 'propertiesTex', indent = '') {
+    const { fields, image } = this
+    const size = image.width
+    const width = fields.length
+    let result =
+      `${indent}int size = ${size};\n` +
+      `${indent}int j = int( ${idField} ) * ${width};\n` +
+      `${indent}int x = j % size;\n` +
+      `${indent}int y = j / size;\n`
+    for (let i = 0, l = fields.length; i < l; i++) {
+      const { name, type, comp } = fields[i]
+      result += `${indent}${type} ${name} = ${type}( texelFetch( ${textureName}, ivec2( x + ${i}, y ), 0 ).${comp} );\n`
+    }
+    return result
+  }
+}
+
+function parseToInfo(type: string) {
+  const dim = parseFloat(type.replace(/[^1-4]/g, '')) || 1
+  const comp = 'rgba'.slice(0, dim)
+  return { type, dim, comp }
+}
@@ -10,25 +10,33 @@ const properties = {
   roughness: 'float'
 }
 
+/** property names of {@link BatchedStandardMaterial} */
+export type BatchedStandardProperty = keyof typeof properties
+
+/**
+ * `MeshStandardMaterial` for a `BatchedMesh` that reads `diffuse`, `emissive`,
+ * `metalness` and `roughness` per instance from a {@link BatchedPropertiesTexture}.
+ *
+ * The shader declares locals with the same names as the material uniforms, so the
+ * per-instance values shadow them in the standard fragment shader.
+ */
 export class BatchedStandardMaterial extends MeshStandardMaterial {
 
   private propertiesTex: BatchedPropertiesTexture
 
-  constructor(geometryCount: number) {
+  constructor(instanceCount: number) {
     super()
 
-    this.propertiesTex = new BatchedPropertiesTexture(properties, geometryCount)
+    this.propertiesTex = new BatchedPropertiesTexture(properties, instanceCount)
 
     this.onBeforeCompile = (parameters) => {
 
-      if (Object.keys(properties).length === 0) return
-
       parameters.uniforms.propertiesTex = { value: this.propertiesTex }
       parameters.vertexShader = parameters.vertexShader.replace(
         'void main() {',
         `varying float vBatchId;
          void main() {
-           vBatchId = batchId + 0.5;`
+           vBatchId = getIndirectIndex( gl_DrawID ) + 0.5;`
       )
 
       parameters.fragmentShader = parameters.fragmentShader.replace(
@@ -38,16 +46,20 @@ export class BatchedStandardMaterial extends MeshStandardMaterial {
          void main() {
            ${this.propertiesTex.getGlsl()}`
       )
-      
+
     }
   }
 
-  setValue(id: number, name: string, ...args: any[]) { // eslint-disable-line @typescript-eslint/no-explicit-any
-    this.propertiesTex.setValue(id, name, ...args)
+  setValue(instanceId: number, name: BatchedStandardProperty, ...values: number[]) {
+    this.propertiesTex.setValue(instanceId, name, ...values)
+  }
+
+  getValue(instanceId: number, name: BatchedStandardProperty): number[] {
+    return this.propertiesTex.getValue(instanceId, name)
   }
 
   dispose() {
     super.dispose()
     this.propertiesTex?.dispose()
   }
-}
\ No newline at end of file
+}
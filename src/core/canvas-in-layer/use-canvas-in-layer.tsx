@@ -5,7 +5,7 @@ import { useRender } from "./use-render";
 import { useRoot } from "./use-root";
 
 /** get all the properties that you need to render as a map `<Layer>` */
-export function useCanvasInLayer(props: CanvasProps,fromLngLat: FromLngLat, map: MapInstance) {
+export function useCanvasInLayer({ floatingOrigin, ...props }: CanvasProps,fromLngLat: FromLngLat, map: MapInstance) {
 
   const {latitude, longitude, altitude, frameloop } = props;
 
@@ -15,7 +15,7 @@ export function useCanvasInLayer(props: CanvasProps,fromLngLat: FromLngLat, map:
 
     const { onRemove, useThree, r3m } = useRoot(fromLngLat, map, props);
   
-    const render = useRender({origin, frameloop, useThree, map, r3m});
+    const render = useRender({origin, coords: {latitude, longitude, altitude}, frameloop, floatingOrigin, useThree, map, r3m});
   
     return {
       id: props.id,
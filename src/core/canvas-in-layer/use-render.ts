@@ -1,6 +1,9 @@
 import { _roots } from "@react-three/fiber";
-import { Matrix4Tuple, PerspectiveCamera } from "three";
+import { useState } from "react";
+import { Matrix4Tuple, PerspectiveCamera, Plane } from "three";
+import { Coords } from "../../api/coords";
 import { MapInstance } from "../generic-map";
+import { clipHorizon, readProjection, RenderArgs } from "../globe";
 import { syncCamera } from "../sync-camera";
 import { useFunction } from "../use-function";
 import { R3M } from "../use-r3m";
@@ -9,24 +12,31 @@ import { R3M } from "../use-r3m";
 type FiberStore = NonNullable<ReturnType<typeof _roots.get>>['store'];
 
 export function useRender({
-  map, origin, useThree, frameloop, r3m,
+  map, origin, coords, useThree, frameloop, floatingOrigin, r3m,
 } :{
   map: MapInstance,
   origin: Matrix4Tuple,
+  coords: Coords,
   useThree: FiberStore,
   frameloop?: 'always' | 'demand',
+  floatingOrigin?: boolean,
   r3m: R3M
 }) {
-  const render = useFunction((_gl: WebGL2RenderingContext, projViewMx: number[] | {defaultProjectionData: {mainMatrix: Record<string, number>}}) => {
-    const pVMx = 'defaultProjectionData' in projViewMx ? Object.values(projViewMx.defaultProjectionData.mainMatrix) : projViewMx;
-    r3m.viewProjMx.splice(0, 16, ...pVMx)
+  const [horizon] = useState(() => new Plane());
+  const render = useFunction((_gl: WebGL2RenderingContext, ...args: RenderArgs) => {
+    const { viewProjMx, globe } = readProjection(args);
+    r3m.viewProjMx.splice(0, 16, ...viewProjMx)
+    r3m.globe = globe;
+    r3m.floatingOrigin = floatingOrigin;
     const state = useThree.getState();
     const camera = state.camera as PerspectiveCamera;
     const {gl, advance} = state;
-    syncCamera(camera as PerspectiveCamera, origin, pVMx as Matrix4Tuple);
+    const globeOrigin = globe && { projection: globe, coords };
+    syncCamera(camera as PerspectiveCamera, origin, viewProjMx, globeOrigin, floatingOrigin);
+    clipHorizon(gl, horizon, camera, globeOrigin);
     gl.resetState();
     advance(Date.now() * 0.001, true);
     if (!frameloop || frameloop === 'always') map.triggerRepaint();
   })
   return render;
-}
\ No newline at end of file
+}
@@ -1,21 +1,21 @@
 import { Canvas } from "@react-three/fiber";
 import { memo, useState } from "react";
-import { Matrix4Tuple } from "three";
 import { CanvasProps } from "../../api/canvas-props";
 import { events } from "../events";
 import { FromLngLat, MapInstance } from "../generic-map";
+import { RenderArgs } from "../globe";
 import { useFunction } from "../use-function";
 import { InitR3M } from "./init-r3m";
 import { SyncCameraFC } from "./sync-camera-fc";
 
 interface CanvasPortalProps extends CanvasProps {
-  setOnRender: (callback: () => (mx: Matrix4Tuple) => void) => void,
+  setOnRender: (callback: () => (args: RenderArgs) => void) => void,
   map: MapInstance,
   fromLngLat: FromLngLat,
 }
 
 export const CanvasPortal = memo<CanvasPortalProps>(({
-  children, latitude, longitude, altitude,
+  children, latitude, longitude, altitude, floatingOrigin,
   setOnRender, map, fromLngLat, ...props
 }) => {
 
@@ -47,6 +47,7 @@ export const CanvasPortal = memo<CanvasPortalProps>(({
       altitude={altitude}
       setOnRender={setOnRender}
       onReady={onReady}
+      floatingOrigin={floatingOrigin}
       map={map}
       fromLngLat={fromLngLat}
     />
@@ -1,13 +1,13 @@
 import { memo, useEffect, useState } from "react";
 import { createPortal } from 'react-dom';
-import { Matrix4Tuple } from "three";
 import { CanvasProps } from "../../api/canvas-props";
 import { FromLngLat, MapInstance } from "../generic-map";
+import { RenderArgs } from "../globe";
 import { CanvasPortal } from "./canvas-portal";
 
 interface InitCanvasFCProps extends CanvasProps {
   map: MapInstance,
-  setOnRender: (callback: () => (mx: Matrix4Tuple) => void) => void,
+  setOnRender: (callback: () => (args: RenderArgs) => void) => void,
   frameloop?: 'always' | 'demand',
   fromLngLat: FromLngLat,
 }
@@ -1 +1,3 @@
-export type Render = (gl: WebGLRenderingContext, matrix: number[]) => void;
+import { RenderArgs } from "../globe";
+
+export type Render = (gl: WebGLRenderingContext, ...args: RenderArgs) => void;
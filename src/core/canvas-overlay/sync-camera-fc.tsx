@@ -1,25 +1,27 @@
 import { useFrame, useThree } from "@react-three/fiber";
-import { memo, useEffect, useLayoutEffect, useMemo, useRef } from "react";
-import { Matrix4Tuple, PerspectiveCamera } from "three";
+import { memo, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { PerspectiveCamera, Plane } from "three";
 import { Coords } from "../../api/coords";
 import { FromLngLat, MapInstance } from "../generic-map";
+import { clipHorizon, readProjection, RenderArgs } from "../globe";
 import { syncCamera } from "../sync-camera";
 import { useCoordsToMatrix } from "../use-coords-to-matrix";
 import { useFunction } from "../use-function";
 import { useR3M } from "../use-r3m";
 
 interface SyncCameraFCProps extends Coords {
-  setOnRender?: (callback: () => (mx: Matrix4Tuple) => void) => void,
+  setOnRender?: (callback: () => (args: RenderArgs) => void) => void,
   /** on `useFrame` it will manually render (used by `<Coordinates>`) */
   manualRender?: boolean,
   onReady?: () => void,
+  floatingOrigin?: boolean,
   map: MapInstance,
   fromLngLat: FromLngLat,
 }
 
 /** React Component (FC) to sync the Three camera with the map provider */
 export const SyncCameraFC = memo<SyncCameraFCProps>(({
-  latitude, longitude, altitude = 0, setOnRender, manualRender, onReady, map, fromLngLat
+  latitude, longitude, altitude = 0, setOnRender, manualRender, onReady, floatingOrigin, map, fromLngLat
 }) => {
 
   const mapCanvas = map.getCanvas();
@@ -43,6 +45,8 @@ export const SyncCameraFC = memo<SyncCameraFCProps>(({
     fromLngLat: r3m?.fromLngLat ?? fromLngLat,
   });
 
+  const [horizon] = useState(() => new Plane());
+
   const ready = useRef(false);
 
   const triggerRepaint = useMemo(() => map.triggerRepaint, [map]);
@@ -53,7 +57,9 @@ export const SyncCameraFC = memo<SyncCameraFCProps>(({
 
   useFrame(() => {
     if (!r3m) return;
-    syncCamera(camera, origin, r3m.viewProjMx)
+    const globe = r3m.globe && { projection: r3m.globe, coords: { latitude, longitude, altitude } };
+    syncCamera(camera, origin, r3m.viewProjMx, globe, floatingOrigin)
+    clipHorizon(gl, horizon, camera, globe);
 
     if (manualRender) gl.render(scene, camera);
 
@@ -64,7 +70,7 @@ export const SyncCameraFC = memo<SyncCameraFCProps>(({
     }
   }, -Infinity)
 
-  const onRender = useFunction((viewProjMx: Matrix4Tuple | {defaultProjectionData: {mainMatrix: Record<string, number>}}) => {
+  const onRender = useFunction((args: RenderArgs) => {
     if (!r3m) return;
     map.triggerRepaint = triggerRepaintOff;
 
@@ -78,8 +84,10 @@ export const SyncCameraFC = memo<SyncCameraFCProps>(({
       );
     }
 
-    const pVMx = 'defaultProjectionData' in viewProjMx ? Object.values(viewProjMx.defaultProjectionData.mainMatrix) : viewProjMx;
-    r3m.viewProjMx = pVMx as Matrix4Tuple;
+    const { viewProjMx, globe } = readProjection(args);
+    r3m.viewProjMx = viewProjMx;
+    r3m.globe = globe;
+    r3m.floatingOrigin = floatingOrigin;
     if (!ready.current && onReady) {
       ready.current = true;
       onReady();
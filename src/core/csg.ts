@@ -0,0 +1,320 @@
+import { Plane, Vector3 } from "three";
+import { weldVertices } from "./weld-vertices";
+
+/**
+ * Boolean operations on closed triangle meshes with BSP trees, after
+ * Evan Wallace's csg.js (MIT), plus the clean up needed for watertight output:
+ * welding, T-junction removal and triangulation of the convex pieces.
+ */
+
+/** distance under which a vertex lies on a splitting plane */
+const PLANE_EPSILON = 1e-5;
+
+const COPLANAR = 0;
+const FRONT = 1;
+const BACK = 2;
+const SPANNING = 3;
+
+export type CSGOperation = 'union' | 'intersection' | 'difference';
+
+/** a convex polygon, with the plane it was cut from */
+class CSGPolygon {
+  constructor(public vertices: Vector3[], public plane: Plane) { }
+
+  flip() {
+    this.vertices.reverse();
+    this.plane.negate();
+  }
+}
+
+function splitPolygon(
+  plane: Plane,
+  polygon: CSGPolygon,
+  coplanarFront: CSGPolygon[],
+  coplanarBack: CSGPolygon[],
+  front: CSGPolygon[],
+  back: CSGPolygon[]
+) {
+  let polygonType = 0;
+  const types = polygon.vertices.map((v) => {
+    const t = plane.distanceToPoint(v);
+    const type = t < -PLANE_EPSILON ? BACK : t > PLANE_EPSILON ? FRONT : COPLANAR;
+    polygonType |= type;
+    return type;
+  });
+
+  switch (polygonType) {
+    case COPLANAR:
+      (plane.normal.dot(polygon.plane.normal) > 0 ? coplanarFront : coplanarBack).push(polygon);
+      break;
+    case FRONT:
+      front.push(polygon);
+      break;
+    case BACK:
+      back.push(polygon);
+      break;
+    case SPANNING: {
+      const f: Vector3[] = [];
+      const b: Vector3[] = [];
+      const { vertices } = polygon;
+      for (let i = 0; i < vertices.length; i++) {
+        const j = (i + 1) % vertices.length;
+        const ti = types[i], tj = types[j];
+        const vi = vertices[i], vj = vertices[j];
+        if (ti !== BACK) f.push(vi);
+        if (ti !== FRONT) b.push(ti !== BACK ? vi.clone() : vi);
+        if ((ti | tj) === SPANNING) {
+          const t = -plane.distanceToPoint(vi) / plane.normal.dot(new Vector3().subVectors(vj, vi));
+          const v = vi.clone().lerp(vj, t);
+          f.push(v);
+          b.push(v.clone());
+        }
+      }
+      if (f.length >= 3) front.push(new CSGPolygon(f, polygon.plane.clone()));
+      if (b.length >= 3) back.push(new CSGPolygon(b, polygon.plane.clone()));
+      break;
+    }
+  }
+}
+
+class CSGNode {
+  plane?: Plane;
+  front?: CSGNode;
+  back?: CSGNode;
+  polygons: CSGPolygon[] = [];
+
+  constructor(polygons?: CSGPolygon[]) {
+    if (polygons) this.build(polygons);
+  }
+
+  invert() {
+    for (const polygon of this.polygons) polygon.flip();
+    this.plane?.negate();
+    this.front?.invert();
+    this.back?.invert();
+    [this.front, this.back] = [this.back, this.front];
+  }
+
+  /** removes the parts of `polygons` inside this tree */
+  clipPolygons(polygons: CSGPolygon[]): CSGPolygon[] {
+    if (!this.plane) return polygons.slice();
+    let front: CSGPolygon[] = [];
+    let back: CSGPolygon[] = [];
+    for (const polygon of polygons) splitPolygon(this.plane, polygon, front, back, front, back);
+    if (this.front) front = this.front.clipPolygons(front);
+    back = this.back ? this.back.clipPolygons(back) : [];
+    return front.concat(back);
+  }
+
+  /** removes the parts of this tree inside `bsp` */
+  clipTo(bsp: CSGNode) {
+    this.polygons = bsp.clipPolygons(this.polygons);
+    this.front?.clipTo(bsp);
+    this.back?.clipTo(bsp);
+  }
+
+  allPolygons(): CSGPolygon[] {
+    let polygons = this.polygons.slice();
+    if (this.front) polygons = polygons.concat(this.front.allPolygons());
+    if (this.back) polygons = polygons.concat(this.back.allPolygons());
+    return polygons;
+  }
+
+  build(polygons: CSGPolygon[]) {
+    if (polygons.length === 0) return;
+    if (!this.plane) this.plane = polygons[0].plane.clone();
+    const front: CSGPolygon[] = [];
+    const back: CSGPolygon[] = [];
+    for (const polygon of polygons) splitPolygon(this.plane, polygon, this.polygons, this.polygons, front, back);
+    if (front.length > 0) {
+      this.front ??= new CSGNode();
+      this.front.build(front);
+    }
+    if (back.length > 0) {
+      this.back ??= new CSGNode();
+      this.back.build(back);
+    }
+  }
+}
+
+function toPolygons(triangles: ArrayLike<number>): CSGPolygon[] {
+  const polygons: CSGPolygon[] = [];
+  for (let i = 0; i + 8 < triangles.length; i += 9) {
+    const a = new Vector3(triangles[i], triangles[i + 1], triangles[i + 2]);
+    const b = new Vector3(triangles[i + 3], triangles[i + 4], triangles[i + 5]);
+    const c = new Vector3(triangles[i + 6], triangles[i + 7], triangles[i + 8]);
+    const plane = new Plane().setFromCoplanarPoints(a, b, c);
+    // degenerate triangles have no plane
+    if (!Number.isFinite(plane.constant) || plane.normal.lengthSq() < 0.5) continue;
+    polygons.push(new CSGPolygon([a, b, c], plane));
+  }
+  return polygons;
+}
+
+/**
+ * Runs a boolean operation on two closed triangle soups, 9 numbers per triangle.
+ *
+ * @returns Positions and triangle indices of a welded mesh, where pieces cut
+ * from different faces share their vertices along every edge
+ */
+export function csg(
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+  operation: CSGOperation,
+  tolerance: number
+): { positions: number[]; indices: number[] } {
+  const nodeA = new CSGNode(toPolygons(a));
+  const nodeB = new CSGNode(toPolygons(b));
+
+  switch (operation) {
+    case 'union':
+      nodeA.clipTo(nodeB);
+      nodeB.clipTo(nodeA);
+      nodeB.invert();
+      nodeB.clipTo(nodeA);
+      nodeB.invert();
+      nodeA.build(nodeB.allPolygons());
+      break;
+    case 'difference':
+      nodeA.invert();
+      nodeA.clipTo(nodeB);
+      nodeB.clipTo(nodeA);
+      nodeB.invert();
+      nodeB.clipTo(nodeA);
+      nodeB.invert();
+      nodeA.build(nodeB.allPolygons());
+      nodeA.invert();
+      break;
+    case 'intersection':
+      nodeA.invert();
+      nodeB.clipTo(nodeA);
+      nodeB.invert();
+      nodeA.clipTo(nodeB);
+      nodeB.clipTo(nodeA);
+      nodeA.build(nodeB.allPolygons());
+      nodeA.invert();
+      break;
+  }
+
+  return polygonsToMesh(nodeA.allPolygons(), tolerance);
+}
+
+/** welds polygons, splits their edges at T-junctions and triangulates them */
+function polygonsToMesh(polygons: CSGPolygon[], tolerance: number): { positions: number[]; indices: number[] } {
+  const flat: number[] = [];
+  for (const polygon of polygons) {
+    for (const v of polygon.vertices) flat.push(v.x, v.y, v.z);
+  }
+  const { welded: positions, remap } = weldVertices(flat, tolerance);
+
+  let offset = 0;
+  let faces: number[][] = [];
+  for (const polygon of polygons) {
+    const face: number[] = [];
+    for (let i = 0; i < polygon.vertices.length; i++) {
+      const v = remap[offset + i];
+      if (face[face.length - 1] !== v) face.push(v);
+    }
+    offset += polygon.vertices.length;
+    if (face.length > 1 && face[0] === face[face.length - 1]) face.pop();
+    if (face.length >= 3) faces.push(face);
+  }
+
+  faces = splitTJunctions(faces, positions, tolerance);
+
+  const indices: number[] = [];
+  for (const face of faces) triangulateConvex(face, positions, tolerance, indices);
+  return { positions, indices };
+}
+
+/**
+ * Inserts into polygon edges the vertices lying on them. BSP splits leave
+ * vertices of a piece in the middle of its neighbor's edge, which is then not
+ * shared by exactly two faces.
+ */
+function splitTJunctions(faces: number[][], positions: number[], tolerance: number): number[][] {
+  const a = new Vector3(), b = new Vector3(), p = new Vector3(), ab = new Vector3();
+
+  for (let pass = 0; pass < 8; pass++) {
+    const edges = new Set<string>();
+    for (const face of faces) {
+      face.forEach((v, i) => edges.add(`${v}-${face[(i + 1) % face.length]}`));
+    }
+    // only edges without an opposite half need splitting, and only by their own vertices
+    const candidates = new Set<number>();
+    for (const face of faces) {
+      face.forEach((v, i) => {
+        const next = face[(i + 1) % face.length];
+        if (!edges.has(`${next}-${v}`)) {
+          candidates.add(v);
+          candidates.add(next);
+        }
+      });
+    }
+    if (candidates.size === 0) break;
+
+    let changed = false;
+    faces = faces.map((face) => {
+      const result: number[] = [];
+      face.forEach((v, i) => {
+        const next = face[(i + 1) % face.length];
+        result.push(v);
+        if (edges.has(`${next}-${v}`)) return;
+        a.fromArray(positions, v * 3);
+        b.fromArray(positions, next * 3);
+        ab.subVectors(b, a);
+        const lengthSq = ab.lengthSq();
+        const inserted: { t: number; vertex: number }[] = [];
+        for (const c of candidates) {
+          if (c === v || c === next) continue;
+          p.fromArray(positions, c * 3).sub(a);
+          const t = p.dot(ab) / lengthSq;
+          if (t <= 0 || t >= 1) continue;
+          if (p.distanceToSquared(ab.clone().multiplyScalar(t)) <= tolerance * tolerance) {
+            inserted.push({ t, vertex: c });
+          }
+        }
+        inserted.sort((x, y) => x.t - y.t);
+        for (const { vertex } of inserted) result.push(vertex);
+        if (inserted.length > 0) changed = true;
+      });
+      return result;
+    });
+    if (!changed) break;
+  }
+  return faces;
+}
+
+/**
+ * Fans a convex polygon into triangles without creating degenerate ones from
+ * vertices lying on its edges: from a vertex whose neighbors are both corners,
+ * or else from a new vertex at its center.
+ */
+function triangulateConvex(face: number[], positions: number[], tolerance: number, indices: number[]) {
+  const n = face.length;
+  const point = (i: number) => new Vector3().fromArray(positions, face[(i + n) % n] * 3);
+  const isCorner = (i: number) => {
+    const prev = point(i - 1), next = point(i + 1);
+    const base = next.clone().sub(prev);
+    const length = base.length();
+    return length > 0 && point(i).sub(prev).cross(base).length() / length > tolerance;
+  };
+
+  const corners = face.map((_, i) => isCorner(i));
+  if (corners.filter(Boolean).length < 3) return;
+
+  const apex = corners.every(Boolean) ? 0 : face.findIndex((_, i) => corners[(i - 1 + n) % n] && corners[(i + 1) % n]);
+  if (apex !== -1) {
+    for (let i = 1; i < n - 1; i++) {
+      indices.push(face[apex], face[(apex + i) % n], face[(apex + i + 1) % n]);
+    }
+    return;
+  }
+
+  const center = new Vector3();
+  for (let i = 0; i < n; i++) center.add(point(i));
+  center.divideScalar(n);
+  const c = positions.length / 3;
+  positions.push(center.x, center.y, center.z);
+  for (let i = 0; i < n; i++) indices.push(c, face[i], face[(i + 1) % n]);
+}
@@ -1,13 +1,35 @@
 import { Canvas, events as fiberEvents } from "@react-three/fiber";
-import { Matrix4, Vector3 } from "three";
+import { Camera, Matrix4, Raycaster, Vector2 } from "three";
 
 /** projection * view matrix inverted */
 const projViewInv = new Matrix4()
-const rayOrigin = new Vector3()
-const rayDirection = new Vector3()
 
 type Events = Parameters<typeof Canvas>[0]['events'];
 
+/** point `raycaster` from `camera` through `pointer`, in NDC, like pointer events do */
+export function setRayFromCamera(raycaster: Raycaster, pointer: Vector2, camera: Camera) {
+  if (camera.userData.projByViewInv) {
+    projViewInv.fromArray(camera.userData.projByViewInv);
+    const { origin, direction } = raycaster.ray;
+
+    // Custom raycasting for map projection
+    // Ray origin is the camera position (unprojected from NDC origin)
+    origin.set(0, 0, -1).applyMatrix4(projViewInv);
+
+    // Ray passes through the pointer position on the far plane
+    direction
+      .set(pointer.x, pointer.y, 1)
+      .applyMatrix4(projViewInv)
+      .sub(origin)
+      .normalize();
+
+    raycaster.camera = camera;
+  } else {
+    // Fallback to default raycaster setup
+    raycaster.setFromCamera(pointer, camera);
+  }
+}
+
 export const events: Events = (store) => {
   const originalEvents = fiberEvents(store);
   return {
@@ -21,28 +43,8 @@ export const events: Events = (store) => {
       state.pointer.x = (event.offsetX / state.size.width) * 2 - 1;
       state.pointer.y = 1 - (event.offsetY / state.size.height) * 2;
 
-      if (state.camera.userData.projByViewInv) {
-        projViewInv.fromArray(state.camera.userData.projByViewInv);
-        
-        // Custom raycasting for map projection
-        // Ray origin is the camera position (unprojected from NDC origin)
-        rayOrigin.set(0, 0, -1).applyMatrix4(projViewInv);
-        
-        // Ray passes through the pointer position on the far plane
-        rayDirection
-          .set(state.pointer.x, state.pointer.y, 1)
-          .applyMatrix4(projViewInv)
-          .sub(rayOrigin)
-          .normalize();
-        
-        state.raycaster.camera = state.camera;
-        state.raycaster.ray.origin.copy(rayOrigin);
-        state.raycaster.ray.direction.copy(rayDirection);
-      } else {
-        // Fallback to default raycaster setup
-        state.raycaster.setFromCamera(state.pointer, state.camera);
-      }
+      setRayFromCamera(state.raycaster, state.pointer, state.camera);
 
     },
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,42 @@
+import { BufferGeometry } from "three";
+import { Coords } from "../api/coords";
+import { extrudeFootprint, ExtrudeFootprintOptions } from "../api/extrude-footprint";
+
+/** footprint fields read by {@link extrudeFootprints} */
+export interface FootprintInput extends ExtrudeFootprintOptions {
+  ring: Coords[];
+  holes?: Coords[][];
+}
+
+/** geometries of the footprints that could be extruded */
+export interface ExtrudedFootprints {
+  geometries: BufferGeometry[];
+  /** footprint index of every geometry */
+  footprintAt: number[];
+}
+
+/**
+ * Extrudes every footprint with {@link extrudeFootprint}, skipping the ones that throw,
+ * like outlines with fewer than 3 coordinates or heights not above `minHeight`,
+ * so one bad footprint doesn't take down the whole batch.
+ *
+ * @param onInvalid - called with each skipped footprint and the error it threw
+ */
+export function extrudeFootprints<F extends FootprintInput>(
+  footprints: F[],
+  origin: Coords,
+  onInvalid?: (footprint: F, error: Error) => void,
+): ExtrudedFootprints {
+  const geometries: BufferGeometry[] = [];
+  const footprintAt: number[] = [];
+  footprints.forEach((footprint, i) => {
+    const { ring, holes = [], ...options } = footprint;
+    try {
+      geometries.push(extrudeFootprint(ring, holes, options, origin));
+      footprintAt.push(i);
+    } catch (error) {
+      onInvalid?.(footprint, error instanceof Error ? error : new Error(String(error)));
+    }
+  });
+  return { geometries, footprintAt };
+}
@@ -40,15 +40,37 @@ export interface MapInstance {
 	/** MapLibre only */
 	getPixelRatio?: ()=>number;
 	triggerRepaint(): void;
+	getCenter(): { lng: number; lat: number };
+	/** Elevation of the terrain in meters, exaggeration included, `null` without terrain or before it loads */
+	queryTerrainElevation?(lngLat: LngLatLike): number | null | undefined;
+	getTerrain?(): { source: string } | null | undefined;
+	dragPan?: MapHandler;
+	dragRotate?: MapHandler;
+	doubleClickZoom?: MapHandler;
+	boxZoom?: MapHandler;
+	touchZoomRotate?: MapHandler;
+	touchPitch?: MapHandler;
 	// eslint-disable-next-line @typescript-eslint/ban-types
 	on<T extends keyof MapEventType>(type: T, listener: (ev: MapEventType[T] & Object) => void): void;
 	// eslint-disable-next-line @typescript-eslint/ban-types
 	off<T extends keyof MapEventType>(type: T, listener: (ev: MapEventType[T] & Object) => void): void;
 }
 
+/** Generic interface of Mapbox/Maplibre interaction handlers, like `map.dragPan` */
+export interface MapHandler {
+	isEnabled(): boolean;
+	enable(): void;
+	disable(): void;
+}
+
 /** Generic interface of Mapbox/Maplibre `MapEventType` */
 export type MapEventType = {
 	resize: MapEvent;
+	move: MapEvent;
+	sourcedata: MapSourceDataEvent;
+	styledata: MapEvent;
+	/** MapLibre only, fired by `setTerrain` */
+	terrain: MapEvent;
 };
 
 /** Generic interface of `MapLibreEvent` or `MapBoxEvent` */
@@ -56,4 +78,10 @@ export interface MapEvent<TOrig = unknown> {
 	type: string;
 	target: MapInstance;
 	originalEvent: TOrig;
-}
\ No newline at end of file
+}
+
+/** Generic interface of `MapSourceDataEvent` */
+export interface MapSourceDataEvent extends MapEvent {
+	dataType: string;
+	sourceId?: string;
+}
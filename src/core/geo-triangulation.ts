@@ -0,0 +1,187 @@
+import { BufferGeometry, Float32BufferAttribute, MathUtils, Vector3 } from "three";
+// three ships Earcut internally; use it for triangulating polygon faces with >3 vertices
+import { Earcut } from "three/src/extras/Earcut.js";
+import { Coords } from "../api/coords";
+import { coordsToVector3 } from "../api/coords-to-vector-3";
+import type { GeoTriangle, GeoVertex } from "../api/polyhedral-surface";
+import { earthRadius } from "./earth-radius";
+
+export const RING_CLOSURE_TOLERANCE = 1e-9;
+export const MIN_AREA_TOLERANCE = 1e-12;
+
+type EarcutFn = (vertices: number[], holes?: number[], dimensions?: number) => number[];
+const earcut: EarcutFn = Earcut.triangulate.bind(Earcut);
+
+export function isFiniteNumber(value: number): boolean {
+  return Number.isFinite(value) && !Number.isNaN(value);
+}
+
+export function verticesEqual(a: GeoVertex, b: GeoVertex, tolerance = RING_CLOSURE_TOLERANCE): boolean {
+  return (
+    Math.abs(a.longitude - b.longitude) <= tolerance &&
+    Math.abs(a.latitude - b.latitude) <= tolerance &&
+    Math.abs(a.altitude - b.altitude) <= tolerance
+  );
+}
+
+export function assertFiniteVertex(v: GeoVertex): void {
+  if (!isFiniteNumber(v.longitude) || !isFiniteNumber(v.latitude) || !isFiniteNumber(v.altitude)) {
+    throw new Error("Encountered non-finite coordinate when building GeoVertex.");
+  }
+}
+
+/**
+ * check that a ring has at least 3 vertices plus the closing one,
+ * and return it without the closing vertex
+ */
+export function openRing(vertices: GeoVertex[]): GeoVertex[] {
+  if (vertices.length < 4) {
+    throw new Error(
+      "Each polygon must have at least 4 coordinates (3 vertices + closing point)."
+    );
+  }
+  if (!verticesEqual(vertices[0], vertices[vertices.length - 1])) {
+    throw new Error(
+      "Invalid polygon ring: first and last coordinates must match to close the ring."
+    );
+  }
+  const open = vertices.slice(0, -1);
+  open.forEach(assertFiniteVertex);
+  return open;
+}
+
+export function buildPlaneBasis(vertices: Vector3[]): { origin: Vector3; u: Vector3; v: Vector3; normal: Vector3 } {
+  const origin = vertices[0].clone();
+
+  let normal = new Vector3();
+  for (let i = 1; i < vertices.length - 1; i++) {
+    const ab = vertices[i].clone().sub(origin);
+    for (let j = i + 1; j < vertices.length; j++) {
+      const ac = vertices[j].clone().sub(origin);
+      normal = ab.clone().cross(ac);
+      if (normal.lengthSq() > MIN_AREA_TOLERANCE) {
+        break;
+      }
+    }
+    if (normal.lengthSq() > MIN_AREA_TOLERANCE) {
+      break;
+    }
+  }
+
+  if (normal.lengthSq() <= MIN_AREA_TOLERANCE) {
+    throw new Error("Cannot triangulate polygon: vertices are collinear or degenerate.");
+  }
+
+  const normalizedNormal = normal.normalize();
+  const helperAxis = Math.abs(normalizedNormal.x) < 0.9 ? new Vector3(1, 0, 0) : new Vector3(0, 1, 0);
+  const u = new Vector3().crossVectors(normalizedNormal, helperAxis).normalize();
+  const v = new Vector3().crossVectors(normalizedNormal, u).normalize();
+
+  return { origin, u, v, normal: normalizedNormal };
+}
+
+const METERS_PER_DEGREE = earthRadius * MathUtils.DEG2RAD;
+
+/** maps the vertices of a face to the space its triangulation and area checks run in */
+export type FaceProjection = (ref: GeoVertex) => (v: GeoVertex) => Vector3;
+
+/**
+ * local meters around `ref`, so areas don't mix degrees and meters:
+ * a few meters wide horizontal face would otherwise look degenerate
+ */
+export const localProjection: FaceProjection = (ref) => {
+  const lonScale = METERS_PER_DEGREE * Math.cos(ref.latitude * MathUtils.DEG2RAD);
+  return (v: GeoVertex) => new Vector3(
+    (v.longitude - ref.longitude) * lonScale,
+    (v.latitude - ref.latitude) * METERS_PER_DEGREE,
+    v.altitude - ref.altitude,
+  );
+};
+
+/**
+ * raw `(longitude, latitude, altitude)`, as `parsePolyhedralSurfaceWKT` always did:
+ * keeps which small faces it accepts or rejects as degenerate
+ */
+export const degreesProjection: FaceProjection = () => (v) => new Vector3(v.longitude, v.latitude, v.altitude);
+
+/**
+ * Triangulates a planar polygon face given as open rings: the outline followed by its holes.
+ * The plane is fitted on the outline, holes are projected onto it.
+ *
+ * @param project - space of the degenerate checks, local meters by default
+ */
+export function triangulatePolygon(rings: GeoVertex[][], project = localProjection): GeoTriangle[] {
+  const [outline, ...holes] = rings;
+  if (!outline || outline.length < 3) {
+    throw new Error("Cannot triangulate polygon face: fewer than 3 vertices.");
+  }
+
+  const toVector = project(outline[0]);
+
+  // Already a triangle
+  if (outline.length === 3 && holes.length === 0) {
+    const a = toVector(outline[0]);
+    const b = toVector(outline[1]);
+    const c = toVector(outline[2]);
+    const area = b.clone().sub(a).cross(c.clone().sub(a)).lengthSq();
+    if (area <= MIN_AREA_TOLERANCE) {
+      throw new Error("Cannot triangulate polygon face: triangle is degenerate.");
+    }
+    return [{ v0: outline[0], v1: outline[1], v2: outline[2] }];
+  }
+
+  const { origin, u, v } = buildPlaneBasis(outline.map(toVector));
+
+  const vertices: GeoVertex[] = [];
+  const projected: number[] = [];
+  const holeIndices: number[] = [];
+  for (const ring of rings) {
+    if (ring !== outline) holeIndices.push(vertices.length);
+    for (const vertex of ring) {
+      const relative = toVector(vertex).sub(origin);
+      projected.push(relative.dot(u), relative.dot(v));
+      vertices.push(vertex);
+    }
+  }
+
+  const indices = earcut(projected, holeIndices.length > 0 ? holeIndices : undefined, 2);
+  if (!indices || indices.length === 0 || indices.length % 3 !== 0) {
+    throw new Error("Failed to triangulate polygon face with Earcut.");
+  }
+
+  const triangles: GeoTriangle[] = [];
+  for (let i = 0; i < indices.length; i += 3) {
+    triangles.push({
+      v0: vertices[indices[i]],
+      v1: vertices[indices[i + 1]],
+      v2: vertices[indices[i + 2]],
+    });
+  }
+
+  return triangles;
+}
+
+/** non-indexed BufferGeometry with normals from triangles, relative to origin */
+export function geoTrianglesToGeometry(triangles: GeoTriangle[], origin: Coords): BufferGeometry {
+  const positions: number[] = [];
+
+  for (const tri of triangles) {
+    assertFiniteVertex(tri.v0);
+    assertFiniteVertex(tri.v1);
+    assertFiniteVertex(tri.v2);
+
+    const p0 = coordsToVector3(tri.v0, origin);
+    const p1 = coordsToVector3(tri.v1, origin);
+    const p2 = coordsToVector3(tri.v2, origin);
+
+    positions.push(p0[0], p0[1], p0[2]);
+    positions.push(p1[0], p1[1], p1[2]);
+    positions.push(p2[0], p2[1], p2[2]);
+  }
+
+  const geometry = new BufferGeometry();
+  geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+
+  return geometry;
+}
@@ -0,0 +1,39 @@
+import { BufferGeometry } from "three";
+
+/**
+ * Triangles of a geometry, 9 numbers each, with indexed geometries unrolled.
+ */
+export function geometryToTriangles(geometry: BufferGeometry): Float32Array {
+  const positionAttr = geometry.getAttribute("position");
+  if (!positionAttr) {
+    throw new Error(
+      "BufferGeometry must have a 'position' attribute for polyhedral operations. " +
+      "Ensure the geometry is properly initialized."
+    );
+  }
+  if (positionAttr.itemSize !== 3) {
+    throw new Error(
+      `Expected position attribute itemSize of 3, received ${positionAttr.itemSize}. ` +
+      "BufferGeometry must contain 3D positions."
+    );
+  }
+
+  const index = geometry.getIndex();
+  const count = index ? index.count : positionAttr.count;
+  if (count % 3 !== 0) {
+    throw new Error(
+      index
+        ? "Indexed BufferGeometry must have indices in multiples of 3."
+        : "Non-indexed BufferGeometry must have 3 vertices per triangle."
+    );
+  }
+
+  const triangles = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const v = index ? index.getX(i) : i;
+    triangles[i * 3] = positionAttr.getX(v);
+    triangles[i * 3 + 1] = positionAttr.getY(v);
+    triangles[i * 3 + 2] = positionAttr.getZ(v);
+  }
+  return triangles;
+}
@@ -0,0 +1,167 @@
+import { Camera, Matrix4, Matrix4Tuple, Plane, Vector3, WebGLRenderer } from "three";
+import { Coords } from "../api/coords";
+import { earthRadius } from "./earth-radius";
+
+/** Space in which a map provider draws the globe */
+export interface GlobeSpace {
+  /** radius of the globe, in globe units */
+  radius: number;
+  /** `1` when +Y points to the north pole, `-1` when it points to the south pole */
+  northY: 1 | -1;
+}
+
+/** MapLibre draws a unit sphere */
+export const maplibreGlobeSpace: GlobeSpace = { radius: 1, northY: 1 };
+
+/** Mapbox draws an ECEF sphere sized to the tile extent, south pole up */
+export const mapboxGlobeSpace: GlobeSpace = { radius: 8192 / Math.PI / 2, northY: -1 };
+
+/** Globe projection of the current frame */
+export interface GlobeProjection {
+  space: GlobeSpace;
+  /** projects globe space to clip space */
+  viewProjMx: Matrix4Tuple;
+  /** blend between the mercator (`0`) and globe (`1`) projections */
+  transition: number;
+}
+
+/** A scene origin, while the map shows the globe */
+export interface GlobeOrigin {
+  projection: GlobeProjection;
+  coords: Coords;
+}
+
+/** Projection of the current frame, as read from the custom layer `render` arguments */
+export interface MapProjection {
+  /** projects mercator coordinates to clip space */
+  viewProjMx: Matrix4Tuple;
+  /** `undefined` when the map is flat */
+  globe?: GlobeProjection;
+}
+
+type ProjectionMatrix = ArrayLike<number> | Record<string, number>;
+
+/** MapLibre v5 `CustomRenderMethodInput` */
+export interface MaplibreRenderInput {
+  defaultProjectionData: {
+    mainMatrix: ProjectionMatrix;
+    fallbackMatrix?: ProjectionMatrix;
+    projectionTransition?: number;
+  };
+}
+
+/**
+ * Arguments of a custom layer `render`, after `gl`.
+ * MapLibre passes its projection data, Mapbox a mercator matrix and, on the globe,
+ * the globe to mercator matrix and the transition towards mercator.
+ */
+export type RenderArgs = [
+  matrix: ArrayLike<number> | MaplibreRenderInput,
+  projection?: unknown,
+  projectionToMercatorMatrix?: ArrayLike<number>,
+  projectionToMercatorTransition?: number,
+  ...rest: unknown[],
+];
+
+const toTuple = (m: ProjectionMatrix) => Object.values(m) as Matrix4Tuple;
+
+const mx = new Matrix4();
+const mx2 = new Matrix4();
+
+/** read the map projection from the custom layer `render` arguments */
+export function readProjection([matrix, , projectionToMercatorMatrix, projectionToMercatorTransition]: RenderArgs): MapProjection {
+  if ('defaultProjectionData' in matrix) {
+    const { mainMatrix, fallbackMatrix, projectionTransition = 0 } = matrix.defaultProjectionData;
+    if (!(projectionTransition > 0) || !fallbackMatrix) return { viewProjMx: toTuple(mainMatrix) };
+    return {
+      viewProjMx: toTuple(fallbackMatrix),
+      globe: { space: maplibreGlobeSpace, viewProjMx: toTuple(mainMatrix), transition: projectionTransition },
+    };
+  }
+
+  const viewProjMx = toTuple(matrix);
+  if (!projectionToMercatorMatrix || projectionToMercatorTransition === undefined || projectionToMercatorTransition >= 1) {
+    return { viewProjMx };
+  }
+  const globeViewProjMx = mx.fromArray(viewProjMx)
+    .multiply(mx2.fromArray(toTuple(projectionToMercatorMatrix)))
+    .toArray();
+  return {
+    viewProjMx,
+    globe: { space: mapboxGlobeSpace, viewProjMx: globeViewProjMx, transition: 1 - Math.max(0, projectionToMercatorTransition) },
+  };
+}
+
+const globeMx = new Matrix4();
+const rotation = new Matrix4();
+
+/**
+ * calculate the Matrix4 from local meters (X east, Y up, Z south) at `coords` to globe space,
+ * the globe counterpart of {@link coordsToMatrix}
+ */
+export function globeCoordsToMatrix({ longitude, latitude, altitude = 0 }: Coords, { radius, northY }: GlobeSpace): Matrix4Tuple {
+  const scale = radius / earthRadius;
+  return globeMx
+    .makeScale(1, northY, 1)
+    .multiply(rotation.makeRotationY(longitude * Math.PI / 180))
+    .multiply(rotation.makeRotationX(-latitude * Math.PI / 180))
+    .multiply(rotation.makeTranslation(0, 0, radius + altitude * scale))
+    .multiply(rotation.makeRotationX(Math.PI / 2))
+    .multiply(rotation.makeScale(scale, scale, scale))
+    .toArray();
+}
+
+/**
+ * Blends the mercator projection of a scene, `projByView`, with its globe projection,
+ * the way the map blends its own tiles at mid zooms. Mutates `projByView`.
+ */
+export function blendGlobeProjection(projByView: Matrix4, { projection, coords }: GlobeOrigin): Matrix4 {
+  const { transition, viewProjMx, space } = projection;
+  const globe = mx2.fromArray(viewProjMx).multiply(mx.fromArray(globeCoordsToMatrix(coords, space)));
+  const m = projByView.elements;
+  const g = globe.elements;
+  for (let i = 0; i < 16; i++) m[i] += (g[i] - m[i]) * transition;
+  return projByView;
+}
+
+const toCamera = new Vector3();
+
+/**
+ * Sets `plane` to the horizon seen from `cameraPosition`, in local meters at an origin
+ * `altitude` meters above sea level. Points on its negative side are behind the planet.
+ *
+ * @returns `false` when the camera is inside the planet and there is no horizon
+ */
+export function updateHorizonPlane(plane: Plane, cameraPosition: Vector3, altitude = 0): boolean {
+  // the center of the planet is straight down from the origin
+  const centerY = -(earthRadius + altitude);
+  toCamera.set(cameraPosition.x, cameraPosition.y - centerY, cameraPosition.z);
+  const distance = toCamera.length();
+  if (!(distance > earthRadius)) return false;
+  toCamera.divideScalar(distance);
+  // the horizon circle lies at `earthRadius² / distance` from the center, towards the camera
+  plane.set(toCamera, -toCamera.y * centerY - earthRadius * earthRadius / distance);
+  return true;
+}
+
+/** like the map, only clip the back of the planet once the globe is taking shape */
+const HORIZON_TRANSITION = 0.2;
+
+const horizonPlanes = new WeakSet<Plane>();
+
+/**
+ * Clips what lies behind the planet, as seen from `camera`, by swapping the horizon
+ * plane in `gl.clippingPlanes`; clipping planes set by the user are kept.
+ * Stops clipping when the map is flat. Call it after {@link syncCamera}.
+ */
+export function clipHorizon(gl: WebGLRenderer, plane: Plane, camera: Camera, globe?: GlobeOrigin) {
+  const clip = !!globe && globe.projection.transition > HORIZON_TRANSITION &&
+    updateHorizonPlane(plane, camera.position, globe.coords.altitude);
+  const planes = gl.clippingPlanes.filter(p => !horizonPlanes.has(p));
+  if (clip) {
+    horizonPlanes.add(plane);
+    planes.push(plane);
+  }
+  if (planes.length === 0 && gl.clippingPlanes.length === 0) return;
+  gl.clippingPlanes = planes;
+}
@@ -0,0 +1,59 @@
+import { MapHandler, MapInstance } from "./generic-map";
+
+/** handlers that move the map when dragging or clicking over a gizmo */
+const LOCKED_HANDLERS = [
+  'dragPan', 'dragRotate', 'doubleClickZoom', 'boxZoom', 'touchZoomRotate', 'touchPitch',
+] as const;
+
+interface Lock {
+  count: number;
+  /** handlers that were enabled before the first lock */
+  disabled: MapHandler[];
+}
+
+const locks = new WeakMap<MapInstance, Lock>();
+
+/**
+ * Disables the interaction handlers of `map` that are enabled, until every lock is released.
+ * Handlers that were already disabled stay disabled.
+ *
+ * @returns releases this lock, only once
+ */
+export function lockMapInteractions(map: MapInstance): () => void {
+  const lock = locks.get(map) ?? createLock(map);
+  lock.count++;
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    if (--lock.count > 0) return;
+    locks.delete(map);
+    lock.disabled.forEach((handler) => handler.enable());
+  };
+}
+
+function createLock(map: MapInstance): Lock {
+  const disabled = LOCKED_HANDLERS
+    .map((name) => map[name])
+    .filter((handler): handler is MapHandler => !!handler?.isEnabled());
+  disabled.forEach((handler) => handler.disable());
+  const lock = { count: 0, disabled };
+  locks.set(map, lock);
+  return lock;
+}
+
+/**
+ * Swallows the `click` that follows the current pointer release, so ending a drag
+ * doesn't also click through to the map or to objects under the pointer.
+ * Call it while handling `pointerup`.
+ */
+export function suppressNextClick(target: Window = window) {
+  const onClick = (e: Event) => {
+    e.stopPropagation();
+    e.preventDefault();
+  };
+  target.addEventListener('click', onClick, { capture: true, once: true });
+  // the click is dispatched right after pointerup, drop the listener if none came
+  setTimeout(() => target.removeEventListener('click', onClick, { capture: true }), 0);
+}
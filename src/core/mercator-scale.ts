@@ -0,0 +1,52 @@
+import { MathUtils } from "three";
+
+const mercatorScaleLookup: { [key: number]: number } = {};
+
+export function getMercatorScale(lat: number): number {
+  const index = Math.round(lat * 1000);
+  if (mercatorScaleLookup[index] === undefined) {
+    mercatorScaleLookup[index] = 1 / Math.cos(lat * MathUtils.DEG2RAD);
+  }
+  return mercatorScaleLookup[index];
+}
+
+/**
+ * Calculates the average Mercator scale factor between two latitudes.
+ *
+ * This is a numerical approximation of the scale integrated by `originMercatorZ`,
+ * which `coordsToVector3` now evaluates in closed form.
+ *
+ * @param originLat - The origin latitude in degrees
+ * @param pointLat - The target point latitude in degrees
+ * @param steps - Number of steps for numerical integration
+ * @returns The average Mercator scale factor
+ *
+ * @internal
+ */
+export function averageMercatorScale(originLat: number, pointLat: number, steps = 10): number {
+  let totalScale = 0;
+  const latStep = (pointLat - originLat) / steps;
+  for (let i = 0; i <= steps; i++) {
+    const lat = originLat + latStep * i;
+    totalScale += getMercatorScale(lat);
+  }
+  return totalScale / (steps + 1);
+}
+
+/**
+ * Mercator Y of `latitude` on the unit sphere, `ln(tan(π/4 + φ/2))`.
+ *
+ * @internal
+ */
+export function mercatorY(latitude: number): number {
+  return Math.log(Math.tan(Math.PI / 4 + latitude * MathUtils.DEG2RAD / 2));
+}
+
+/**
+ * Inverse of {@link mercatorY}, in degrees.
+ *
+ * @internal
+ */
+export function mercatorYToLatitude(y: number): number {
+  return (2 * Math.atan(Math.exp(y)) - Math.PI / 2) * MathUtils.RAD2DEG;
+}
@@ -0,0 +1,67 @@
+import { MathUtils } from "three";
+import { Coords } from "../api/coords";
+import { earthRadius } from "./earth-radius";
+import { mercatorY, mercatorYToLatitude } from "./mercator-scale";
+import { createEnuFrame, EnuFrame } from "./wgs84";
+
+/** max amount of origins kept in cache */
+const MAX_FRAMES = 32;
+
+/**
+ * Per-origin values shared by every coordinate conversion relative to that origin.
+ *
+ * Frames are plain data with no DOM dependencies, so they work inside Web Workers.
+ */
+export interface OriginFrame {
+  longitude: number;
+  latitude: number;
+  altitude: number;
+  /** meters per radian of longitude at the origin latitude, also meters per unit of Mercator Y */
+  metersPerRadianLon: number;
+  /** Mercator Y of the origin latitude on the unit sphere */
+  mercatorY: number;
+  /** lazily created WGS84 ENU frame */
+  enu?: EnuFrame;
+}
+
+const frames = new Map<string, OriginFrame>();
+
+/** get the cached frame for `origin`, creating it if needed */
+export function getOriginFrame(origin: Coords): OriginFrame {
+  const altitude = origin.altitude || 0;
+  const key = `${origin.longitude},${origin.latitude},${altitude}`;
+  let frame = frames.get(key);
+  if (frame) return frame;
+  if (frames.size >= MAX_FRAMES) {
+    // evict the oldest origin
+    frames.delete(frames.keys().next().value as string);
+  }
+  frame = {
+    longitude: origin.longitude,
+    latitude: origin.latitude,
+    altitude,
+    metersPerRadianLon: earthRadius * Math.cos(origin.latitude * MathUtils.DEG2RAD),
+    mercatorY: mercatorY(origin.latitude),
+  };
+  frames.set(key, frame);
+  return frame;
+}
+
+/** WGS84 ENU frame at the origin */
+export function originEnuFrame(frame: OriginFrame): EnuFrame {
+  if (!frame.enu) frame.enu = createEnuFrame(frame.longitude, frame.latitude, frame.altitude);
+  return frame.enu;
+}
+
+/**
+ * Distance in meters along the Z axis (pointing South) from the origin to `latitude`,
+ * as used by the `"mercator"` model: the Mercator Y difference scaled to meters at the origin.
+ */
+export function originMercatorZ(frame: OriginFrame, latitude: number): number {
+  return -frame.metersPerRadianLon * (mercatorY(latitude) - frame.mercatorY);
+}
+
+/** latitude at the Z offset `z` from the origin, the exact inverse of {@link originMercatorZ} */
+export function originMercatorLatitude(frame: OriginFrame, z: number): number {
+  return mercatorYToLatitude(frame.mercatorY - z / frame.metersPerRadianLon);
+}
@@ -0,0 +1,85 @@
+import { Euler, MathUtils, Object3D, Quaternion, Raycaster, Vector3 } from "three";
+import { Coords } from "../api/coords";
+import { coordsToVector3 } from "../api/coords-to-vector-3";
+import { vector3ToCoords } from "../api/vector-3-to-coords";
+
+/** `[min, max]` range, inclusive */
+export type AxisRange = [min: number, max: number];
+
+/** one optional {@link AxisRange} per axis, `[x, y, z]` */
+export type AxisRanges = [AxisRange | undefined, AxisRange | undefined, AxisRange | undefined];
+
+/**
+ * What a translated position snaps to, after the axis increments:
+ * - `'terrain'`: the map terrain surface, vertically
+ * - `{ objects }`: the top of these objects, vertically, positions over nothing are kept
+ * - `{ grid }`: a longitude / latitude grid, spaced `grid` degrees, horizontally
+ */
+export type PivotSnapTarget = 'terrain' | { objects: Object3D[] } | { grid: number };
+
+/** same rotation order as the heading, pitch and roll of a `GeoTransform` */
+const EULER_ORDER = 'YXZ';
+/** height above the position rays are cast down from */
+const RAYCAST_HEIGHT = 1e5;
+
+const _euler = new Euler();
+const _down = new Vector3(0, -1, 0);
+const _raycaster = new Raycaster();
+
+/** rounds `value` to a multiple of `step`, steps of `0` or less don't snap */
+export function snapIncrement(value: number, step = 0): number {
+  if (!(step > 0)) return value;
+  return Math.round(value / step) * step;
+}
+
+/** clamps each component of `position` to its range, in place */
+export function clampToRanges(position: Vector3, ranges?: AxisRanges): Vector3 {
+  ranges?.forEach((range, axis) => {
+    if (range) position.setComponent(axis, MathUtils.clamp(position.getComponent(axis), range[0], range[1]));
+  });
+  return position;
+}
+
+/**
+ * Clamps the euler angles of `rotation`, in degrees around X, Y and Z in the `'YXZ'`
+ * order, in place. Untouched when no angle is out of range.
+ */
+export function clampRotation(rotation: Quaternion, rangesDeg?: AxisRanges): Quaternion {
+  if (!rangesDeg) return rotation;
+  _euler.setFromQuaternion(rotation, EULER_ORDER);
+  let clamped = false;
+  rangesDeg.forEach((range, axis) => {
+    if (!range) return;
+    const key = axis === 0 ? 'x' : axis === 1 ? 'y' : 'z';
+    const angle = MathUtils.clamp(_euler[key], range[0] * MathUtils.DEG2RAD, range[1] * MathUtils.DEG2RAD);
+    if (angle === _euler[key]) return;
+    _euler[key] = angle;
+    clamped = true;
+  });
+  return clamped ? rotation.setFromEuler(_euler) : rotation;
+}
+
+/** moves `position` to the nearest node of a `grid` degrees longitude / latitude grid, in place */
+export function snapToLonLatGrid(position: Vector3, origin: Coords, grid: number): Vector3 {
+  if (!(grid > 0)) return position;
+  const { longitude, latitude } = vector3ToCoords(position.toArray(), origin);
+  const [x, , z] = coordsToVector3({
+    longitude: snapIncrement(longitude, grid),
+    latitude: snapIncrement(latitude, grid),
+  }, origin);
+  return position.set(x, position.y, z);
+}
+
+/**
+ * Moves `position` down or up onto the highest point of `objects` under it, in place.
+ * `position` and `objects` share the same world space.
+ *
+ * @returns whether something was hit
+ */
+export function dropOnObjects(position: Vector3, objects: Object3D[]): boolean {
+  _raycaster.set(position.clone().setY(position.y + RAYCAST_HEIGHT), _down);
+  const [hit] = _raycaster.intersectObjects(objects, true);
+  if (!hit) return false;
+  position.y = hit.point.y;
+  return true;
+}
@@ -0,0 +1,31 @@
+/** A scene waiting to be rendered this frame, see {@link queueScene} */
+export interface QueuedScene {
+  /** scenes render in ascending order */
+  renderOrder: number;
+  /** meters from the camera to the scene origin, farther scenes render first on ties */
+  distance: number;
+  render(): void;
+}
+
+const queues = new WeakMap<object, QueuedScene[]>();
+
+/** Queue a scene for {@link renderQueuedScenes}, once per frame */
+export function queueScene(renderer: object, scene: QueuedScene) {
+  let queue = queues.get(renderer);
+  if (!queue) queues.set(renderer, queue = []);
+  queue.push(scene);
+}
+
+const byOrderThenFarthest = (a: QueuedScene, b: QueuedScene) =>
+  a.renderOrder - b.renderOrder || b.distance - a.distance;
+
+/**
+ * Renders the scenes queued on `renderer` this frame, sorted like three sorts
+ * transparent objects: by `renderOrder`, then back to front. Empties the queue.
+ */
+export function renderQueuedScenes(renderer: object) {
+  const queue = queues.get(renderer);
+  if (!queue?.length) return;
+  const scenes = queue.splice(0).sort(byOrderThenFarthest);
+  for (const scene of scenes) scene.render();
+}
@@ -1,4 +1,5 @@
-import { Matrix4, Matrix4Tuple, Object3D, PerspectiveCamera, Vector3 } from "three";
+import { Matrix4, Matrix4Tuple, Object3D, PerspectiveCamera, Vector3, Vector4 } from "three";
+import { blendGlobeProjection, GlobeOrigin } from "./globe";
 
 const originMx = new Matrix4();
 
@@ -11,20 +12,33 @@ const projByViewInv = new Matrix4();
 const fwd = new Vector3();
 
 
-export function syncCamera(camera: PerspectiveCamera, origin: Matrix4Tuple, mapCamMx: Matrix4Tuple) {
+/**
+ * @param globe - where the origin is on the globe, while the map shows it
+ * @param floatingOrigin - render relative to the camera, see the `floatingOrigin` prop of `Canvas`
+ */
+export function syncCamera(
+  camera: PerspectiveCamera,
+  origin: Matrix4Tuple,
+  mapCamMx: Matrix4Tuple,
+  globe?: GlobeOrigin,
+  floatingOrigin = false,
+) {
 
   projByView
     .fromArray(mapCamMx)
     .multiply(originMx.fromArray(origin));
+  if (globe) blendGlobeProjection(projByView, globe);
   projByViewInv
     .copy(projByView)
     .invert();
 
-  updateCamera(camera, projByViewInv);
-  camera.updateMatrix();
-  camera.updateMatrixWorld(true);  
+  if (!floatingOrigin || !updateCameraAtEye(camera, projByView, projByViewInv)) {
+    updateCamera(camera, projByViewInv);
+    camera.updateMatrix();
+    camera.updateMatrixWorld(true);  
 
-  camera.projectionMatrix.copy(camera.matrix).premultiply(projByView);
+    camera.projectionMatrix.copy(camera.matrix).premultiply(projByView);
+  }
   camera.projectionMatrixInverse.copy(camera.projectionMatrix).invert();
 
   camera.far = calculateFar(
@@ -57,6 +71,55 @@ const updateCamera = (target: Object3D, projByViewInv: Matrix4) => {
 
 }
 
+/** homogeneous eye position */
+const eye = new Vector4();
+/** projection * view matrix, relative to the eye */
+const fromEye = new Matrix4();
+const fromEyeInv = new Matrix4();
+const rotation = new Matrix4();
+const center = new Vector3();
+const right = new Vector3();
+const up = new Vector3();
+const back = new Vector3();
+
+/**
+ * Puts the camera exactly at the eye, with a rotation only view, and hands three a projection
+ * composed relative to the eye, all in float64. Three then derives camera relative model view
+ * matrices, so only small values reach the float32 GPU matrices.
+ *
+ * @returns `false` when the projection has no eye, e.g. orthographic
+ */
+const updateCameraAtEye = (camera: PerspectiveCamera, projByView: Matrix4, projByViewInv: Matrix4) => {
+
+  // every view ray starts at the eye, the only point projected to `w = 0`
+  eye.set(0, 0, 1, 0).applyMatrix4(projByViewInv);
+  if (Math.abs(eye.w) < Number.EPSILON) return false;
+  camera.position.set(eye.x / eye.w, eye.y / eye.w, eye.z / eye.w);
+  if (!Number.isFinite(camera.position.lengthSq())) return false;
+
+  fromEye
+    .copy(projByView)
+    .multiply(rotation.makeTranslation(camera.position));
+  fromEyeInv
+    .copy(fromEye)
+    .invert();
+
+  // screen center and screen up, relative to the eye
+  center.set(0, 0, 0).applyMatrix4(fromEyeInv);
+  up.set(0, 1, 0).applyMatrix4(fromEyeInv).sub(center);
+  back.copy(center).negate().normalize();
+  right.crossVectors(up, back).normalize();
+  up.crossVectors(back, right);
+
+  rotation.makeBasis(right, up, back);
+  camera.quaternion.setFromRotationMatrix(rotation);
+  camera.updateMatrix();
+  camera.updateMatrixWorld(true);
+
+  camera.projectionMatrix.multiplyMatrices(fromEye, rotation);
+  return true;
+}
+
 function calculateFar(c: number, d: number, near: number): number {
   const numerator = d * (c - 1);
   const denominator = c * near + near;
@@ -0,0 +1,75 @@
+import { useEffect, useMemo, useState } from "react";
+import type { AltitudeReference } from "../api/coordinates";
+import { Coords } from "../api/coords";
+import { MapInstance, MapSourceDataEvent } from "./generic-map";
+
+/**
+ * Elevation of the terrain under `coords`, as rendered by the map, exaggeration included.
+ * `0` without terrain, or before its tiles load.
+ */
+export function getTerrainElevation(map: MapInstance | undefined, { longitude, latitude }: Coords): number {
+  const elevation = map?.queryTerrainElevation?.([longitude, latitude]);
+  return typeof elevation === 'number' && Number.isFinite(elevation) ? elevation : 0;
+}
+
+/** altitude above sea level of `coords`, measured from `altitudeReference` */
+export function resolveAltitude(
+  map: MapInstance | undefined,
+  { altitude = 0, altitudeReference = 'sea', ...coords }: Coords & { altitudeReference?: AltitudeReference }
+): number {
+  switch (altitudeReference) {
+    case 'terrain':
+      return getTerrainElevation(map, coords);
+    case 'relative-to-terrain':
+      return getTerrainElevation(map, coords) + altitude;
+    default:
+      return altitude;
+  }
+}
+
+/** whether `e` loaded tiles of the map terrain, the only source data that moves the ground */
+export function isTerrainSourceData(map: MapInstance, e: MapSourceDataEvent): boolean {
+  const source = map.getTerrain?.()?.source;
+  return !!source && e.sourceId === source;
+}
+
+/**
+ * A counter bumped whenever the terrain may have changed: terrain set or removed,
+ * or DEM tiles loaded. Use it as a dependency to sample the terrain again.
+ *
+ * @param enabled - Whether to listen, so components at sea level don't re-render on every tile
+ */
+export function useTerrainRevision(map: MapInstance | undefined, enabled = true): number {
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    if (!map || !enabled) return;
+    const bump = () => setRevision((r) => r + 1);
+    const onSourceData = (e: MapSourceDataEvent) => {
+      // without terrain, or for tiles of other sources, the ground doesn't move
+      if (isTerrainSourceData(map, e)) bump();
+    };
+    map.on('sourcedata', onSourceData);
+    map.on('styledata', bump);
+    map.on('terrain', bump);
+    return () => {
+      map.off('sourcedata', onSourceData);
+      map.off('styledata', bump);
+      map.off('terrain', bump);
+    };
+  }, [map, enabled]);
+
+  return revision;
+}
+
+/** {@link resolveAltitude}, sampled again as the terrain loads */
+export function useResolvedAltitude(
+  map: MapInstance | undefined,
+  { longitude, latitude, altitude, altitudeReference = 'sea' }: Coords & { altitudeReference?: AltitudeReference }
+): number {
+  const revision = useTerrainRevision(map, altitudeReference !== 'sea');
+  return useMemo(
+    () => resolveAltitude(map, { longitude, latitude, altitude, altitudeReference }),
+    [map, longitude, latitude, altitude, altitudeReference, revision] // eslint-disable-line react-hooks/exhaustive-deps
+  );
+}
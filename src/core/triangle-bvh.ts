@@ -0,0 +1,221 @@
+import { Box3, Triangle, Vector3 } from "three";
+
+/** max triangles per leaf */
+const LEAF_SIZE = 4;
+/** set on the second node word of leaves */
+const LEAF_FLAG = 0x80000000;
+/** barycentric margin under which a hit is too close to an edge to be trusted */
+const EDGE_EPSILON = 1e-7;
+
+/**
+ * Called for every triangle a ray crosses, `distance` along the ray.
+ * `onEdge` is set when the ray passes through, or very near, an edge or vertex,
+ * where it may be counted twice or missed.
+ */
+export type RayHitCallback = (triangle: number, distance: number, onEdge: boolean) => void;
+
+const _triangle = new Triangle();
+const _closest = new Vector3();
+
+/**
+ * Bounding volume hierarchy over a triangle soup, for ray and nearest point queries
+ * in O(log n) instead of looping over every triangle.
+ *
+ * Nodes are stored depth first in typed arrays: the left child of an inner node
+ * directly follows it, the index of its right child is stored in the node.
+ */
+export class TriangleBVH {
+  /** 9 numbers per triangle */
+  readonly positions: Float32Array;
+  readonly triangleCount: number;
+  readonly boundingBox = new Box3();
+
+  /** triangle indices, grouped by leaf */
+  private order: Uint32Array;
+  /** min xyz, max xyz per node */
+  private nodeBounds: Float32Array;
+  /** inner: right child, 0; leaf: first triangle in `order`, count | LEAF_FLAG */
+  private nodes: Uint32Array;
+
+  constructor(positions: Float32Array) {
+    if (positions.length % 9 !== 0) {
+      throw new Error("Triangle positions length must be a multiple of 9.");
+    }
+    this.positions = positions;
+    this.triangleCount = positions.length / 9;
+    this.order = new Uint32Array(this.triangleCount);
+    for (let i = 0; i < this.triangleCount; i++) this.order[i] = i;
+
+    const centroids = new Float32Array(this.triangleCount * 3);
+    for (let t = 0; t < this.triangleCount; t++) {
+      for (let axis = 0; axis < 3; axis++) {
+        const o = t * 9 + axis;
+        centroids[t * 3 + axis] = (positions[o] + positions[o + 3] + positions[o + 6]) / 3;
+      }
+    }
+
+    const bounds: number[] = [];
+    const nodes: number[] = [];
+    if (this.triangleCount > 0) this.build(0, this.triangleCount, centroids, bounds, nodes);
+    this.nodeBounds = new Float32Array(bounds);
+    this.nodes = new Uint32Array(nodes);
+    if (this.triangleCount > 0) {
+      this.boundingBox.min.fromArray(this.nodeBounds, 0);
+      this.boundingBox.max.fromArray(this.nodeBounds, 3);
+    }
+  }
+
+  private build(start: number, end: number, centroids: Float32Array, bounds: number[], nodes: number[]): number {
+    const node = nodes.length / 2;
+    const { positions, order } = this;
+
+    const box = [Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity];
+    const centroidBox = [Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity];
+    for (let i = start; i < end; i++) {
+      const t = order[i];
+      for (let axis = 0; axis < 3; axis++) {
+        for (let v = 0; v < 3; v++) {
+          const value = positions[t * 9 + v * 3 + axis];
+          if (value < box[axis]) box[axis] = value;
+          if (value > box[axis + 3]) box[axis + 3] = value;
+        }
+        const c = centroids[t * 3 + axis];
+        if (c < centroidBox[axis]) centroidBox[axis] = c;
+        if (c > centroidBox[axis + 3]) centroidBox[axis + 3] = c;
+      }
+    }
+    bounds.push(...box);
+    nodes.push(0, 0);
+
+    let axis = 0;
+    for (let a = 1; a < 3; a++) {
+      if (centroidBox[a + 3] - centroidBox[a] > centroidBox[axis + 3] - centroidBox[axis]) axis = a;
+    }
+    if (end - start <= LEAF_SIZE || centroidBox[axis + 3] === centroidBox[axis]) {
+      nodes[node * 2] = start;
+      nodes[node * 2 + 1] = (end - start) | LEAF_FLAG;
+      return node;
+    }
+
+    // split at the median centroid along the longest axis
+    order.subarray(start, end).sort((a, b) => centroids[a * 3 + axis] - centroids[b * 3 + axis]);
+    const middle = (start + end) >> 1;
+    this.build(start, middle, centroids, bounds, nodes);
+    nodes[node * 2] = this.build(middle, end, centroids, bounds, nodes);
+    return node;
+  }
+
+  /**
+   * Calls `onHit` for every triangle crossed by the ray from `origin` along `direction`,
+   * at a distance greater than `minDistance`. Back faces are included.
+   */
+  raycast(origin: Vector3, direction: Vector3, onHit: RayHitCallback, minDistance = 0): void {
+    if (this.triangleCount === 0) return;
+    const { nodes, nodeBounds, order, positions } = this;
+    const ox = origin.x, oy = origin.y, oz = origin.z;
+    const dx = direction.x, dy = direction.y, dz = direction.z;
+    const ix = 1 / dx, iy = 1 / dy, iz = 1 / dz;
+
+    const stack = [0];
+    while (stack.length > 0) {
+      const node = stack.pop() as number;
+      const b = node * 6;
+
+      // slab test
+      let t0 = (nodeBounds[b] - ox) * ix, t1 = (nodeBounds[b + 3] - ox) * ix;
+      let tmin = Math.min(t0, t1), tmax = Math.max(t0, t1);
+      t0 = (nodeBounds[b + 1] - oy) * iy; t1 = (nodeBounds[b + 4] - oy) * iy;
+      tmin = Math.max(tmin, Math.min(t0, t1)); tmax = Math.min(tmax, Math.max(t0, t1));
+      t0 = (nodeBounds[b + 2] - oz) * iz; t1 = (nodeBounds[b + 5] - oz) * iz;
+      tmin = Math.max(tmin, Math.min(t0, t1)); tmax = Math.min(tmax, Math.max(t0, t1));
+      if (tmax < Math.max(tmin, minDistance)) continue;
+
+      const info = nodes[node * 2 + 1];
+      if (!(info & LEAF_FLAG)) {
+        stack.push(nodes[node * 2], node + 1);
+        continue;
+      }
+
+      const first = nodes[node * 2];
+      const count = info & ~LEAF_FLAG;
+      for (let i = first; i < first + count; i++) {
+        const t = order[i];
+        const p = t * 9;
+        // Möller–Trumbore
+        const e1x = positions[p + 3] - positions[p], e1y = positions[p + 4] - positions[p + 1], e1z = positions[p + 5] - positions[p + 2];
+        const e2x = positions[p + 6] - positions[p], e2y = positions[p + 7] - positions[p + 1], e2z = positions[p + 8] - positions[p + 2];
+        const px = dy * e2z - dz * e2y, py = dz * e2x - dx * e2z, pz = dx * e2y - dy * e2x;
+        const det = e1x * px + e1y * py + e1z * pz;
+        // parallel to the triangle plane
+        if (Math.abs(det) < 1e-12 * Math.sqrt((e1x * e1x + e1y * e1y + e1z * e1z) * (e2x * e2x + e2y * e2y + e2z * e2z))) continue;
+        const inv = 1 / det;
+        const sx = ox - positions[p], sy = oy - positions[p + 1], sz = oz - positions[p + 2];
+        const u = (sx * px + sy * py + sz * pz) * inv;
+        if (u < -EDGE_EPSILON || u > 1 + EDGE_EPSILON) continue;
+        const qx = sy * e1z - sz * e1y, qy = sz * e1x - sx * e1z, qz = sx * e1y - sy * e1x;
+        const v = (dx * qx + dy * qy + dz * qz) * inv;
+        if (v < -EDGE_EPSILON || u + v > 1 + EDGE_EPSILON) continue;
+        const distance = (e2x * qx + e2y * qy + e2z * qz) * inv;
+        if (distance <= minDistance) continue;
+        const onEdge = u < EDGE_EPSILON || v < EDGE_EPSILON || u + v > 1 - EDGE_EPSILON;
+        onHit(t, distance, onEdge);
+      }
+    }
+  }
+
+  /**
+   * Nearest point of the surface to `point`, searching up to `maxDistance`.
+   *
+   * @returns The index of the closest triangle, with `target` set to the closest point,
+   * or `-1` if no triangle is within `maxDistance`
+   */
+  closestPoint(point: Vector3, target: Vector3, maxDistance = Infinity): number {
+    if (this.triangleCount === 0) return -1;
+    const { nodes, nodeBounds, order, positions } = this;
+    let bestSq = maxDistance * maxDistance;
+    let best = -1;
+
+    const boxDistanceSq = (node: number) => {
+      const b = node * 6;
+      let d = 0;
+      for (let axis = 0; axis < 3; axis++) {
+        const value = point.getComponent(axis);
+        const delta = Math.max(nodeBounds[b + axis] - value, 0, value - nodeBounds[b + axis + 3]);
+        d += delta * delta;
+      }
+      return d;
+    };
+
+    const stack = [0];
+    while (stack.length > 0) {
+      const node = stack.pop() as number;
+      if (boxDistanceSq(node) > bestSq) continue;
+
+      const info = nodes[node * 2 + 1];
+      if (!(info & LEAF_FLAG)) {
+        const left = node + 1, right = nodes[node * 2];
+        // visit the nearest child first, it tightens the bound sooner
+        if (boxDistanceSq(left) < boxDistanceSq(right)) stack.push(right, left);
+        else stack.push(left, right);
+        continue;
+      }
+
+      const first = nodes[node * 2];
+      const count = info & ~LEAF_FLAG;
+      for (let i = first; i < first + count; i++) {
+        const t = order[i];
+        _triangle.a.fromArray(positions, t * 9);
+        _triangle.b.fromArray(positions, t * 9 + 3);
+        _triangle.c.fromArray(positions, t * 9 + 6);
+        _triangle.closestPointToPoint(point, _closest);
+        const d = _closest.distanceToSquared(point);
+        if (d <= bestSq) {
+          bestSq = d;
+          best = t;
+          target.copy(_closest);
+        }
+      }
+    }
+    return best;
+  }
+}
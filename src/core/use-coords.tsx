@@ -1,5 +1,5 @@
 import { _roots, useThree } from "@react-three/fiber";
-import { useEffect } from "react";
+import { useLayoutEffect } from "react";
 import { Coords } from "../api/coords";
 
 // Use the store type from @react-three/fiber's internal _roots to avoid zustand version mismatch
@@ -13,7 +13,8 @@ export function useCoords() {
 export function useSetCoords({longitude, latitude, altitude}: Coords) {
   
   const canvas = useThree(s => s.gl.domElement);
-  useEffect(() => {
+  // layout effect, so useOrigin listeners run before the next frame renders
+  useLayoutEffect(() => {
     const root = _roots.get(canvas);
     if (!root) return;
     const coords: Coords = { longitude, latitude, altitude };
@@ -24,7 +25,7 @@ export function useSetCoords({longitude, latitude, altitude}: Coords) {
 export function useSetRootCoords(store: FiberStore, {
   longitude, latitude, altitude
 }: Coords) {
-  useEffect(() => {
+  useLayoutEffect(() => {
     setCoords(store, { longitude, latitude, altitude });
   }, [store, longitude, latitude, altitude]);
 }
@@ -2,6 +2,7 @@ import { _roots, useThree } from "@react-three/fiber";
 import { useEffect } from "react";
 import { Matrix4, Matrix4Tuple } from "three";
 import { FromLngLat, MapInstance } from "./generic-map";
+import { GlobeProjection } from "./globe";
 
 // Use the store type from @react-three/fiber's internal _roots to avoid zustand version mismatch
 type FiberStore = NonNullable<ReturnType<typeof _roots.get>>['store'];
@@ -11,6 +12,10 @@ export interface R3M<T extends MapInstance = MapInstance> {
   map: T,
   /** view projection matrix coming from the map provider */
   viewProjMx: Matrix4Tuple,
+  /** globe projection coming from the map provider, `undefined` while the map is flat */
+  globe?: GlobeProjection,
+  /** render relative to the camera, see the `floatingOrigin` prop of `Canvas` */
+  floatingOrigin?: boolean,
   fromLngLat: FromLngLat,
 }
 
@@ -43,3 +48,13 @@ export function initR3M<T extends MapInstance>({store, ...props}: {
   store.setState({r3m} as any); // eslint-disable-line @typescript-eslint/no-explicit-any
   return r3m;
 }
+
+/** maps of every mounted react-three-map Canvas, without duplicates */
+export function getCanvasMaps(): MapInstance[] {
+  const maps = new Set<MapInstance>();
+  _roots.forEach(({ store }) => {
+    const r3m = (store.getState() as unknown as { r3m?: R3M }).r3m;
+    if (r3m?.map) maps.add(r3m.map);
+  });
+  return [...maps];
+}
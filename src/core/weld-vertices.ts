@@ -0,0 +1,44 @@
+/**
+ * Merges vertices closer than `tolerance`, using a grid of tolerance sized cells.
+ *
+ * @param positions - x, y, z triplets
+ * @returns The merged positions, and the merged vertex of every input vertex
+ */
+export function weldVertices(positions: ArrayLike<number>, tolerance: number): { welded: number[]; remap: Uint32Array } {
+  const welded: number[] = [];
+  const remap = new Uint32Array(positions.length / 3);
+  const cells = new Map<string, number[]>();
+  const toleranceSq = tolerance * tolerance;
+
+  for (let v = 0; v < remap.length; v++) {
+    const x = positions[v * 3], y = positions[v * 3 + 1], z = positions[v * 3 + 2];
+    const cx = Math.floor(x / tolerance), cy = Math.floor(y / tolerance), cz = Math.floor(z / tolerance);
+
+    let match = -1;
+    search: for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          for (const id of cells.get(`${cx + dx},${cy + dy},${cz + dz}`) ?? []) {
+            const ex = welded[id * 3] - x, ey = welded[id * 3 + 1] - y, ez = welded[id * 3 + 2] - z;
+            if (ex * ex + ey * ey + ez * ez <= toleranceSq) {
+              match = id;
+              break search;
+            }
+          }
+        }
+      }
+    }
+
+    if (match === -1) {
+      match = welded.length / 3;
+      welded.push(x, y, z);
+      const key = `${cx},${cy},${cz}`;
+      const cell = cells.get(key);
+      if (cell) cell.push(match);
+      else cells.set(key, [match]);
+    }
+    remap[v] = match;
+  }
+
+  return { welded, remap };
+}
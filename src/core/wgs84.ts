@@ -0,0 +1,116 @@
+import { MathUtils } from "three";
+
+/** WGS84 semi-major axis in meters */
+export const WGS84_A = 6378137;
+/** WGS84 flattening */
+export const WGS84_F = 1 / 298.257223563;
+/** WGS84 first eccentricity squared */
+export const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+
+/** local East-North-Up frame anchored at a geodetic origin */
+export interface EnuFrame {
+  /** origin in ECEF meters */
+  x: number;
+  y: number;
+  z: number;
+  sinLat: number;
+  cosLat: number;
+  sinLon: number;
+  cosLon: number;
+}
+
+/** geodetic (degrees, ellipsoidal height in meters) to ECEF, written into `out` at `offset` */
+export function geodeticToEcef(
+  longitude: number, latitude: number, height: number,
+  out: number[] | Float64Array = [0, 0, 0], offset = 0,
+) {
+  const lat = latitude * MathUtils.DEG2RAD;
+  const lon = longitude * MathUtils.DEG2RAD;
+  const sinLat = Math.sin(lat);
+  const cosLat = Math.cos(lat);
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+  out[offset] = (n + height) * cosLat * Math.cos(lon);
+  out[offset + 1] = (n + height) * cosLat * Math.sin(lon);
+  out[offset + 2] = (n * (1 - WGS84_E2) + height) * sinLat;
+  return out;
+}
+
+/**
+ * ECEF to geodetic `[longitude, latitude, height]`, written into `out` at `offset`.
+ *
+ * Iterates the latitude until it converges below double precision,
+ * which keeps heights exact to well under a millimetre anywhere on Earth.
+ */
+export function ecefToGeodetic(
+  x: number, y: number, z: number,
+  out: number[] | Float64Array = [0, 0, 0], offset = 0,
+) {
+  const p = Math.hypot(x, y);
+  const lon = Math.atan2(y, x);
+  let lat = Math.atan2(z, p * (1 - WGS84_E2));
+  let height = 0;
+  for (let i = 0; i < 16; i++) {
+    const sinLat = Math.sin(lat);
+    const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+    // stable at the poles, unlike `p / cos(lat) - n`
+    height = p * Math.cos(lat) + z * sinLat - WGS84_A * WGS84_A / n;
+    const next = Math.atan2(z, p * (1 - WGS84_E2 * n / (n + height)));
+    const done = Math.abs(next - lat) < 1e-15;
+    lat = next;
+    if (done) break;
+  }
+  out[offset] = lon * MathUtils.RAD2DEG;
+  out[offset + 1] = lat * MathUtils.RAD2DEG;
+  out[offset + 2] = height;
+  return out;
+}
+
+/** create the ENU frame for a geodetic origin */
+export function createEnuFrame(longitude: number, latitude: number, height: number): EnuFrame {
+  const lat = latitude * MathUtils.DEG2RAD;
+  const lon = longitude * MathUtils.DEG2RAD;
+  const [x, y, z] = geodeticToEcef(longitude, latitude, height);
+  return {
+    x, y, z,
+    sinLat: Math.sin(lat),
+    cosLat: Math.cos(lat),
+    sinLon: Math.sin(lon),
+    cosLon: Math.cos(lon),
+  };
+}
+
+/**
+ * ECEF to the Three.js axes of an ENU frame (X east, Y up, Z south),
+ * written into `out` at `offset`.
+ */
+export function ecefToEnu(
+  frame: EnuFrame, x: number, y: number, z: number,
+  out: number[] | Float32Array | Float64Array = [0, 0, 0], offset = 0,
+) {
+  const dx = x - frame.x;
+  const dy = y - frame.y;
+  const dz = z - frame.z;
+  const { sinLat, cosLat, sinLon, cosLon } = frame;
+  const east = -sinLon * dx + cosLon * dy;
+  const north = -sinLat * cosLon * dx - sinLat * sinLon * dy + cosLat * dz;
+  const up = cosLat * cosLon * dx + cosLat * sinLon * dy + sinLat * dz;
+  out[offset] = east;
+  out[offset + 1] = up;
+  out[offset + 2] = -north;
+  return out;
+}
+
+/** Three.js axes of an ENU frame (X east, Y up, Z south) to ECEF, written into `out` at `offset` */
+export function enuToEcef(
+  frame: EnuFrame, px: number, py: number, pz: number,
+  out: number[] | Float64Array = [0, 0, 0], offset = 0,
+) {
+  const east = px;
+  const up = py;
+  const north = -pz;
+  const { sinLat, cosLat, sinLon, cosLon } = frame;
+  out[offset] = frame.x - sinLon * east - sinLat * cosLon * north + cosLat * cosLon * up;
+  out[offset + 1] = frame.y + cosLon * east - sinLat * sinLon * north + cosLat * sinLon * up;
+  out[offset + 2] = frame.z + cosLat * north + sinLat * up;
+  return out;
+}
@@ -39,6 +39,14 @@ export { EnhancedPivotControls } from './components/enhanced-pivot-controls';
 export type { PivotControlsProps } from './components/enhanced-pivot-controls';
 export { Compass3D } from './components/compass-3d';
 export type { Compass3DProps } from './components/compass-3d';
+export { BatchedFootprints } from './components/batched-footprints';
+export type {
+  BatchedFootprint, BatchedFootprintsEvent, BatchedFootprintsProps, BatchedFootprintStyle,
+} from './components/batched-footprints';
+export { GeoJSONLayer } from './components/geojson-layer';
+export type { GeoJSONLayerProps, GeoJSONLayerEvent, GeoJSONStyle } from './components/geojson-layer';
+export { GeofencePrism } from './components/geofence-prism';
+export type { GeofencePrismProps } from './components/geofence-prism';
 export { CompassOverlay } from './maplibre/compass-overlay';
 export type { CompassOverlayProps } from './maplibre/compass-overlay';
 
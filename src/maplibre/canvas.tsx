@@ -4,12 +4,14 @@ import { MercatorCoordinate } from "maplibre-gl";
 import { memo, useState } from "react";
 import { Layer, useMap } from "react-map-gl/maplibre";
 import * as THREE from "three";
-import { Matrix4Tuple } from "three";
 import { CanvasProps } from "../api/canvas-props";
 import { useCanvasInLayer } from "../core/canvas-in-layer/use-canvas-in-layer";
 import { InitCanvasFC } from "../core/canvas-overlay/init-canvas-fc";
 import { Render } from "../core/canvas-overlay/render";
 import { MapInstance } from "../core/generic-map";
+import { RenderArgs } from "../core/globe";
+import { useAutoRebase } from "../core/auto-rebase";
+import { useResolvedAltitude } from "../core/terrain-altitude";
 import { useFunction } from "../core/use-function";
 
 extend(THREE);
@@ -57,20 +59,22 @@ const fromLngLat = MercatorCoordinate.fromLngLat
  * @see {@link Coordinates} for placing objects at different locations
  * @see {@link useMap} for accessing the MapLibre map instance
  */
-export const Canvas = memo<CanvasProps>(({ overlay, ...props }) => {
+export const Canvas = memo<CanvasProps>(({ overlay, altitudeReference, autoRebase, ...props }) => {
 
   const mapRef = useMap();
+  const map = mapRef.current?.getMap();
 
-  if (!mapRef.current) {
+  const { longitude, latitude } = useAutoRebase(map, props, autoRebase);
+  const altitude = useResolvedAltitude(map, { longitude, latitude, altitude: props.altitude, altitudeReference });
+
+  if (!map) {
     console.error('Canvas must be used within a Map component from react-map-gl');
     return null;
   }
 
-  const map = mapRef.current.getMap();
-
   return <>
-    {overlay && <CanvasOverlay map={map} {...props} />}
-    {!overlay && <CanvasInLayer map={map} {...props} />}
+    {overlay && <CanvasOverlay map={map} {...props} longitude={longitude} latitude={latitude} altitude={altitude} />}
+    {!overlay && <CanvasInLayer map={map} {...props} longitude={longitude} latitude={latitude} altitude={altitude} />}
   </>
 })
 Canvas.displayName = 'Canvas'
@@ -87,11 +91,11 @@ const CanvasInLayer = memo<CanvasPropsAndMap>(({ map, ...props }) => {
 CanvasInLayer.displayName = 'CanvasInLayer';
 
 const CanvasOverlay = memo<CanvasPropsAndMap>(({ map, id, beforeId, ...props }) => {
-  const [onRender, setOnRender] = useState<(mx: Matrix4Tuple) => void>();
+  const [onRender, setOnRender] = useState<(args: RenderArgs) => void>();
 
-  const render = useFunction<Render>((_gl, mx) => {
+  const render = useFunction<Render>((_gl, ...args) => {
     if (!onRender) return;
-    onRender(mx as Matrix4Tuple);
+    onRender(args);
   })
 
   return <>
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { BatchedPropertiesTexture } from "../core/batched-properties-texture";
+
+describe("BatchedPropertiesTexture", () => {
+  const properties = { diffuse: 'vec3', roughness: 'float', offset: 'vec2' };
+
+  it("lays out one texel per property with whole instances per row", () => {
+    const texture = new BatchedPropertiesTexture(properties, 10);
+    const { width, height } = texture.image;
+    expect(width).toBe(height);
+    expect(width % 3).toBe(0);
+    expect(width * height).toBeGreaterThanOrEqual(10 * 3);
+  });
+
+  it("stores and reads back values per instance", () => {
+    const texture = new BatchedPropertiesTexture(properties, 100);
+    texture.setValue(42, 'diffuse', 0.1, 0.2, 0.3);
+    texture.setValue(42, 'roughness', 0.5);
+    texture.setValue(43, 'offset', 1, 2);
+    expect(texture.getValue(42, 'diffuse').map((v) => +v.toFixed(5))).toEqual([0.1, 0.2, 0.3]);
+    expect(texture.getValue(42, 'roughness')).toEqual([0.5]);
+    expect(texture.getValue(43, 'offset')).toEqual([1, 2]);
+    expect(texture.getValue(43, 'diffuse')).toEqual([0, 0, 0]);
+  });
+
+  it("ignores unknown properties", () => {
+    const texture = new BatchedPropertiesTexture(properties, 4);
+    const version = texture.version;
+    texture.setValue(0, 'missing', 1);
+    expect(texture.version).toBe(version);
+    expect(texture.getValue(0, 'missing')).toEqual([]);
+  });
+
+  it("declares every property in the generated GLSL", () => {
+    const glsl = new BatchedPropertiesTexture(properties, 4).getGlsl();
+    expect(glsl).toContain("float roughness = float( texelFetch( propertiesTex, ivec2( x + 0, y ), 0 ).r );");
+    expect(glsl).toContain("vec2 offset = vec2( texelFetch( propertiesTex, ivec2( x + 1, y ), 0 ).rg );");
+    expect(glsl).toContain("vec3 diffuse = vec3( texelFetch( propertiesTex, ivec2( x + 2, y ), 0 ).rgb );");
+  });
+});
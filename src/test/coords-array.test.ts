@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { coordsArrayToPositions, positionsToCoordsArray } from "../api/coords-array";
+import { coordsToVector3 } from "../api/coords-to-vector-3";
+import { CoordsModel } from "../api/coords-conversion";
+import { Coords } from "../api/coords";
+
+describe("coords-array", () => {
+  const origin: Coords = { latitude: 51.5074, longitude: -0.1278, altitude: 12 };
+
+  const points: Coords[] = [
+    { latitude: 51.5074, longitude: -0.1278, altitude: 12 },
+    { latitude: 51.512, longitude: -0.12, altitude: 40 },
+    { latitude: 51.49, longitude: -0.15, altitude: 0 },
+    { latitude: 51.6, longitude: -0.3, altitude: 150 },
+  ];
+
+  const lngLatAlt = new Float64Array(points.flatMap((p) => [p.longitude, p.latitude, p.altitude ?? 0]));
+
+  const models: CoordsModel[] = ["spherical", "mercator", "wgs84-enu"];
+
+  describe.each(models)("%s model", (model) => {
+    it("matches coordsToVector3 point by point", () => {
+      const positions = coordsArrayToPositions(lngLatAlt, origin, { model });
+      expect(positions).toBeInstanceOf(Float32Array);
+      expect(positions.length).toBe(lngLatAlt.length);
+      points.forEach((point, i) => {
+        const [x, y, z] = coordsToVector3(point, origin, { model });
+        expect(positions[i * 3]).toBeCloseTo(x, 2);
+        expect(positions[i * 3 + 1]).toBeCloseTo(y, 2);
+        expect(positions[i * 3 + 2]).toBeCloseTo(z, 2);
+      });
+    });
+
+    it("round trips through positionsToCoordsArray", () => {
+      const positions = coordsArrayToPositions(lngLatAlt, origin, { model });
+      const back = positionsToCoordsArray(positions, origin, { model });
+      expect(back).toBeInstanceOf(Float64Array);
+      for (let i = 0; i < lngLatAlt.length; i += 3) {
+        expect(back[i]).toBeCloseTo(lngLatAlt[i], 6);
+        expect(back[i + 1]).toBeCloseTo(lngLatAlt[i + 1], 6);
+        expect(back[i + 2]).toBeCloseTo(lngLatAlt[i + 2], 2);
+      }
+    });
+  });
+
+  it("converts large arrays of distinct latitudes quickly", () => {
+    const count = 500_000;
+    const lidar = new Float64Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      lidar[i * 3] = origin.longitude + (i % 1000) * 1e-5;
+      lidar[i * 3 + 1] = origin.latitude + i * 1e-7;
+      lidar[i * 3 + 2] = i % 50;
+    }
+    const start = performance.now();
+    const positions = coordsArrayToPositions(lidar, origin);
+    const back = positionsToCoordsArray(positions, origin);
+    expect(performance.now() - start).toBeLessThan(1000);
+    expect(back[back.length - 2]).toBeCloseTo(lidar[lidar.length - 2], 6);
+  });
+
+  it("writes into a provided target", () => {
+    const target = new Float32Array(lngLatAlt.length);
+    const positions = coordsArrayToPositions(lngLatAlt, origin, { target });
+    expect(positions).toBe(target);
+  });
+
+  it("treats missing altitudes as 0", () => {
+    const positions = coordsArrayToPositions([-0.1278, 51.5074, NaN], { ...origin, altitude: 0 });
+    expect(positions[1]).toBe(0);
+  });
+
+  it("throws when the length is not a multiple of 3", () => {
+    expect(() => coordsArrayToPositions([0, 0], origin)).toThrow(/multiple of 3/);
+    expect(() => positionsToCoordsArray([0, 0, 0, 1], origin)).toThrow(/multiple of 3/);
+  });
+
+  it("throws when the target length does not match", () => {
+    expect(() => coordsArrayToPositions(lngLatAlt, origin, { target: new Float32Array(3) })).toThrow(/Target length/);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { averageMercatorScale, coordsToVector3 } from "../api/coords-to-vector-3";
+import { vector3ToCoords } from "../api/vector-3-to-coords";
+import { CoordsModel } from "../api/coords-conversion";
+import { Coords } from "../api/coords";
+import { earthRadius } from "../core/earth-radius";
+
+/** distance in meters between two points, measured in the exact WGS84 ENU frame of `a` */
+function distance(a: Coords, b: Coords): number {
+  const [x, y, z] = coordsToVector3(b, a, { model: "wgs84-enu" });
+  return Math.hypot(x, y, z);
+}
+
+describe("coordsToVector3 / vector3ToCoords", () => {
+  const origin: Coords = { latitude: 51.5074, longitude: -0.1278, altitude: 35 };
+
+  const models: CoordsModel[] = ["spherical", "mercator", "wgs84-enu"];
+
+  describe.each(models)("%s model", (model) => {
+    it("maps the origin to [0, 0, 0]", () => {
+      const [x, y, z] = coordsToVector3(origin, origin, { model });
+      expect(Math.abs(x)).toBeLessThan(1e-6);
+      expect(Math.abs(y)).toBeLessThan(1e-6);
+      expect(Math.abs(z)).toBeLessThan(1e-6);
+    });
+
+    it("points X east, Y up and Z south", () => {
+      const [eastX] = coordsToVector3({ ...origin, longitude: origin.longitude + 0.01 }, origin, { model });
+      const [, , northZ] = coordsToVector3({ ...origin, latitude: origin.latitude + 0.01 }, origin, { model });
+      const [, upY] = coordsToVector3({ ...origin, altitude: 135 }, origin, { model });
+      expect(eastX).toBeGreaterThan(0);
+      expect(northZ).toBeLessThan(0);
+      expect(upY).toBeCloseTo(100, 6);
+    });
+
+    it("round trips within a millimetre 100km away", () => {
+      const points: Coords[] = [
+        { latitude: 52.4, longitude: -0.1278, altitude: 120 },
+        { latitude: 50.6, longitude: 1.2, altitude: -15 },
+        { latitude: 51.5074, longitude: -1.57, altitude: 0 },
+      ];
+      for (const point of points) {
+        const position = coordsToVector3(point, origin, { model });
+        const back = vector3ToCoords(position, origin, { model });
+        expect(distance(point, back)).toBeLessThan(1e-3);
+      }
+    });
+  });
+
+  it("defaults to the mercator model in both directions", () => {
+    const point: Coords = { latitude: 53.1, longitude: 2.3, altitude: 10 };
+    expect(coordsToVector3(point, origin)).toEqual(coordsToVector3(point, origin, { model: "mercator" }));
+    const back = vector3ToCoords(coordsToVector3(point, origin), origin);
+    expect(distance(point, back)).toBeLessThan(1e-3);
+  });
+
+  it("wgs84-enu matches known ellipsoidal distances", () => {
+    // one degree of latitude at 51.5°N is ~111.26 km on WGS84
+    const north: Coords = { latitude: origin.latitude + 1, longitude: origin.longitude, altitude: origin.altitude };
+    const [x, , z] = coordsToVector3(north, origin, { model: "wgs84-enu" });
+    expect(Math.abs(x)).toBeLessThan(1e-6);
+    expect(-z).toBeGreaterThan(111_200);
+    expect(-z).toBeLessThan(111_300);
+  });
+
+  it("wgs84-enu drops far points below the tangent plane", () => {
+    const far: Coords = { latitude: origin.latitude + 0.9, longitude: origin.longitude, altitude: origin.altitude };
+    const [, y] = coordsToVector3(far, origin, { model: "wgs84-enu" });
+    // ~100km away, curvature drop is ~d^2 / 2R ≈ 785m
+    expect(y).toBeLessThan(-700);
+    expect(y).toBeGreaterThan(-900);
+  });
+
+  it("wgs84-enu round trips near the poles", () => {
+    const polar: Coords = { latitude: 89.9, longitude: 45, altitude: 0 };
+    const point: Coords = { latitude: 89.5, longitude: -120, altitude: 250 };
+    const back = vector3ToCoords(coordsToVector3(point, polar, { model: "wgs84-enu" }), polar, { model: "wgs84-enu" });
+    expect(back.latitude).toBeCloseTo(point.latitude, 9);
+    expect(back.longitude).toBeCloseTo(point.longitude, 7);
+    expect(back.altitude).toBeCloseTo(250, 4);
+  });
+});
+
+describe("mercator model", () => {
+  const origin: Coords = { latitude: 51.5074, longitude: -0.1278 };
+
+  it("matches the numerically integrated mercator scale", () => {
+    const latitude = origin.latitude + 1.5;
+    const steps = 201;
+    const latitudeDiff = (latitude - origin.latitude) * Math.PI / 180;
+    const integrated = -latitudeDiff * earthRadius * Math.cos(origin.latitude * Math.PI / 180)
+      * averageMercatorScale(origin.latitude, latitude, steps);
+    const [, , z] = coordsToVector3({ ...origin, latitude }, origin);
+    expect(Math.abs(z - integrated)).toBeLessThan(1);
+  });
+
+  it("inverts latitudes exactly", () => {
+    for (const latitude of [-60, 0, 51.6, 70, 85]) {
+      const [, , z] = coordsToVector3({ ...origin, latitude }, origin);
+      expect(vector3ToCoords([0, 0, z], origin).latitude).toBeCloseTo(latitude, 10);
+    }
+  });
+});
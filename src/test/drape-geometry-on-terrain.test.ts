@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { BufferGeometry, Float32BufferAttribute, PlaneGeometry } from "three";
+import { drapeGeometryOnTerrain } from "../api/drape-geometry-on-terrain";
+import { coordsToVector3 } from "../api/coords-to-vector-3";
+import { Coords } from "../api/coords";
+
+describe("drapeGeometryOnTerrain", () => {
+  const origin: Coords = { latitude: 36.2797, longitude: -121.8333, altitude: 0 };
+
+  /** terrain rising eastwards, 100m at the origin */
+  const slope = ({ longitude }: Coords) => 100 + (longitude - origin.longitude) * 10000;
+
+  const line = () => {
+    const geometry = new BufferGeometry();
+    geometry.setAttribute("position", new Float32BufferAttribute([0, 0, 0, 100, 5, 0, 200, 0, 0], 3));
+    return geometry;
+  };
+
+  it("raises vertices by the terrain elevation under them", () => {
+    const draped = drapeGeometryOnTerrain(line(), origin, slope);
+    const y = draped.getAttribute("position");
+    const east = coordsToVector3({ ...origin, longitude: origin.longitude + 0.001 }, origin)[0];
+
+    expect(y.getY(0)).toBeCloseTo(100, 3);
+    // 100m east is 100 / east thousandths of a degree, 10m per thousandth
+    expect(y.getY(1)).toBeCloseTo(105 + (100 / east) * 10, 2);
+    expect(y.getY(2)).toBeCloseTo(100 + (200 / east) * 10, 2);
+    expect(y.getX(2)).toBe(200);
+  });
+
+  it("measures heights from the origin altitude", () => {
+    const draped = drapeGeometryOnTerrain(line(), { ...origin, altitude: 40 }, () => 100);
+    expect(draped.getAttribute("position").getY(0)).toBeCloseTo(60, 5);
+    expect(draped.getAttribute("position").getY(1)).toBeCloseTo(65, 5);
+  });
+
+  it("does not mutate the geometry and recomputes normals", () => {
+    const plane = new PlaneGeometry(200, 200, 4, 4).rotateX(-Math.PI / 2);
+    const before = Array.from(plane.getAttribute("position").array);
+    const draped = drapeGeometryOnTerrain(plane, origin, slope);
+
+    expect(Array.from(plane.getAttribute("position").array)).toEqual(before);
+    // the ground slopes up eastwards, so normals lean west
+    expect(draped.getAttribute("normal").getX(0)).toBeLessThan(0);
+    expect(draped.getAttribute("normal").getY(0)).toBeGreaterThan(0);
+    expect(draped.boundingBox?.max.y).toBeGreaterThan(100);
+  });
+
+  it("throws without a position attribute", () => {
+    expect(() => drapeGeometryOnTerrain(new BufferGeometry(), origin, slope)).toThrow(/position/);
+  });
+
+  it("needs a sampler without a mounted Canvas", () => {
+    expect(() => drapeGeometryOnTerrain(line(), origin)).toThrow(/0 Canvas maps/);
+  });
+});
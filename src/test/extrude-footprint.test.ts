@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import { Box3, BufferGeometry, Vector3 } from "three";
+import {
+  extrudeFootprint,
+  FOOTPRINT_FLOOR_GROUP,
+  FOOTPRINT_ROOF_GROUP,
+  FOOTPRINT_WALLS_GROUP,
+} from "../api/extrude-footprint";
+import { vector3ToCoords } from "../api/vector-3-to-coords";
+import { Coords } from "../api/coords";
+
+describe("extrudeFootprint", () => {
+  const origin: Coords = { latitude: 51.5074, longitude: -0.1278, altitude: 0 };
+
+  /** rectangle of `width` x `depth` meters (east x north) with its south-west corner at the origin */
+  const rectangle = (width: number, depth: number, offset = 0): Coords[] => [
+    [offset, offset], [width - offset, offset], [width - offset, depth - offset], [offset, depth - offset],
+  ].map(([x, n]) => vector3ToCoords([x, 0, -n], origin));
+
+  const bounds = (geometry: BufferGeometry) => {
+    geometry.computeBoundingBox();
+    return geometry.boundingBox as Box3;
+  };
+
+  /** total area and area-weighted normal of the triangles of a group */
+  const groupStats = (geometry: BufferGeometry, materialIndex: number) => {
+    const pos = geometry.getAttribute("position");
+    const a = new Vector3(), b = new Vector3(), c = new Vector3();
+    const normal = new Vector3();
+    let area = 0;
+    for (const group of geometry.groups.filter((g) => g.materialIndex === materialIndex)) {
+      for (let i = group.start; i < group.start + group.count; i += 3) {
+        a.fromBufferAttribute(pos, i);
+        b.fromBufferAttribute(pos, i + 1);
+        c.fromBufferAttribute(pos, i + 2);
+        const cross = b.sub(a).cross(c.sub(a));
+        area += cross.length() / 2;
+        normal.add(cross.multiplyScalar(0.5));
+      }
+    }
+    return { area, normal };
+  };
+
+  /** signed volume, positive when every face points outwards */
+  const volume = (geometry: BufferGeometry) => {
+    const pos = geometry.getAttribute("position");
+    const a = new Vector3(), b = new Vector3(), c = new Vector3();
+    let total = 0;
+    for (let i = 0; i < pos.count; i += 3) {
+      a.fromBufferAttribute(pos, i);
+      b.fromBufferAttribute(pos, i + 1);
+      c.fromBufferAttribute(pos, i + 2);
+      total += a.dot(b.cross(c)) / 6;
+    }
+    return total;
+  };
+
+  it("extrudes a flat roof building", () => {
+    const geometry = extrudeFootprint(rectangle(20, 10), [], { height: 12 }, origin);
+    const box = bounds(geometry);
+    expect(box.min.y).toBeCloseTo(0, 5);
+    expect(box.max.y).toBeCloseTo(12, 5);
+    expect(box.max.x).toBeCloseTo(20, 3);
+    expect(box.min.z).toBeCloseTo(-10, 3);
+
+    expect(geometry.groups.map((g) => g.materialIndex)).toEqual([FOOTPRINT_WALLS_GROUP, FOOTPRINT_ROOF_GROUP]);
+    expect(geometry.getAttribute("uv").count).toBe(geometry.getAttribute("position").count);
+    expect(geometry.getAttribute("normal")).toBeDefined();
+
+    const roof = groupStats(geometry, FOOTPRINT_ROOF_GROUP);
+    expect(roof.area).toBeCloseTo(200, 1);
+    expect(roof.normal.y).toBeGreaterThan(0);
+    expect(groupStats(geometry, FOOTPRINT_WALLS_GROUP).area).toBeCloseTo(60 * 12, 1);
+  });
+
+  it("accepts either winding and closed rings", () => {
+    const ring = rectangle(20, 10);
+    const reversed = [...ring, ring[0]].reverse();
+    const geometry = extrudeFootprint(reversed, [], { height: 12 }, origin);
+    expect(groupStats(geometry, FOOTPRINT_ROOF_GROUP).normal.y).toBeGreaterThan(0);
+    expect(groupStats(geometry, FOOTPRINT_WALLS_GROUP).area).toBeCloseTo(60 * 12, 1);
+  });
+
+  it("uses perimeter and height meters as wall UVs", () => {
+    const geometry = extrudeFootprint(rectangle(20, 10), [], { height: 12 }, origin);
+    const uv = geometry.getAttribute("uv");
+    const wall = geometry.groups[0];
+    let maxU = 0, maxV = 0;
+    for (let i = wall.start; i < wall.start + wall.count; i++) {
+      maxU = Math.max(maxU, uv.getX(i));
+      maxV = Math.max(maxV, uv.getY(i));
+    }
+    expect(maxU).toBeCloseTo(60, 2);
+    expect(maxV).toBeCloseTo(12, 5);
+  });
+
+  it("lifts parts with minHeight and closes them with a floor", () => {
+    const geometry = extrudeFootprint(rectangle(20, 10), [], { height: 12, minHeight: 4 }, origin);
+    expect(bounds(geometry).min.y).toBeCloseTo(4, 5);
+    const floor = groupStats(geometry, FOOTPRINT_FLOOR_GROUP);
+    expect(floor.area).toBeCloseTo(200, 1);
+    expect(floor.normal.y).toBeLessThan(0);
+    // closed and facing outwards
+    expect(volume(geometry)).toBeCloseTo(200 * 8, 0);
+  });
+
+  it("measures heights from the footprint altitude", () => {
+    const ring = rectangle(20, 10).map((c) => ({ ...c, altitude: 30 }));
+    const box = bounds(extrudeFootprint(ring, [], { height: 12 }, { ...origin, altitude: 10 }));
+    expect(box.min.y).toBeCloseTo(20, 5);
+    expect(box.max.y).toBeCloseTo(32, 5);
+  });
+
+  it("cuts holes through walls and roof", () => {
+    const geometry = extrudeFootprint(rectangle(20, 20), [rectangle(20, 20, 5)], { height: 10 }, origin);
+    expect(groupStats(geometry, FOOTPRINT_ROOF_GROUP).area).toBeCloseTo(400 - 100, 1);
+    expect(groupStats(geometry, FOOTPRINT_WALLS_GROUP).area).toBeCloseTo((80 + 40) * 10, 1);
+  });
+
+  it("builds gabled roofs with vertical gable ends", () => {
+    const geometry = extrudeFootprint(rectangle(20, 10), [], { height: 12, roof: 'gabled', roofHeight: 5 }, origin);
+    expect(bounds(geometry).max.y).toBeCloseTo(12, 5);
+    const roof = groupStats(geometry, FOOTPRINT_ROOF_GROUP);
+    // two slopes of 20 x hypot(5, 5)
+    expect(roof.area).toBeCloseTo(2 * 20 * Math.hypot(5, 5), 1);
+    expect(roof.normal.y).toBeCloseTo(200, 1);
+    // walls plus two gable triangles
+    expect(groupStats(geometry, FOOTPRINT_WALLS_GROUP).area).toBeCloseTo(60 * 7 + 2 * 25, 1);
+    expect(volume(geometry)).toBeCloseTo(200 * 7 + 10 * 5 / 2 * 20, 0);
+  });
+
+  it("builds hipped roofs with the ridge inset from the ends", () => {
+    const geometry = extrudeFootprint(rectangle(20, 10), [], { height: 12, roof: 'hipped', roofHeight: 5 }, origin);
+    const pos = geometry.getAttribute("position");
+    const ridge: number[] = [];
+    for (let i = 0; i < pos.count; i++) {
+      if (Math.abs(pos.getY(i) - 12) < 1e-4) ridge.push(pos.getX(i));
+    }
+    expect(Math.min(...ridge)).toBeCloseTo(5, 3);
+    expect(Math.max(...ridge)).toBeCloseTo(15, 3);
+    expect(groupStats(geometry, FOOTPRINT_WALLS_GROUP).area).toBeCloseTo(60 * 7, 1);
+    expect(groupStats(geometry, FOOTPRINT_ROOF_GROUP).normal.y).toBeCloseTo(200, 1);
+    expect(volume(geometry)).toBeGreaterThan(0);
+  });
+
+  it("builds pyramidal roofs up to a single apex", () => {
+    const geometry = extrudeFootprint(rectangle(10, 10), [], { height: 9, roof: 'pyramidal', roofHeight: 3 }, origin);
+    const pos = geometry.getAttribute("position");
+    const apex = new Vector3();
+    for (let i = 0; i < pos.count; i++) {
+      if (Math.abs(pos.getY(i) - 9) < 1e-4) {
+        apex.fromBufferAttribute(pos, i);
+        expect(apex.x).toBeCloseTo(5, 3);
+        expect(apex.z).toBeCloseTo(-5, 3);
+      }
+    }
+    expect(volume(geometry)).toBeCloseTo(100 * 6 + 100 * 3 / 3, 0);
+  });
+
+  it("falls back to flat roofs on footprints with holes", () => {
+    const geometry = extrudeFootprint(rectangle(20, 20), [rectangle(20, 20, 5)], { height: 10, roof: 'gabled' }, origin);
+    expect(groupStats(geometry, FOOTPRINT_ROOF_GROUP).area).toBeCloseTo(300, 1);
+  });
+
+  it("falls back to flat roofs on non-convex footprints", () => {
+    // L shape: 20 x 20 without its 10 x 10 north-east corner
+    const lShape = [[0, 0], [20, 0], [20, 10], [10, 10], [10, 20], [0, 20]]
+      .map(([x, n]) => vector3ToCoords([x, 0, -n], origin));
+    for (const roof of ['gabled', 'hipped', 'pyramidal'] as const) {
+      const geometry = extrudeFootprint(lShape, [], { height: 10, roof, roofHeight: 4 }, origin);
+      const stats = groupStats(geometry, FOOTPRINT_ROOF_GROUP);
+      expect(stats.area).toBeCloseTo(300, 1);
+      expect(stats.normal.y).toBeCloseTo(300, 1);
+      expect(volume(geometry)).toBeCloseTo(300 * 10, 0);
+    }
+  });
+
+  it("throws on invalid input", () => {
+    expect(() => extrudeFootprint(rectangle(20, 10).slice(0, 2), [], { height: 10 }, origin)).toThrow("at least 3 coordinates");
+    expect(() => extrudeFootprint(rectangle(20, 10), [], { height: 4, minHeight: 4 }, origin)).toThrow("greater than minHeight");
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { extrudeFootprints } from "../core/extrude-footprints";
+import { vector3ToCoords } from "../api/vector-3-to-coords";
+import { Coords } from "../api/coords";
+
+describe("extrudeFootprints", () => {
+  const origin: Coords = { latitude: 51.5074, longitude: -0.1278, altitude: 0 };
+
+  const square = (x: number): Coords[] => [[x, 0], [x + 10, 0], [x + 10, 10], [x, 10]]
+    .map(([e, n]) => vector3ToCoords([e, 0, -n], origin));
+
+  it("skips invalid footprints and reports them", () => {
+    const footprints = [
+      { id: "a", ring: square(0), height: 10 },
+      { id: "bad-ring", ring: square(20).slice(0, 2), height: 10 },
+      { id: "bad-height", ring: square(40), height: 4, minHeight: 4 },
+      { id: "b", ring: square(60), height: 10 },
+    ];
+    const invalid: string[] = [];
+    const { geometries, footprintAt } = extrudeFootprints(footprints, origin, (footprint, error) => {
+      expect(error).toBeInstanceOf(Error);
+      invalid.push(footprint.id);
+    });
+    expect(invalid).toEqual(["bad-ring", "bad-height"]);
+    expect(geometries).toHaveLength(2);
+    expect(footprintAt.map((i) => footprints[i].id)).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { Matrix4, Vector3 } from "three";
+import { geoTransformToMatrix, matrixToGeoTransform } from "../api/geo-transform";
+
+describe("geoTransformToMatrix", () => {
+  const origin = { latitude: 51.5074, longitude: -0.1278, altitude: 0 };
+  const transform = (headingDeg: number, pitchDeg = 0, rollDeg = 0) =>
+    ({ coords: origin, headingDeg, pitchDeg, rollDeg });
+  const forward = (m: Matrix4) => new Vector3(0, 0, -1).transformDirection(m);
+
+  const expectClose = (a: Vector3, b: Vector3) => {
+    expect(a.x).toBeCloseTo(b.x, 12);
+    expect(a.y).toBeCloseTo(b.y, 12);
+    expect(a.z).toBeCloseTo(b.z, 12);
+  };
+
+  it("turns clockwise from north", () => {
+    expectClose(forward(geoTransformToMatrix(transform(0), origin)), new Vector3(0, 0, -1));
+    expectClose(forward(geoTransformToMatrix(transform(90), origin)), new Vector3(1, 0, 0));
+    expectClose(forward(geoTransformToMatrix(transform(180), origin)), new Vector3(0, 0, 1));
+  });
+
+  it("pitches the nose up and rolls the right side down", () => {
+    expectClose(forward(geoTransformToMatrix(transform(90, 90), origin)), new Vector3(0, 1, 0));
+    const right = new Vector3(1, 0, 0).transformDirection(geoTransformToMatrix(transform(0, 0, 90), origin));
+    expectClose(right, new Vector3(0, -1, 0));
+  });
+
+  it("places the coords relative to the origin", () => {
+    const m = geoTransformToMatrix({ ...transform(0), coords: { ...origin, altitude: 50 } }, origin);
+    expectClose(new Vector3().setFromMatrixPosition(m), new Vector3(0, 50, 0));
+  });
+});
+
+describe("matrixToGeoTransform", () => {
+  const origin = { latitude: 36.2797, longitude: -121.8333, altitude: 120 };
+
+  it("round trips", () => {
+    const input = {
+      coords: { latitude: 36.285, longitude: -121.84, altitude: 300 },
+      headingDeg: 250, pitchDeg: -20, rollDeg: 15,
+    };
+    const output = matrixToGeoTransform(geoTransformToMatrix(input, origin), origin);
+    expect(output.coords.latitude).toBeCloseTo(input.coords.latitude, 9);
+    expect(output.coords.longitude).toBeCloseTo(input.coords.longitude, 9);
+    expect(output.coords.altitude).toBeCloseTo(input.coords.altitude, 6);
+    expect(output.headingDeg).toBeCloseTo(250, 9);
+    expect(output.pitchDeg).toBeCloseTo(-20, 9);
+    expect(output.rollDeg).toBeCloseTo(15, 9);
+  });
+
+  it("normalizes the heading and ignores scale", () => {
+    const m = geoTransformToMatrix({ coords: origin, headingDeg: -30, pitchDeg: 0, rollDeg: 0 }, origin)
+      .multiply(new Matrix4().makeScale(3, 3, 3));
+    expect(matrixToGeoTransform(m, origin).headingDeg).toBeCloseTo(330, 9);
+  });
+
+  it("supports the WGS84 model", () => {
+    const options = { model: 'wgs84-enu' } as const;
+    const coords = { latitude: 36.3, longitude: -121.8, altitude: 10 };
+    const m = geoTransformToMatrix({ coords, headingDeg: 0, pitchDeg: 0, rollDeg: 0 }, origin, options);
+    const output = matrixToGeoTransform(m, origin, options);
+    expect(output.coords.latitude).toBeCloseTo(coords.latitude, 9);
+    expect(output.coords.longitude).toBeCloseTo(coords.longitude, 9);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { Box3, BoxGeometry, Vector3 } from "three";
+import {
+  bufferGeometryToGeoJSON,
+  geoJSONLineToGeometry,
+  geoJSONPolygonToGeometry,
+  geoJSONToBufferGeometry,
+  geoJSONToGeoTriangles,
+  GeoJSONPosition,
+  geoTrianglesToGeoJSON,
+  positionToCoords,
+} from "../api/geojson";
+import { coordsToVector3 } from "../api/coords-to-vector-3";
+import { Coords } from "../api/coords";
+
+describe("geojson", () => {
+  const origin: Coords = { latitude: 51.5074, longitude: -0.1278, altitude: 0 };
+
+  // roughly 70m x 110m square, east and north of the origin
+  const square: GeoJSONPosition[] = [
+    [-0.1278, 51.5074],
+    [-0.1268, 51.5074],
+    [-0.1268, 51.5084],
+    [-0.1278, 51.5084],
+    [-0.1278, 51.5074],
+  ];
+  const hole: GeoJSONPosition[] = [
+    [-0.1275, 51.5077],
+    [-0.1275, 51.5081],
+    [-0.1271, 51.5081],
+    [-0.1271, 51.5077],
+    [-0.1275, 51.5077],
+  ];
+
+  const bounds = (geometry: ReturnType<typeof geoJSONPolygonToGeometry>) => {
+    geometry.computeBoundingBox();
+    return geometry.boundingBox as Box3;
+  };
+
+  it("converts positions to coords", () => {
+    expect(positionToCoords([1, 2])).toEqual({ longitude: 1, latitude: 2, altitude: 0 });
+    expect(positionToCoords([1, 2, 3])).toEqual({ longitude: 1, latitude: 2, altitude: 3 });
+    expect(positionToCoords([1, 2, 3], 5)).toEqual({ longitude: 1, latitude: 2, altitude: 5 });
+  });
+
+  it("builds a flat polygon on the ground, east and north of the origin", () => {
+    const box = bounds(geoJSONPolygonToGeometry([square], origin));
+    const corner = coordsToVector3(positionToCoords(square[2]), origin);
+    expect(box.min.y).toBeCloseTo(0, 5);
+    expect(box.max.y).toBeCloseTo(0, 5);
+    expect(box.min.x).toBeCloseTo(0, 3);
+    expect(box.max.x).toBeCloseTo(corner[0], 3);
+    // north is -Z
+    expect(box.max.z).toBeCloseTo(0, 3);
+    expect(box.min.z).toBeCloseTo(corner[2], 3);
+  });
+
+  it("extrudes upwards from the base altitude", () => {
+    const box = bounds(geoJSONPolygonToGeometry([square], origin, { base: 5, height: 20 }));
+    expect(box.min.y).toBeCloseTo(5, 5);
+    expect(box.max.y).toBeCloseTo(25, 5);
+  });
+
+  it("is relative to the origin altitude", () => {
+    const box = bounds(geoJSONPolygonToGeometry([square], { ...origin, altitude: 10 }, { base: 5 }));
+    expect(box.min.y).toBeCloseTo(-5, 5);
+  });
+
+  it("faces up", () => {
+    const geometry = geoJSONPolygonToGeometry([square], origin);
+    geometry.computeVertexNormals();
+    const normal = new Vector3().fromBufferAttribute(geometry.getAttribute("normal"), 0);
+    expect(normal.y).toBeCloseTo(1, 5);
+  });
+
+  it("cuts holes out of the outline", () => {
+    const solid = geoJSONPolygonToGeometry([square], origin);
+    const holed = geoJSONPolygonToGeometry([square, hole], origin);
+    const area = (geometry: typeof solid) => {
+      const pos = geometry.getAttribute("position");
+      const index = geometry.getIndex();
+      const count = index ? index.count : pos.count;
+      const a = new Vector3(), b = new Vector3(), c = new Vector3();
+      let total = 0;
+      for (let i = 0; i < count; i += 3) {
+        const [ia, ib, ic] = index ? [index.getX(i), index.getX(i + 1), index.getX(i + 2)] : [i, i + 1, i + 2];
+        a.fromBufferAttribute(pos, ia);
+        b.fromBufferAttribute(pos, ib);
+        c.fromBufferAttribute(pos, ic);
+        total += b.sub(a).cross(c.sub(a)).length() / 2;
+      }
+      return total;
+    };
+    const holeBox = bounds(geoJSONPolygonToGeometry([hole], origin));
+    const holeSize = holeBox.getSize(new Vector3());
+    expect(area(holed)).toBeCloseTo(area(solid) - holeSize.x * holeSize.z, 0);
+  });
+
+  it("throws on degenerate outlines", () => {
+    expect(() => geoJSONPolygonToGeometry([square.slice(0, 2)], origin)).toThrow("at least 3 positions");
+    expect(() => geoJSONPolygonToGeometry([], origin)).toThrow("at least 3 positions");
+  });
+
+  it("builds line segments between consecutive positions", () => {
+    const line: GeoJSONPosition[] = [[-0.1278, 51.5074], [-0.1268, 51.5074, 30], [-0.1268, 51.5084]];
+    const geometry = geoJSONLineToGeometry(line, origin, 10);
+    const pos = geometry.getAttribute("position");
+    expect(pos.count).toBe(4);
+    expect(pos.getY(0)).toBeCloseTo(10, 5);
+    expect(pos.getY(1)).toBeCloseTo(30, 5);
+    expect(pos.getY(2)).toBeCloseTo(30, 5);
+    expect(pos.getY(3)).toBeCloseTo(10, 5);
+    const end = coordsToVector3(positionToCoords(line[2], 10), origin);
+    expect(pos.getX(3)).toBeCloseTo(end[0], 3);
+    expect(pos.getZ(3)).toBeCloseTo(end[2], 3);
+  });
+
+  describe("3D faces", () => {
+    const multiPolygon = {
+      type: 'MultiPolygon' as const,
+      coordinates: [
+        [[[-0.1278, 51.5074, 0], [-0.1268, 51.5074, 0], [-0.1268, 51.5084, 10], [-0.1278, 51.5084, 10], [-0.1278, 51.5074, 0]]],
+        [[[-0.1278, 51.5074, 0], [-0.1278, 51.5084, 10], [-0.1288, 51.5074, 0], [-0.1278, 51.5074, 0]]],
+      ],
+    };
+
+    it("triangulates MultiPolygon Z faces", () => {
+      const triangles = geoJSONToGeoTriangles(multiPolygon);
+      expect(triangles.length).toBe(3);
+      expect(triangles.some((t) => t.v0.altitude === 10 || t.v1.altitude === 10 || t.v2.altitude === 10)).toBe(true);
+    });
+
+    it("triangulates Polygon holes and flattens collections", () => {
+      const polygon = { type: 'Polygon' as const, coordinates: [square, hole] };
+      const triangles = geoJSONToGeoTriangles({ type: 'GeometryCollection', geometries: [polygon, { type: 'Point', coordinates: [0, 0] }] });
+      expect(triangles.length).toBeGreaterThan(2);
+      expect(triangles.every((t) => t.v0.altitude === 0)).toBe(true);
+    });
+
+    it("round trips triangles", () => {
+      const triangles = geoJSONToGeoTriangles(multiPolygon);
+      const geojson = geoTrianglesToGeoJSON(triangles);
+      expect(geojson.type).toBe("MultiPolygon");
+      expect(geojson.coordinates[0][0].length).toBe(4);
+      expect(geoJSONToGeoTriangles(geojson)).toEqual(triangles);
+    });
+
+    it("round trips a BufferGeometry", () => {
+      const box = new BoxGeometry(100, 50, 20);
+      const geometry = geoJSONToBufferGeometry(bufferGeometryToGeoJSON(box, { origin }), { origin });
+      const box3 = bounds(geometry);
+      expect(box3.max.x).toBeCloseTo(50, 2);
+      expect(box3.min.y).toBeCloseTo(-25, 2);
+      expect(geometry.getAttribute("position").count).toBe(36);
+    });
+
+    it("throws on open rings and empty geometries", () => {
+      expect(() => geoJSONToGeoTriangles({ type: 'Polygon', coordinates: [square.slice(0, 4)] })).toThrow(/close the ring/);
+      expect(() => geoJSONToBufferGeometry({ type: 'LineString', coordinates: square }, { origin })).toThrow(/no faces/);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { Matrix4, Matrix4Tuple, PerspectiveCamera, Plane, Vector3, WebGLRenderer } from "three";
+import { earthRadius } from "../core/earth-radius";
+import {
+  blendGlobeProjection, clipHorizon, globeCoordsToMatrix, mapboxGlobeSpace, maplibreGlobeSpace,
+  readProjection, updateHorizonPlane,
+} from "../core/globe";
+
+const at = (m: Matrix4Tuple, x: number, y: number, z: number) => new Vector3(x, y, z).applyMatrix4(new Matrix4().fromArray(m));
+
+const expectClose = (a: Vector3, b: Vector3, digits = 9) => {
+  expect(a.x).toBeCloseTo(b.x, digits);
+  expect(a.y).toBeCloseTo(b.y, digits);
+  expect(a.z).toBeCloseTo(b.z, digits);
+};
+
+describe("globeCoordsToMatrix", () => {
+  it("places the origin on the maplibre unit sphere", () => {
+    expectClose(at(globeCoordsToMatrix({ longitude: 0, latitude: 0 }, maplibreGlobeSpace), 0, 0, 0), new Vector3(0, 0, 1));
+    expectClose(at(globeCoordsToMatrix({ longitude: 90, latitude: 0 }, maplibreGlobeSpace), 0, 0, 0), new Vector3(1, 0, 0));
+    const north = at(globeCoordsToMatrix({ longitude: 0, latitude: 45, altitude: earthRadius }, maplibreGlobeSpace), 0, 0, 0);
+    expectClose(north, new Vector3(0, Math.SQRT2, Math.SQRT2));
+  });
+
+  it("keeps local axes east, up and south in meters", () => {
+    const m = globeCoordsToMatrix({ longitude: 0, latitude: 0 }, maplibreGlobeSpace);
+    const meter = 1 / earthRadius;
+    expectClose(at(m, 1000, 0, 0), new Vector3(1000 * meter, 0, 1), 12);
+    expectClose(at(m, 0, 1000, 0), new Vector3(0, 0, 1 + 1000 * meter), 12);
+    expectClose(at(m, 0, 0, 1000), new Vector3(0, -1000 * meter, 1), 12);
+  });
+
+  it("flips the poles in the mapbox space", () => {
+    const { radius } = mapboxGlobeSpace;
+    const p = at(globeCoordsToMatrix({ longitude: 0, latitude: 30 }, mapboxGlobeSpace), 0, 0, 0);
+    expectClose(p, new Vector3(0, -radius / 2, radius * Math.cos(Math.PI / 6)), 6);
+    // north is still north
+    const north = at(globeCoordsToMatrix({ longitude: 0, latitude: 30 }, mapboxGlobeSpace), 0, 0, -1000);
+    expect(north.y).toBeLessThan(p.y);
+  });
+});
+
+describe("readProjection", () => {
+  const mercator = new Matrix4().makeScale(2, 3, 4).toArray();
+  const globe = new Matrix4().makeTranslation(1, 2, 3).toArray();
+
+  it("reads flat maplibre and mapbox maps", () => {
+    expect(readProjection([mercator])).toEqual({ viewProjMx: mercator });
+    expect(readProjection([{ defaultProjectionData: { mainMatrix: new Float64Array(mercator), projectionTransition: 0 } }]))
+      .toEqual({ viewProjMx: mercator });
+    // mapbox zoomed in on the globe renders mercator
+    expect(readProjection([mercator, { name: 'globe' }, globe, 1])).toEqual({ viewProjMx: mercator });
+  });
+
+  it("reads the maplibre globe", () => {
+    const { viewProjMx, globe: projection } = readProjection([{
+      defaultProjectionData: { mainMatrix: globe, fallbackMatrix: mercator, projectionTransition: 0.5 },
+    }]);
+    expect(viewProjMx).toEqual(mercator);
+    expect(projection).toEqual({ space: maplibreGlobeSpace, viewProjMx: globe, transition: 0.5 });
+  });
+
+  it("reads the mapbox globe", () => {
+    const { viewProjMx, globe: projection } = readProjection([mercator, { name: 'globe' }, globe, 0.25]);
+    expect(viewProjMx).toEqual(mercator);
+    expect(projection?.space).toBe(mapboxGlobeSpace);
+    expect(projection?.transition).toBe(0.75);
+    expect(projection?.viewProjMx).toEqual(new Matrix4().fromArray(mercator).multiply(new Matrix4().fromArray(globe)).toArray());
+  });
+});
+
+describe("blendGlobeProjection", () => {
+  const coords = { longitude: 10, latitude: 20 };
+  const viewProjMx = new Matrix4().makeTranslation(0, 0, -3).toArray();
+  const globe = new Matrix4().fromArray(viewProjMx)
+    .multiply(new Matrix4().fromArray(globeCoordsToMatrix(coords, maplibreGlobeSpace)));
+  const flat = new Matrix4().makeScale(5, 5, 5);
+
+  it("interpolates between mercator and globe", () => {
+    const blend = (transition: number) => blendGlobeProjection(flat.clone(), {
+      projection: { space: maplibreGlobeSpace, viewProjMx, transition }, coords,
+    }).elements;
+    expect(blend(0)).toEqual(flat.elements);
+    blend(1).forEach((v, i) => expect(v).toBeCloseTo(globe.elements[i], 12));
+    blend(0.5).forEach((v, i) => expect(v).toBeCloseTo((globe.elements[i] + flat.elements[i]) / 2, 12));
+  });
+});
+
+describe("updateHorizonPlane", () => {
+  it("splits what is in front of and behind the planet", () => {
+    const plane = new Plane();
+    // 1000km above the origin
+    expect(updateHorizonPlane(plane, new Vector3(0, 1e6, 0))).toBe(true);
+    expect(plane.distanceToPoint(new Vector3(0, 0, 0))).toBeGreaterThan(0);
+    expect(plane.distanceToPoint(new Vector3(0, 100, 500e3))).toBeGreaterThan(0);
+    // the other side of the planet
+    expect(plane.distanceToPoint(new Vector3(0, -2 * earthRadius, 0))).toBeLessThan(0);
+    expect(plane.distanceToPoint(new Vector3(earthRadius, -earthRadius, 0))).toBeLessThan(0);
+  });
+
+  it("follows the altitude of the origin", () => {
+    const plane = new Plane();
+    updateHorizonPlane(plane, new Vector3(0, 0, 0), 1e6);
+    // from 1000km up, the horizon circle is about 1860km below the origin
+    expect(plane.normal.y).toBeCloseTo(1, 12);
+    expect(plane.distanceToPoint(new Vector3(3e6, -1.8e6, 0))).toBeGreaterThan(0);
+    expect(plane.distanceToPoint(new Vector3(3e6, -1.9e6, 0))).toBeLessThan(0);
+  });
+
+  it("has no horizon from inside the planet", () => {
+    expect(updateHorizonPlane(new Plane(), new Vector3(0, -1000, 0))).toBe(false);
+  });
+});
+
+describe("clipHorizon", () => {
+  const projection = { space: maplibreGlobeSpace, viewProjMx: new Matrix4().toArray(), transition: 1 };
+  const coords = { longitude: 0, latitude: 0 };
+
+  const expectPlanes = (gl: WebGLRenderer, ...planes: Plane[]) => {
+    expect(gl.clippingPlanes.length).toBe(planes.length);
+    planes.forEach((p, i) => expect(gl.clippingPlanes[i]).toBe(p));
+  };
+
+  it("swaps its plane and keeps the user planes", () => {
+    const user = new Plane();
+    const gl = { clippingPlanes: [user] } as unknown as WebGLRenderer;
+    const camera = new PerspectiveCamera();
+    camera.position.set(0, 1e6, 0);
+    const horizon = new Plane();
+
+    clipHorizon(gl, horizon, camera, { projection, coords });
+    expectPlanes(gl, user, horizon);
+    clipHorizon(gl, horizon, camera, { projection, coords });
+    expectPlanes(gl, user, horizon);
+
+    const other = new Plane();
+    clipHorizon(gl, other, camera, { projection, coords });
+    expectPlanes(gl, user, other);
+
+    clipHorizon(gl, other, camera, { projection: { ...projection, transition: 0.1 }, coords });
+    expectPlanes(gl, user);
+    clipHorizon(gl, other, camera);
+    expectPlanes(gl, user);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { MapHandler, MapInstance } from "../core/generic-map";
+import { lockMapInteractions, suppressNextClick } from "../core/map-interaction-lock";
+
+const handler = (enabled: boolean): MapHandler => ({
+  isEnabled: () => enabled,
+  enable: () => { enabled = true; },
+  disable: () => { enabled = false; },
+});
+
+const mockMap = () => ({
+  dragPan: handler(true),
+  dragRotate: handler(true),
+  doubleClickZoom: handler(false),
+} as unknown as MapInstance & Record<'dragPan' | 'dragRotate' | 'doubleClickZoom', MapHandler>);
+
+describe("lockMapInteractions", () => {
+  it("disables handlers and restores their prior state", () => {
+    const map = mockMap();
+    const unlock = lockMapInteractions(map);
+    expect(map.dragPan.isEnabled()).toBe(false);
+    expect(map.dragRotate.isEnabled()).toBe(false);
+    unlock();
+    expect(map.dragPan.isEnabled()).toBe(true);
+    expect(map.dragRotate.isEnabled()).toBe(true);
+    // was disabled by the app, stays so
+    expect(map.doubleClickZoom.isEnabled()).toBe(false);
+  });
+
+  it("waits for every lock to be released", () => {
+    const map = mockMap();
+    const a = lockMapInteractions(map);
+    const b = lockMapInteractions(map);
+    a();
+    a();
+    expect(map.dragPan.isEnabled()).toBe(false);
+    b();
+    expect(map.dragPan.isEnabled()).toBe(true);
+  });
+});
+
+describe("suppressNextClick", () => {
+  const click = () => {
+    const event = new MouseEvent('click', { bubbles: true, cancelable: true });
+    document.body.dispatchEvent(event);
+    return event;
+  };
+
+  it("swallows the next click only", () => {
+    suppressNextClick();
+    expect(click().defaultPrevented).toBe(true);
+    expect(click().defaultPrevented).toBe(false);
+  });
+
+  it("lets the next drag's click through when none came", async () => {
+    suppressNextClick();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(click().defaultPrevented).toBe(false);
+  });
+});
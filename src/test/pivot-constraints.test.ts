@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { BoxGeometry, Euler, Mesh, Quaternion, Vector3 } from "three";
+import { vector3ToCoords } from "../api/vector-3-to-coords";
+import {
+  clampRotation, clampToRanges, dropOnObjects, snapIncrement, snapToLonLatGrid,
+} from "../core/pivot-constraints";
+
+describe("snapIncrement", () => {
+  it("rounds to the nearest step", () => {
+    expect(snapIncrement(7.4, 5)).toBe(5);
+    expect(snapIncrement(7.6, 5)).toBe(10);
+    expect(snapIncrement(-2.6, 1)).toBe(-3);
+  });
+
+  it("keeps the value without a step", () => {
+    expect(snapIncrement(7.4)).toBe(7.4);
+    expect(snapIncrement(7.4, 0)).toBe(7.4);
+  });
+});
+
+describe("clampToRanges", () => {
+  it("clamps each axis with a range", () => {
+    const p = clampToRanges(new Vector3(-800, -5, 3000), [[-500, 500], [0, Infinity], undefined]);
+    expect(p.toArray()).toEqual([-500, 0, 3000]);
+  });
+});
+
+describe("clampRotation", () => {
+  const rotation = (x: number, y: number, z: number) =>
+    new Quaternion().setFromEuler(new Euler(x * Math.PI / 180, y * Math.PI / 180, z * Math.PI / 180, 'YXZ'));
+
+  it("clamps the euler angles", () => {
+    const q = clampRotation(rotation(45, 120, 0), [[-30, 30], undefined, undefined]);
+    const euler = new Euler().setFromQuaternion(q, 'YXZ');
+    expect(euler.x * 180 / Math.PI).toBeCloseTo(30, 9);
+    expect(euler.y * 180 / Math.PI).toBeCloseTo(120, 9);
+  });
+
+  it("leaves rotations in range untouched", () => {
+    const q = rotation(10, 120, 5);
+    const copy = q.clone();
+    expect(clampRotation(q, [[-30, 30], undefined, [-10, 10]]).equals(copy)).toBe(true);
+  });
+});
+
+describe("snapToLonLatGrid", () => {
+  const origin = { latitude: 51.5074, longitude: -0.1278 };
+
+  it("moves to the nearest grid node and keeps the height", () => {
+    const p = snapToLonLatGrid(new Vector3(120, 42, -80), origin, 0.001);
+    const { latitude, longitude } = vector3ToCoords(p.toArray(), origin);
+    expect(latitude).toBeCloseTo(51.508, 9);
+    expect(longitude).toBeCloseTo(-0.126, 9);
+    expect(p.y).toBe(42);
+  });
+});
+
+describe("dropOnObjects", () => {
+  const roof = new Mesh(new BoxGeometry(100, 30, 100));
+  roof.position.set(0, 15, 0);
+  roof.updateMatrixWorld();
+
+  it("lands on top of the objects below or above", () => {
+    const below = new Vector3(10, 200, -10);
+    expect(dropOnObjects(below, [roof])).toBe(true);
+    expect(below.y).toBeCloseTo(30, 9);
+    const inside = new Vector3(10, 5, -10);
+    expect(dropOnObjects(inside, [roof])).toBe(true);
+    expect(inside.y).toBeCloseTo(30, 9);
+  });
+
+  it("keeps positions over nothing", () => {
+    const p = new Vector3(500, 200, 0);
+    expect(dropOnObjects(p, [roof])).toBe(false);
+    expect(p.y).toBe(200);
+  });
+});
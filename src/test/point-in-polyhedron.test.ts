@@ -1,12 +1,17 @@
 import { describe, it, expect } from "vitest";
-import { BoxGeometry, SphereGeometry, Vector3Tuple } from "three";
+import { BoxGeometry, BufferGeometry, Float32BufferAttribute, SphereGeometry, Vector3Tuple } from "three";
 import {
   isPointInPolyhedron,
   isCoordsInPolyhedron,
   isCoordsInGeoTriangles,
   isPointInGeoTriangles,
   isPointOnSurface,
+  distanceToPolyhedron,
+  distanceCoordsToPolyhedron,
+  distanceCoordsToGeoTriangles,
+  intersectPathWithPolyhedron,
 } from "../api/point-in-polyhedron";
+import { vector3ToCoords } from "../api/vector-3-to-coords";
 import { extractGeoTriangles } from "../api/polyhedral-surface";
 import { Coords } from "../api/coords";
 
@@ -263,4 +268,114 @@ describe("point-in-polyhedron", () => {
       expect(isPointInPolyhedron([0, 10, 0], longBox).inside).toBe(false);
     });
   });
+
+  describe("distanceToPolyhedron", () => {
+    const box = new BoxGeometry(100, 100, 100);
+
+    it("is negative inside and positive outside", () => {
+      const inside = distanceToPolyhedron([40, 0, 0], box);
+      expect(inside.inside).toBe(true);
+      expect(inside.distance).toBeCloseTo(-10, 5);
+      expect(inside.closestPoint[0]).toBeCloseTo(50, 5);
+
+      const outside = distanceToPolyhedron([80, 10, -20], box);
+      expect(outside.inside).toBe(false);
+      expect(outside.distance).toBeCloseTo(30, 5);
+      expect(outside.closestPoint).toEqual([50, 10, -20]);
+    });
+
+    it("reports the closest triangle", () => {
+      const { triangleIndex } = distanceToPolyhedron([0, 80, 0], box);
+      // BoxGeometry faces are +X, -X, +Y, ..., two triangles each
+      expect(Math.floor(triangleIndex / 2)).toBe(2);
+      expect(distanceToPolyhedron([0, 80, 0], box.toNonIndexed()).triangleIndex).toBe(triangleIndex);
+    });
+
+    it("measures to edges and corners", () => {
+      expect(distanceToPolyhedron([53, 54, 0], box).distance).toBeCloseTo(5, 5);
+      expect(distanceToPolyhedron([51, 52, 52], box).distance).toBeCloseTo(3, 5);
+    });
+
+    it("throws without triangles", () => {
+      const empty = new BufferGeometry();
+      empty.setAttribute("position", new Float32BufferAttribute([], 3));
+      expect(() => distanceToPolyhedron([0, 0, 0], empty)).toThrow(/without triangles/);
+    });
+
+    it("measures from coordinates", () => {
+      const coords: Coords = { ...origin, altitude: 45 };
+      const result = distanceCoordsToPolyhedron(coords, box, origin);
+      expect(result.distance).toBeCloseTo(-5, 3);
+      expect(result.closestCoords.altitude).toBeCloseTo(50, 3);
+      expect(result.closestCoords.latitude).toBeCloseTo(origin.latitude, 6);
+
+      const triangles = extractGeoTriangles(box, origin);
+      const fromTriangles = distanceCoordsToGeoTriangles({ ...origin, altitude: 60 }, triangles, origin);
+      expect(fromTriangles.inside).toBe(false);
+      expect(fromTriangles.distance).toBeCloseTo(10, 3);
+      expect(fromTriangles.closestCoords.altitude).toBeCloseTo(50, 3);
+      expect(() => distanceCoordsToGeoTriangles(origin, [], origin)).toThrow(/without triangles/);
+    });
+  });
+
+  describe("intersectPathWithPolyhedron", () => {
+    const triangles = extractGeoTriangles(new BoxGeometry(100, 100, 100), origin);
+    const path = (...points: Vector3Tuple[]) => points.map((p) => vector3ToCoords(p, origin));
+
+    it("finds where a segment enters and exits", () => {
+      const result = intersectPathWithPolyhedron(path([-100, 0, 0], [100, 0, 0]), triangles);
+      expect(result.crossings.map((c) => c.type)).toEqual(["entry", "exit"]);
+      expect(result.crossings[0].distance).toBeCloseTo(50, 1);
+      expect(result.crossings[1].distance).toBeCloseTo(150, 1);
+      expect(result.crossings[0].coords.longitude).toBeLessThan(origin.longitude);
+      expect(result.length).toBeCloseTo(200, 1);
+      expect(result.intersects).toBe(true);
+      expect(result.startsInside).toBe(false);
+      expect(result.endsInside).toBe(false);
+    });
+
+    it("orders crossings along a polyline", () => {
+      const result = intersectPathWithPolyhedron(path([-100, 0, 0], [0, 0, 0], [0, 100, 0]), triangles);
+      expect(result.crossings.map((c) => [c.type, c.segmentIndex])).toEqual([["entry", 0], ["exit", 1]]);
+      expect(result.crossings[1].distance).toBeCloseTo(150, 1);
+      expect(result.crossings[1].coords.altitude).toBeCloseTo(50, 1);
+    });
+
+    it("starts and ends inside", () => {
+      const result = intersectPathWithPolyhedron(path([0, 0, 0], [100, 0, 0], [100, 0, 20], [0, 0, 20]), triangles);
+      expect(result.startsInside).toBe(true);
+      expect(result.endsInside).toBe(true);
+      expect(result.crossings.map((c) => c.type)).toEqual(["exit", "entry"]);
+    });
+
+    it("counts crossings through a shared edge once", () => {
+      for (const [y, z] of [[20, 20], [20, -20]]) {
+        const result = intersectPathWithPolyhedron(path([-100, y, z], [100, y, z]), triangles);
+        expect(result.crossings.length).toBe(2);
+      }
+    });
+
+    it("ignores paths grazing an edge or a vertex", () => {
+      // touches the top east edge, then goes through the box
+      const grazing = intersectPathWithPolyhedron(path([0, 100, 0], [100, 0, 0], [-100, 0, 0]), triangles);
+      expect(grazing.crossings.map((c) => c.type)).toEqual(["entry", "exit"]);
+      expect(grazing.crossings[0].distance).toBeCloseTo(Math.SQRT2 * 100 + 50, 1);
+      expect(grazing.endsInside).toBe(false);
+
+      const corner = intersectPathWithPolyhedron(path([0, 100, 100], [100, 0, 0]), triangles);
+      expect(corner.crossings).toEqual([]);
+      expect(corner.intersects).toBe(false);
+      expect(corner.endsInside).toBe(false);
+    });
+
+    it("misses paths passing by", () => {
+      const result = intersectPathWithPolyhedron(path([-100, 80, 0], [100, 80, 0]), triangles);
+      expect(result.crossings).toEqual([]);
+      expect(result.intersects).toBe(false);
+    });
+
+    it("throws on paths with a single point", () => {
+      expect(() => intersectPathWithPolyhedron([origin], triangles)).toThrow(/at least 2 points/);
+    });
+  });
 });
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { polygonPrismToGeoTriangles } from "../api/polygon-prism";
+import { geoTrianglesToBufferGeometry, measurePolyhedron, validatePolyhedronGeometry } from "../api/polyhedral-surface";
+import { isCoordsInGeoTriangles } from "../api/point-in-polyhedron";
+import { geoTrianglesToWKT } from "../api/wkt";
+import { Coords } from "../api/coords";
+
+describe("polygonPrismToGeoTriangles", () => {
+  const origin: Coords = { latitude: 51.5074, longitude: -0.1278, altitude: 0 };
+  const toCoords = (ring: number[][]): Coords[] => ring.map(([longitude, latitude]) => ({ longitude, latitude }));
+
+  // about 140m by 110m
+  const square = toCoords([[-0.129, 51.507], [-0.127, 51.507], [-0.127, 51.508], [-0.129, 51.508]]);
+  const hole = toCoords([[-0.1285, 51.5073], [-0.1275, 51.5073], [-0.1275, 51.5077], [-0.1285, 51.5077], [-0.1285, 51.5073]]);
+
+  it("builds a closed prism with outward faces", () => {
+    const triangles = polygonPrismToGeoTriangles(square, [], { floor: 100, ceiling: 300 });
+    // 2 per cap, 2 per wall
+    expect(triangles.length).toBe(12);
+
+    const geometry = geoTrianglesToBufferGeometry(triangles, origin);
+    expect(validatePolyhedronGeometry(geometry, { tolerance: 1e-3 }).isValid).toBe(true);
+    const { volume, warnings } = measurePolyhedron(triangles, origin, { tolerance: 1e-3 });
+    expect(warnings).toEqual([]);
+    const base = measurePolyhedron(polygonPrismToGeoTriangles(square, [], { floor: 0, ceiling: 1 }), origin).volume;
+    expect(volume).toBeCloseTo(base * 200, -2);
+  });
+
+  it("does not depend on the winding of rings", () => {
+    const clockwise = [...square].reverse();
+    const { volume, warnings } = measurePolyhedron(
+      polygonPrismToGeoTriangles(clockwise, [[...hole].reverse()], { floor: 0, ceiling: 50 }),
+      origin,
+      { tolerance: 1e-3 }
+    );
+    expect(warnings).toEqual([]);
+    expect(volume).toBeCloseTo(
+      measurePolyhedron(polygonPrismToGeoTriangles(square, [hole], { floor: 0, ceiling: 50 }), origin).volume,
+      -1
+    );
+  });
+
+  it("tests coordinates against the altitude band and holes", () => {
+    const triangles = polygonPrismToGeoTriangles(square, [hole], { floor: 100, ceiling: 300 });
+    const at = (longitude: number, latitude: number, altitude: number) =>
+      isCoordsInGeoTriangles({ longitude, latitude, altitude }, triangles, origin).inside;
+
+    expect(at(-0.1288, 51.5071, 200)).toBe(true);
+    expect(at(-0.1288, 51.5071, 50)).toBe(false);
+    expect(at(-0.1288, 51.5071, 350)).toBe(false);
+    // in the hole
+    expect(at(-0.128, 51.5075, 200)).toBe(false);
+    // outside the outline
+    expect(at(-0.126, 51.5075, 200)).toBe(false);
+  });
+
+  it("exports as WKT", () => {
+    const wkt = geoTrianglesToWKT(polygonPrismToGeoTriangles(square, [], { floor: 100, ceiling: 300 }));
+    expect(wkt).toMatch(/^POLYHEDRALSURFACE Z/);
+    expect(wkt).toContain("-0.12900000 51.50700000 100.00000000");
+    expect(wkt).toContain("-0.12700000 51.50800000 300.00000000");
+  });
+
+  it("validates its input", () => {
+    expect(() => polygonPrismToGeoTriangles(square, [], { floor: 300, ceiling: 100 })).toThrow(/ceiling/);
+    expect(() => polygonPrismToGeoTriangles(square.slice(0, 2), [], { floor: 0, ceiling: 1 })).toThrow(/outline/);
+    expect(() => polygonPrismToGeoTriangles(square, [hole.slice(0, 2)], { floor: 0, ceiling: 1 })).toThrow(/hole 0/);
+    expect(() => polygonPrismToGeoTriangles(
+      [...square, { longitude: NaN, latitude: 0 }], [], { floor: 0, ceiling: 1 }
+    )).toThrow(/non-finite/);
+  });
+});
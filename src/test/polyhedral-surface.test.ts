@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { BoxGeometry, BufferGeometry, Float32BufferAttribute } from "three";
+import { BoxGeometry, BufferGeometry, ConeGeometry, Float32BufferAttribute } from "three";
 import {
   bufferGeometryToWKT,
   wktToBufferGeometry,
@@ -9,6 +9,7 @@ import {
   geoTrianglesToBufferGeometry,
   GeoTriangle,
   validatePolyhedronGeometry,
+  measurePolyhedron,
 } from "../api/polyhedral-surface";
 import { Coords } from "../api/coords";
 
@@ -189,6 +190,19 @@ describe("polyhedral-surface", () => {
         /Invalid WKT format: expected 'POLYHEDRALSURFACE Z/
       );
     });
+
+    it("keeps its degenerate face checks in degrees", () => {
+      const face = (ring: string) => `POLYHEDRALSURFACE Z (((${ring})))`;
+      // ~10m wide horizontal faces are under the degree-space area tolerance
+      expect(() => parsePolyhedralSurfaceWKT(face("0 51 0, 0.0001 51 0, 0.0001 51.0001 0, 0 51.0001 0, 0 51 0")))
+        .toThrow(/collinear or degenerate/);
+      expect(() => parsePolyhedralSurfaceWKT(face("0 51 0, 0.0001 51 0, 0.0001 51.0001 0, 0 51 0")))
+        .toThrow(/triangle is degenerate/);
+      expect(parsePolyhedralSurfaceWKT(face("0 51 0, 0.01 51 0, 0.01 51.01 0, 0 51.01 0, 0 51 0"))).toHaveLength(2);
+      expect(parsePolyhedralSurfaceWKT(face("0 51 0, 0.00001 51 0, 0.00001 51 3, 0 51 3, 0 51 0"))).toHaveLength(2);
+      expect(() => wktToBufferGeometry(face("0 51 0, 0.0001 51 0, 0.0001 51.0001 0, 0 51.0001 0, 0 51 0"), { origin }))
+        .toThrow(/collinear or degenerate/);
+    });
   });
 
   describe("wktToBufferGeometry", () => {
@@ -335,4 +349,82 @@ describe("polyhedral-surface", () => {
       expect(res.errors.some((e) => /degenerate/i.test(e))).toBe(true);
     });
   });
+
+  describe("measurePolyhedron", () => {
+    it("measures a box", () => {
+      const box = new BoxGeometry(100, 50, 20).translate(10, 25, -30);
+      const result = measurePolyhedron(box, origin);
+      expect(result.volume).toBeCloseTo(100000, 2);
+      expect(result.surfaceArea).toBeCloseTo(2 * (5000 + 2000 + 1000), 2);
+      expect(result.localCentroid[0]).toBeCloseTo(10, 4);
+      expect(result.localCentroid[1]).toBeCloseTo(25, 4);
+      expect(result.localCentroid[2]).toBeCloseTo(-30, 4);
+      expect(result.centroid.altitude).toBeCloseTo(25, 4);
+      expect(result.isClosed).toBe(true);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("puts the centroid of a cone a quarter of the way up", () => {
+      // a closed 64 sided cone, 40m high, base centered on the origin
+      const cone = new ConeGeometry(10, 40, 64).translate(0, 20, 0);
+      const result = measurePolyhedron(cone, origin, { tolerance: 1e-4 });
+      expect(result.localCentroid[1]).toBeCloseTo(10, 3);
+      expect(result.isClosed).toBe(true);
+    });
+
+    it("measures GeoTriangles like the geometry they came from", () => {
+      const box = new BoxGeometry(100, 100, 100).translate(0, 50, 0);
+      const triangles = extractGeoTriangles(box, origin);
+      const result = measurePolyhedron(triangles, origin);
+      expect(result.volume).toBeCloseTo(1e6, -1);
+      expect(result.surfaceArea).toBeCloseTo(6e4, 0);
+      expect(result.centroid.latitude).toBeCloseTo(origin.latitude, 7);
+      expect(result.centroid.longitude).toBeCloseTo(origin.longitude, 7);
+      expect(result.centroid.altitude).toBeCloseTo(50, 2);
+    });
+
+    it("warns about open surfaces", () => {
+      const open = new BoxGeometry(10, 10, 10).toNonIndexed();
+      const positions = open.getAttribute("position").array.slice(18);
+      const geometry = new BufferGeometry();
+      geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
+
+      const result = measurePolyhedron(geometry, origin);
+      expect(result.isClosed).toBe(false);
+      expect(result.surfaceArea).toBeCloseTo(500, 4);
+      expect(result.warnings.some((w) => /not closed/.test(w))).toBe(true);
+    });
+
+    it("warns about inverted faces and returns a positive volume", () => {
+      const box = new BoxGeometry(10, 10, 10);
+      const index = Array.from(box.getIndex()?.array ?? []);
+      for (let i = 0; i < index.length; i += 3) [index[i + 1], index[i + 2]] = [index[i + 2], index[i + 1]];
+      box.setIndex(index);
+
+      const result = measurePolyhedron(box, origin);
+      expect(result.volume).toBeCloseTo(1000, 4);
+      expect(result.warnings.some((w) => /inwards/.test(w))).toBe(true);
+    });
+
+    it("measures inward-facing GeoTriangles like outward-facing ones", () => {
+      const box = new BoxGeometry(100, 100, 100).translate(0, 50, 0);
+      const outward = extractGeoTriangles(box, origin);
+      const inward: GeoTriangle[] = outward.map(({ v0, v1, v2 }) => ({ v0, v1: v2, v2: v1 }));
+
+      const expected = measurePolyhedron(outward, origin);
+      const result = measurePolyhedron(inward, origin);
+      expect(result.warnings).toEqual(["Faces point inwards, the volume is negated."]);
+      expect(result.volume).toBeGreaterThan(0);
+      expect(result.volume).toBeCloseTo(expected.volume, 4);
+      expect(result.surfaceArea).toBeCloseTo(expected.surfaceArea, 4);
+      expect(result.centroid.altitude).toBeCloseTo(50, 2);
+    });
+
+    it("warns about empty surfaces", () => {
+      const result = measurePolyhedron([], origin);
+      expect(result.volume).toBe(0);
+      expect(result.centroid.latitude).toBeCloseTo(origin.latitude, 9);
+      expect(result.warnings).toEqual(["Surface has no triangles."]);
+    });
+  });
 });
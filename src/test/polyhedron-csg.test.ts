@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { BoxGeometry, BufferGeometry, CylinderGeometry, Vector3 } from "three";
+import { geoTrianglesBoolean, polyhedronBoolean } from "../api/polyhedron-csg";
+import { bufferGeometryToWKT, extractGeoTriangles, validatePolyhedronGeometry } from "../api/polyhedral-surface";
+import { isCoordsInGeoTriangles, isPointInPolyhedron } from "../api/point-in-polyhedron";
+import { Coords } from "../api/coords";
+
+describe("polyhedronBoolean", () => {
+  /** box of `size` meters centered on x, y, z */
+  const box = (size: number, x = 0, y = 0, z = 0) => new BoxGeometry(size, size, size).translate(x, y, z);
+
+  /** signed volume, positive when normals point outwards */
+  const volume = (geometry: BufferGeometry) => {
+    const pos = geometry.getAttribute("position");
+    const index = geometry.getIndex();
+    const count = index ? index.count : pos.count;
+    const a = new Vector3(), b = new Vector3(), c = new Vector3();
+    let total = 0;
+    for (let i = 0; i < count; i += 3) {
+      a.fromBufferAttribute(pos, index ? index.getX(i) : i);
+      b.fromBufferAttribute(pos, index ? index.getX(i + 1) : i + 1);
+      c.fromBufferAttribute(pos, index ? index.getX(i + 2) : i + 2);
+      total += a.dot(b.cross(c)) / 6;
+    }
+    return total;
+  };
+
+  const expectWatertight = (geometry: BufferGeometry) => {
+    const result = validatePolyhedronGeometry(geometry);
+    expect(result.errors).toEqual([]);
+    expect(result.isValid).toBe(true);
+  };
+
+  it("unites overlapping boxes", () => {
+    const result = polyhedronBoolean(box(2), box(2, 1, 1, 1), 'union');
+    expectWatertight(result);
+    expect(volume(result)).toBeCloseTo(15, 4);
+    expect(isPointInPolyhedron([1.5, 1.5, 1.5], result).inside).toBe(true);
+    expect(isPointInPolyhedron([-0.5, 1.5, 0], result).inside).toBe(false);
+  });
+
+  it("intersects overlapping boxes", () => {
+    const result = polyhedronBoolean(box(2), box(2, 1, 1, 1), 'intersection');
+    expectWatertight(result);
+    expect(volume(result)).toBeCloseTo(1, 4);
+  });
+
+  it("subtracts a box from another", () => {
+    const result = polyhedronBoolean(box(2), box(2, 1, 1, 1), 'difference');
+    expectWatertight(result);
+    expect(volume(result)).toBeCloseTo(7, 4);
+    expect(isPointInPolyhedron([0.5, 0.5, 0.5], result).inside).toBe(false);
+    expect(isPointInPolyhedron([-0.3, -0.6, -0.45], result).inside).toBe(true);
+  });
+
+  it("drills a hole through a box", () => {
+    const result = polyhedronBoolean(box(10), new CylinderGeometry(2, 2, 20, 16), 'difference');
+    expectWatertight(result);
+    // a 16 sided prism of radius 2 and 10m through the box
+    const hole = 8 * 4 * Math.sin(Math.PI / 8) * 10;
+    expect(volume(result)).toBeCloseTo(1000 - hole, 3);
+    expect(isPointInPolyhedron([0, 0, 0], result).inside).toBe(false);
+    expect(isPointInPolyhedron([4, 0, 4], result).inside).toBe(true);
+  });
+
+  it("handles disjoint volumes", () => {
+    const union = polyhedronBoolean(box(2), box(2, 5, 0, 0), 'union');
+    expectWatertight(union);
+    expect(volume(union)).toBeCloseTo(16, 4);
+
+    const intersection = polyhedronBoolean(box(2), box(2, 5, 0, 0), 'intersection');
+    expect(intersection.getIndex()?.count).toBe(0);
+
+    const difference = polyhedronBoolean(box(2), box(2, 5, 0, 0), 'difference');
+    expect(volume(difference)).toBeCloseTo(8, 4);
+  });
+
+  it("does not mutate its inputs", () => {
+    const a = box(2);
+    const positions = Array.from(a.getAttribute("position").array);
+    polyhedronBoolean(a, box(2, 1, 1, 1), 'union');
+    expect(Array.from(a.getAttribute("position").array)).toEqual(positions);
+  });
+
+  it("throws without a position attribute", () => {
+    expect(() => polyhedronBoolean(new BufferGeometry(), box(2), 'union')).toThrow(/position/);
+  });
+});
+
+describe("geoTrianglesBoolean", () => {
+  const origin: Coords = { latitude: 51.5074, longitude: -0.1278, altitude: 0 };
+
+  it("carves a no-fly zone out of a corridor", () => {
+    const corridor = extractGeoTriangles(new BoxGeometry(200, 100, 50).translate(0, 50, 0), origin);
+    const noFlyZone = extractGeoTriangles(new BoxGeometry(50, 200, 100).translate(0, 50, 0), origin);
+    const allowed = geoTrianglesBoolean(corridor, noFlyZone, 'difference', { origin });
+
+    const west: Coords = { ...origin, longitude: -0.1288, altitude: 50 };
+    const center: Coords = { ...origin, altitude: 50 };
+    expect(isCoordsInGeoTriangles(west, allowed, origin).inside).toBe(true);
+    expect(isCoordsInGeoTriangles(center, allowed, origin).inside).toBe(false);
+  });
+
+  it("produces volumes exportable as WKT", () => {
+    const a = extractGeoTriangles(new BoxGeometry(100, 100, 100), origin);
+    const b = extractGeoTriangles(new BoxGeometry(100, 100, 100).translate(50, 50, 50), origin);
+    const union = polyhedronBoolean(new BoxGeometry(100, 100, 100), new BoxGeometry(100, 100, 100).translate(50, 50, 50), 'union');
+    expect(bufferGeometryToWKT(union, { origin })).toMatch(/^POLYHEDRALSURFACE Z/);
+    expect(geoTrianglesBoolean(a, b, 'union').length).toBeGreaterThan(12);
+  });
+
+  it("returns no triangles for empty inputs", () => {
+    expect(geoTrianglesBoolean([], [], 'union')).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { BoxGeometry, BufferGeometry, TorusGeometry, Vector3Tuple } from "three";
+import { PolyhedronIndex } from "../api/polyhedron-index";
+import { distanceToPolyhedron, isCoordsInGeoTriangles, isPointInPolyhedron } from "../api/point-in-polyhedron";
+import { extractGeoTriangles } from "../api/polyhedral-surface";
+import { coordsToVector3 } from "../api/coords-to-vector-3";
+import { Coords } from "../api/coords";
+
+describe("PolyhedronIndex", () => {
+  const origin: Coords = { latitude: 51.5074, longitude: -0.1278, altitude: 0 };
+
+  /** deterministic pseudo random points in a cube */
+  const randomPoints = (count: number, size: number): Vector3Tuple[] => {
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return (seed / 2147483647 - 0.5) * size;
+    };
+    return Array.from({ length: count }, () => [random(), random(), random()] as Vector3Tuple);
+  };
+
+  it("tests points against a box", () => {
+    const index = PolyhedronIndex.fromGeometry(new BoxGeometry(100, 100, 100));
+    expect(index.triangleCount).toBe(12);
+    expect(index.contains([10, 20, -30]).inside).toBe(true);
+    expect(index.contains([10, 60, -30]).inside).toBe(false);
+    expect(index.contains([200, 200, 200])).toEqual({ inside: false, intersectionCount: 0, onBoundary: false });
+    expect(index.contains([50, 0, 0])).toEqual({ inside: true, intersectionCount: 0, onBoundary: true });
+  });
+
+  it("agrees with isPointInPolyhedron on a torus", () => {
+    const torus = new TorusGeometry(40, 15, 12, 24);
+    const index = PolyhedronIndex.fromGeometry(torus);
+    for (const point of randomPoints(300, 120)) {
+      expect(index.contains(point).inside).toBe(isPointInPolyhedron(point, torus).inside);
+    }
+  });
+
+  it("is not fooled by rays grazing an edge", () => {
+    // a ray along the first direction hits the +X face on the y = -z diagonal
+    // shared by its two triangles, and is counted twice by a single ray test
+    const box = new BoxGeometry(100, 100, 100);
+    const index = PolyhedronIndex.fromGeometry(box);
+    for (let t = -40; t <= 40; t += 20) {
+      const point: Vector3Tuple = [0, t - 0.005, -t - 0.005];
+      expect(isPointInPolyhedron(point, box).intersectionCount).toBe(2);
+      expect(index.contains(point).inside).toBe(true);
+      expect(index.contains(point).intersectionCount % 2).toBe(1);
+    }
+  });
+
+  it("works with non-indexed geometries", () => {
+    const index = PolyhedronIndex.fromGeometry(new BoxGeometry(10, 10, 10).toNonIndexed());
+    expect(index.contains([1, 1, 1]).inside).toBe(true);
+    expect(index.contains([1, 6, 1]).inside).toBe(false);
+  });
+
+  it("tests coordinates with GeoTriangles", () => {
+    const triangles = extractGeoTriangles(new BoxGeometry(100, 100, 100), origin);
+    const index = PolyhedronIndex.fromGeoTriangles(triangles, origin);
+    const inside: Coords = { latitude: 51.5074, longitude: -0.1278, altitude: 25 };
+    const outside: Coords = { latitude: 51.5074, longitude: -0.1278, altitude: 75 };
+    expect(index.containsCoords(inside).inside).toBe(true);
+    expect(index.containsCoords(outside).inside).toBe(false);
+    expect(index.containsCoords(inside).inside).toBe(isCoordsInGeoTriangles(inside, triangles, origin).inside);
+  });
+
+  it("tests many points at once", () => {
+    const index = PolyhedronIndex.fromGeometry(new BoxGeometry(100, 100, 100), { origin });
+    const points = new Float32Array([0, 0, 0, 0, 80, 0, 49, -49, 49, ...coordsToVector3(origin, origin)]);
+    expect(Array.from(index.containsMany(points))).toEqual([1, 0, 1, 1]);
+
+    const target = new Uint8Array(4);
+    expect(index.containsMany(points, target)).toBe(target);
+    expect(() => index.containsMany(points, new Uint8Array(2))).toThrow(/one entry per point/);
+    expect(() => index.containsMany([0, 0])).toThrow(/multiple of 3/);
+  });
+
+  it("measures signed distances like distanceToPolyhedron", () => {
+    const torus = new TorusGeometry(40, 15, 12, 24);
+    const index = PolyhedronIndex.fromGeometry(torus);
+    for (const point of randomPoints(100, 120)) {
+      const expected = distanceToPolyhedron(point, torus);
+      const result = index.distanceTo(point);
+      expect(result.distance).toBeCloseTo(expected.distance, 4);
+      expect(result.inside).toBe(expected.inside);
+      expect(result.closestPoint[0]).toBeCloseTo(expected.closestPoint[0], 4);
+    }
+  });
+
+  it("measures distances from coordinates", () => {
+    const index = PolyhedronIndex.fromGeometry(new BoxGeometry(100, 100, 100), { origin });
+    const result = index.distanceToCoords({ ...origin, altitude: 70 });
+    expect(result.distance).toBeCloseTo(20, 3);
+    expect(result.closestCoords.altitude).toBeCloseTo(50, 3);
+  });
+
+  it("validates its input", () => {
+    expect(() => PolyhedronIndex.fromGeometry(new BufferGeometry())).toThrow(/position/);
+    expect(() => PolyhedronIndex.fromGeometry(new BoxGeometry(), { rayCount: 0 })).toThrow(/rayCount/);
+    expect(() => PolyhedronIndex.fromGeometry(new BoxGeometry()).containsCoords(origin)).toThrow(/no origin/);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { BoxGeometry, BufferGeometry, Float32BufferAttribute, Vector3 } from "three";
+import { repairPolyhedronGeometry } from "../api/polyhedron-repair";
+import { validatePolyhedronGeometry } from "../api/polyhedral-surface";
+import { isPointInPolyhedron } from "../api/point-in-polyhedron";
+
+describe("repairPolyhedronGeometry", () => {
+  /** the 12 triangles of a 2m box, 9 numbers each */
+  const boxTriangles = (): number[][] => {
+    const positions = Array.from(new BoxGeometry(2, 2, 2).toNonIndexed().getAttribute("position").array);
+    const triangles: number[][] = [];
+    for (let i = 0; i < positions.length; i += 9) triangles.push(positions.slice(i, i + 9));
+    return triangles;
+  };
+
+  const toGeometry = (triangles: number[][]) => {
+    const geometry = new BufferGeometry();
+    geometry.setAttribute("position", new Float32BufferAttribute(triangles.flat(), 3));
+    return geometry;
+  };
+
+  const flip = (t: number[]) => [...t.slice(0, 3), ...t.slice(6, 9), ...t.slice(3, 6)];
+
+  /** signed volume, positive when normals point outwards */
+  const volume = (geometry: BufferGeometry) => {
+    const pos = geometry.getAttribute("position");
+    const index = geometry.getIndex() as NonNullable<ReturnType<BufferGeometry["getIndex"]>>;
+    const a = new Vector3(), b = new Vector3(), c = new Vector3();
+    let total = 0;
+    for (let i = 0; i < index.count; i += 3) {
+      a.fromBufferAttribute(pos, index.getX(i));
+      b.fromBufferAttribute(pos, index.getX(i + 1));
+      c.fromBufferAttribute(pos, index.getX(i + 2));
+      total += a.dot(b.cross(c)) / 6;
+    }
+    return total;
+  };
+
+  it("welds a non-indexed box into a watertight mesh", () => {
+    const { geometry, report } = repairPolyhedronGeometry(toGeometry(boxTriangles()));
+    expect(geometry.getAttribute("position").count).toBe(8);
+    expect(report.weldedVertexCount).toBe(28);
+    expect(report.triangleCount).toBe(12);
+    expect(report.flippedFaceCount).toBe(0);
+    expect(report.isWatertight).toBe(true);
+    expect(validatePolyhedronGeometry(geometry).isValid).toBe(true);
+    expect(volume(geometry)).toBeCloseTo(8, 5);
+  });
+
+  it("welds vertices within tolerance", () => {
+    const triangles = boxTriangles().map((t) => t.map((v, i) => v + (i % 2 ? 1e-4 : -1e-4)));
+    expect(repairPolyhedronGeometry(toGeometry(triangles)).report.isWatertight).toBe(false);
+    const { report } = repairPolyhedronGeometry(toGeometry(triangles), { tolerance: 1e-3 });
+    expect(report.isWatertight).toBe(true);
+  });
+
+  it("removes degenerate and duplicate faces", () => {
+    const triangles = boxTriangles();
+    triangles.push(triangles[0], flip(triangles[3]), [0, 0, 0, 1, 1, 1, 2, 2, 2]);
+    const { report } = repairPolyhedronGeometry(toGeometry(triangles));
+    expect(report.removedDegenerateFaceCount).toBe(1);
+    expect(report.removedDuplicateFaceCount).toBe(2);
+    expect(report.triangleCount).toBe(12);
+    expect(report.isWatertight).toBe(true);
+  });
+
+  it("fixes inconsistent winding", () => {
+    const triangles = boxTriangles().map((t, i) => (i === 4 || i === 7 ? flip(t) : t));
+    expect(validatePolyhedronGeometry(toGeometry(triangles)).isValid).toBe(true);
+    const { geometry, report } = repairPolyhedronGeometry(toGeometry(triangles));
+    expect(report.flippedFaceCount).toBe(2);
+    expect(volume(geometry)).toBeCloseTo(8, 5);
+  });
+
+  it("turns inside out meshes outwards", () => {
+    const { geometry, report } = repairPolyhedronGeometry(toGeometry(boxTriangles().map(flip)));
+    expect(report.flippedFaceCount).toBe(12);
+    expect(volume(geometry)).toBeCloseTo(8, 5);
+  });
+
+  it("leaves winding alone when disabled", () => {
+    const { report } = repairPolyhedronGeometry(toGeometry(boxTriangles().map(flip)), { fixWinding: false });
+    expect(report.flippedFaceCount).toBe(0);
+  });
+
+  it("fills small holes with outward faces", () => {
+    // remove a whole side of the box, a 4 edge hole
+    const triangles = boxTriangles().slice(2);
+    expect(isPointInPolyhedron([0, 0, 0], toGeometry(triangles)).inside).toBe(false);
+
+    const { geometry, report } = repairPolyhedronGeometry(toGeometry(triangles));
+    expect(report.filledHoleCount).toBe(1);
+    expect(report.addedFaceCount).toBe(2);
+    expect(report.isWatertight).toBe(true);
+    expect(validatePolyhedronGeometry(geometry).isValid).toBe(true);
+    expect(volume(geometry)).toBeCloseTo(8, 5);
+    expect(isPointInPolyhedron([0.5, 0.2, 0.1], geometry).inside).toBe(true);
+  });
+
+  it("leaves holes larger than maxHoleEdges open", () => {
+    const triangles = boxTriangles().slice(2);
+    const { report } = repairPolyhedronGeometry(toGeometry(triangles), { maxHoleEdges: 3 });
+    expect(report.filledHoleCount).toBe(0);
+    expect(report.unfilledHoleCount).toBe(1);
+    expect(report.nonManifoldEdgeCount).toBe(4);
+    expect(report.isWatertight).toBe(false);
+  });
+
+  it("accepts indexed geometries and does not mutate them", () => {
+    const box = new BoxGeometry(2, 2, 2);
+    const positions = Array.from(box.getAttribute("position").array);
+    const { report } = repairPolyhedronGeometry(box);
+    expect(report.isWatertight).toBe(true);
+    expect(Array.from(box.getAttribute("position").array)).toEqual(positions);
+    expect(box.getIndex()?.count).toBe(36);
+  });
+
+  it("throws without a position attribute", () => {
+    expect(() => repairPolyhedronGeometry(new BufferGeometry())).toThrow(/position/);
+  });
+});
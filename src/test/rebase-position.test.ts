@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { isRebaseNeeded } from "../core/auto-rebase";
+import { coordsToVector3 } from "../api/coords-to-vector-3";
+import { rebasePosition } from "../api/rebase-position";
+import { vector3ToCoords } from "../api/vector-3-to-coords";
+
+describe("rebasePosition", () => {
+  const from = { latitude: 51.5074, longitude: -0.1278, altitude: 0 };
+  const to = { latitude: 51.52, longitude: -0.1, altitude: 20 };
+
+  it("keeps the geographic coordinates of a position", () => {
+    const position = coordsToVector3({ latitude: 51.51, longitude: -0.12, altitude: 35 }, from);
+    const rebased = rebasePosition(position, from, to);
+    const coords = vector3ToCoords(rebased, to);
+    expect(coords.latitude).toBeCloseTo(51.51, 9);
+    expect(coords.longitude).toBeCloseTo(-0.12, 9);
+    expect(coords.altitude).toBeCloseTo(35, 6);
+  });
+
+  it("puts the new origin at zero", () => {
+    const position = coordsToVector3(to, from);
+    rebasePosition(position, from, to).forEach((v) => expect(v).toBeCloseTo(0, 6));
+  });
+
+  it("supports the WGS84 model", () => {
+    const options = { model: 'wgs84-enu' } as const;
+    const position = coordsToVector3(to, from, options);
+    rebasePosition(position, from, to, options).forEach((v) => expect(v).toBeCloseTo(0, 6));
+  });
+});
+
+describe("isRebaseNeeded", () => {
+  const origin = { latitude: 51.5074, longitude: -0.1278 };
+
+  it("measures the ground distance to the map center", () => {
+    // about 1110m north
+    const center = { latitude: 51.5174, longitude: -0.1278 };
+    expect(isRebaseNeeded(origin, center, 1000)).toBe(true);
+    expect(isRebaseNeeded(origin, center, 1200)).toBe(false);
+    // altitude does not count
+    expect(isRebaseNeeded({ ...origin, altitude: 5000 }, origin, 1000)).toBe(false);
+  });
+});
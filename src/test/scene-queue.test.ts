@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { queueScene, renderQueuedScenes } from "../core/scene-queue";
+
+describe("renderQueuedScenes", () => {
+  const queue = (renderer: object, rendered: string[], name: string, renderOrder: number, distance: number) =>
+    queueScene(renderer, { renderOrder, distance, render: () => rendered.push(name) });
+
+  it("renders by renderOrder, then back to front", () => {
+    const renderer = {};
+    const rendered: string[] = [];
+    queue(renderer, rendered, "near", 0, 10);
+    queue(renderer, rendered, "overlay", 1, 1000);
+    queue(renderer, rendered, "far", 0, 500);
+    queue(renderer, rendered, "background", -1, 1);
+    renderQueuedScenes(renderer);
+    expect(rendered).toEqual(["background", "far", "near", "overlay"]);
+  });
+
+  it("empties the queue and keeps renderers apart", () => {
+    const a = {};
+    const b = {};
+    const rendered: string[] = [];
+    queue(a, rendered, "a", 0, 0);
+    queue(b, rendered, "b", 0, 0);
+    renderQueuedScenes(a);
+    renderQueuedScenes(a);
+    expect(rendered).toEqual(["a"]);
+    renderQueuedScenes(b);
+    expect(rendered).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { Matrix4, PerspectiveCamera, Vector3 } from "three";
+import { syncCamera } from "../core/sync-camera";
+
+describe("syncCamera", () => {
+  // a map camera 300m up, 5km away from the origin
+  const eye = new Vector3(5000, 300, 4000);
+  const mapCamera = new PerspectiveCamera(40, 1.5, 10, 1e5);
+  mapCamera.position.copy(eye);
+  mapCamera.lookAt(5100, 0, 3900);
+  mapCamera.updateMatrixWorld(true);
+  const mapCamMx = mapCamera.projectionMatrix.clone().multiply(mapCamera.matrixWorldInverse).toArray();
+  const origin = new Matrix4().identity().toArray();
+
+  const worldToClip = (camera: PerspectiveCamera) =>
+    camera.projectionMatrix.clone().multiply(camera.matrixWorldInverse).elements;
+
+  const expectElementsClose = (actual: number[], expected: number[], digits: number) =>
+    actual.forEach((v, i) => expect(v).toBeCloseTo(expected[i], digits));
+
+  it("projects like the map", () => {
+    const camera = new PerspectiveCamera();
+    syncCamera(camera, origin, mapCamMx);
+    expectElementsClose(worldToClip(camera), mapCamMx, 9);
+  });
+
+  it("puts the camera at the eye with a floating origin", () => {
+    const camera = new PerspectiveCamera();
+    syncCamera(camera, origin, mapCamMx, undefined, true);
+    expectElementsClose(worldToClip(camera), mapCamMx, 9);
+    expect(camera.position.distanceTo(eye)).toBeLessThan(1e-6);
+    // all that is left for the GPU is the perspective
+    expectElementsClose(camera.projectionMatrix.elements, mapCamera.projectionMatrix.elements, 9);
+    // and world coordinates, as before
+    expect(camera.userData.projByView).toEqual(mapCamMx);
+  });
+});
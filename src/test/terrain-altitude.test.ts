@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { getTerrainElevation, isTerrainSourceData, resolveAltitude } from "../core/terrain-altitude";
+import { MapInstance, MapSourceDataEvent } from "../core/generic-map";
+
+describe("resolveAltitude", () => {
+  const coords = { latitude: 36.2797, longitude: -121.8333, altitude: 50 };
+
+  /** map whose terrain rises 10m per degree of longitude east of -122 */
+  const terrainMap = (): MapInstance => ({
+    getCanvas: () => document.createElement("canvas"),
+    triggerRepaint: () => undefined,
+    getCenter: () => ({ lng: coords.longitude, lat: coords.latitude }),
+    on: () => undefined,
+    off: () => undefined,
+    queryTerrainElevation: (lngLat) => {
+      const [longitude] = lngLat as [number, number];
+      return (longitude + 122) * 10;
+    },
+  });
+
+  it("keeps altitudes above sea level", () => {
+    expect(resolveAltitude(terrainMap(), coords)).toBe(50);
+    expect(resolveAltitude(terrainMap(), { ...coords, altitudeReference: "sea" })).toBe(50);
+    expect(resolveAltitude(undefined, { latitude: 0, longitude: 0 })).toBe(0);
+  });
+
+  it("puts coordinates on the terrain", () => {
+    expect(resolveAltitude(terrainMap(), { ...coords, altitudeReference: "terrain" })).toBeCloseTo(1.667, 3);
+  });
+
+  it("adds the altitude to the terrain elevation", () => {
+    expect(resolveAltitude(terrainMap(), { ...coords, altitudeReference: "relative-to-terrain" })).toBeCloseTo(51.667, 3);
+  });
+
+  it("puts the terrain at sea level when the map has none", () => {
+    const map = { ...terrainMap(), queryTerrainElevation: () => null };
+    expect(getTerrainElevation(map, coords)).toBe(0);
+    expect(resolveAltitude(map, { ...coords, altitudeReference: "relative-to-terrain" })).toBe(50);
+    expect(resolveAltitude(undefined, { ...coords, altitudeReference: "terrain" })).toBe(0);
+  });
+});
+
+describe("isTerrainSourceData", () => {
+  const map = (terrain: { source: string } | null): MapInstance => ({
+    getCanvas: () => document.createElement("canvas"),
+    triggerRepaint: () => undefined,
+    getCenter: () => ({ lng: 0, lat: 0 }),
+    on: () => undefined,
+    off: () => undefined,
+    getTerrain: () => terrain,
+  });
+  const event = (sourceId: string) => ({ type: "sourcedata", dataType: "source", sourceId }) as MapSourceDataEvent;
+
+  it("only accepts tiles of the terrain source", () => {
+    expect(isTerrainSourceData(map({ source: "dem" }), event("dem"))).toBe(true);
+    expect(isTerrainSourceData(map({ source: "dem" }), event("buildings"))).toBe(false);
+  });
+
+  it("ignores every source without terrain", () => {
+    expect(isTerrainSourceData(map(null), event("buildings"))).toBe(false);
+    expect(isTerrainSourceData(map(null), event("dem"))).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { Matrix4 } from "three";
+import { TransformHistory } from "../api/transform-history";
+
+const at = (x: number) => new Matrix4().makeTranslation(x, 0, 0);
+
+/** a drag of object `id` from `from` to `to` meters east */
+const drag = (history: TransformHistory, id: string, from: number, to: number) => {
+  history.begin(id, at(from));
+  return history.end(at(to));
+};
+
+describe("TransformHistory", () => {
+  it("records one entry per drag", () => {
+    const history = new TransformHistory();
+    expect(history.canUndo).toBe(false);
+    const entry = drag(history, "crane", 0, 10);
+    expect(entry).toEqual({ id: "crane", before: at(0).toArray(), after: at(10).toArray() });
+    expect(history.canUndo).toBe(true);
+    expect(history.isRecording).toBe(false);
+  });
+
+  it("skips drags that moved nothing, and ends without begin", () => {
+    const history = new TransformHistory();
+    expect(drag(history, "crane", 5, 5)).toBeUndefined();
+    expect(history.end(at(1))).toBeUndefined();
+    history.begin("crane", at(0));
+    history.cancel();
+    expect(history.end(at(1))).toBeUndefined();
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("undoes and redoes in order", () => {
+    const history = new TransformHistory();
+    drag(history, "crane", 0, 10);
+    drag(history, "truck", 0, 20);
+
+    expect(history.undo()?.id).toBe("truck");
+    expect(history.undo()?.before).toEqual(at(0).toArray());
+    expect(history.undo()).toBeUndefined();
+    expect(history.canRedo).toBe(true);
+
+    expect(history.redo()?.id).toBe("crane");
+    expect(history.redo()?.after).toEqual(at(20).toArray());
+    expect(history.redo()).toBeUndefined();
+  });
+
+  it("clears what could be redone on new drags", () => {
+    const history = new TransformHistory();
+    drag(history, "crane", 0, 10);
+    history.undo();
+    drag(history, "crane", 0, 30);
+    expect(history.canRedo).toBe(false);
+    expect(history.undo()?.after).toEqual(at(30).toArray());
+  });
+
+  it("keeps at most `limit` entries", () => {
+    const history = new TransformHistory({ limit: 2 });
+    drag(history, "a", 0, 1);
+    drag(history, "b", 0, 1);
+    drag(history, "c", 0, 1);
+    expect(history.undo()?.id).toBe("c");
+    expect(history.undo()?.id).toBe("b");
+    expect(history.undo()).toBeUndefined();
+  });
+
+  it("round trips through JSON", () => {
+    const history = new TransformHistory();
+    drag(history, "crane", 0, 10);
+    drag(history, "truck", 0, 20);
+    history.undo();
+
+    const json = JSON.parse(JSON.stringify(history));
+    expect(json).toEqual(history.toJSON());
+    const restored = TransformHistory.fromJSON(json);
+    expect(restored.redo()?.id).toBe("truck");
+    expect(restored.undo()?.id).toBe("truck");
+    expect(restored.undo()?.id).toBe("crane");
+  });
+
+  it("rejects invalid JSON", () => {
+    expect(() => TransformHistory.fromJSON({ version: 2 } as never)).toThrow(/version 1/);
+    expect(() => TransformHistory.fromJSON({
+      version: 1, past: [{ id: "crane", before: [1, 2], after: at(0).toArray() }], future: [],
+    } as never)).toThrow(/Invalid transform history entry/);
+  });
+});
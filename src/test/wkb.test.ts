@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { BoxGeometry } from "three";
+import {
+  bufferGeometryToWKB,
+  geoTrianglesToHexWKB,
+  geoTrianglesToWKB,
+  getWKBSrid,
+  parseWKB,
+  wkbToBufferGeometry,
+} from "../api/wkb";
+import { GeoTriangle } from "../api/polyhedral-surface";
+import { Coords } from "../api/coords";
+
+describe("wkb", () => {
+  const origin: Coords = { latitude: 51.5074, longitude: -0.1278, altitude: 0 };
+
+  const triangles: GeoTriangle[] = [
+    {
+      v0: { longitude: -0.1278, latitude: 51.5074, altitude: 0 },
+      v1: { longitude: -0.1268, latitude: 51.5074, altitude: 0 },
+      v2: { longitude: -0.1273, latitude: 51.5084, altitude: 25 },
+    },
+    {
+      v0: { longitude: -0.1278, latitude: 51.5074, altitude: 0 },
+      v1: { longitude: -0.1273, latitude: 51.5084, altitude: 25 },
+      v2: { longitude: -0.1283, latitude: 51.5084, altitude: 0 },
+    },
+  ];
+
+  const ZERO = "0000000000000000";
+  const ONE_LE = "000000000000F03F";
+  const ONE_BE = "3FF0000000000000";
+
+  it("parses little endian EWKB POLYGON Z with SRID, as written by PostGIS", () => {
+    // SELECT ST_AsEWKB('SRID=4326;POLYGON Z ((0 0 0, 1 0 0, 0 1 1, 0 0 0))')
+    const hex = "01030000A0E6100000" + "01000000" + "04000000" +
+      ZERO + ZERO + ZERO +
+      ONE_LE + ZERO + ZERO +
+      ZERO + ONE_LE + ONE_LE +
+      ZERO + ZERO + ZERO;
+    expect(getWKBSrid(hex)).toBe(4326);
+    const result = parseWKB(hex);
+    expect(result).toEqual([{
+      v0: { longitude: 0, latitude: 0, altitude: 0 },
+      v1: { longitude: 1, latitude: 0, altitude: 0 },
+      v2: { longitude: 0, latitude: 1, altitude: 1 },
+    }]);
+  });
+
+  it("parses big endian ISO WKB TIN Z", () => {
+    const hex = "00000003F8" + "00000001" +
+      "00000003F9" + "00000001" + "00000004" +
+      ZERO + ZERO + ZERO +
+      ONE_BE + ZERO + ZERO +
+      ZERO + ONE_BE + ONE_BE +
+      ZERO + ZERO + ZERO;
+    expect(getWKBSrid(hex)).toBeUndefined();
+    const result = parseWKB(hex);
+    expect(result.length).toBe(1);
+    expect(result[0].v2).toEqual({ longitude: 0, latitude: 1, altitude: 1 });
+  });
+
+  it.each(["POLYHEDRALSURFACE", "TIN", "MULTIPOLYGON"] as const)("round trips %s", (type) => {
+    for (const littleEndian of [true, false]) {
+      expect(parseWKB(geoTrianglesToWKB(triangles, { type, littleEndian }))).toEqual(triangles);
+      expect(parseWKB(geoTrianglesToWKB(triangles, { type, littleEndian, srid: 4326 }))).toEqual(triangles);
+    }
+  });
+
+  it("writes EWKB headers and hex", () => {
+    const hex = geoTrianglesToHexWKB(triangles, { type: 'TIN', srid: 4326 });
+    // little endian, TIN | Z | SRID, 4326, 2 triangles
+    expect(hex.startsWith("01100000A0E610000002000000")).toBe(true);
+    // children repeat the Z flag, without SRID
+    expect(hex.substring(26, 36)).toBe("0111000080");
+    expect(getWKBSrid(hex)).toBe(4326);
+    // ISO WKB, POLYHEDRALSURFACE Z = 1015
+    expect(geoTrianglesToHexWKB(triangles).startsWith("01F7030000")).toBe(true);
+  });
+
+  it("accepts Uint8Array views and PostgreSQL bytea hex", () => {
+    const bytes = geoTrianglesToWKB(triangles);
+    const padded = new Uint8Array(bytes.length + 3);
+    padded.set(bytes, 3);
+    expect(parseWKB(padded.subarray(3))).toEqual(triangles);
+    expect(parseWKB("\\x" + geoTrianglesToHexWKB(triangles).toLowerCase())).toEqual(triangles);
+  });
+
+  it("rejects malformed input", () => {
+    const bytes = geoTrianglesToWKB(triangles);
+    expect(() => parseWKB(bytes.subarray(0, bytes.length - 1))).toThrow(/unexpected end/);
+    expect(() => parseWKB("0101000000")).toThrow(/Unsupported WKB geometry type 1/);
+    expect(() => parseWKB("abc")).toThrow(/Invalid hex/);
+    expect(() => parseWKB(geoTrianglesToHexWKB(triangles) + "00")).toThrow(/trailing/);
+  });
+
+  it("round trips a BufferGeometry", () => {
+    const box = new BoxGeometry(100, 50, 20);
+    const geometry = wkbToBufferGeometry(bufferGeometryToWKB(box, { origin, srid: 4326 }), { origin });
+    geometry.computeBoundingBox();
+    expect(geometry.boundingBox?.max.x).toBeCloseTo(50, 2);
+    expect(geometry.boundingBox?.min.z).toBeCloseTo(-10, 2);
+    expect(geometry.getAttribute("position").count).toBe(36);
+  });
+});
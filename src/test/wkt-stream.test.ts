@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { parseWKTStream, WKTParseError, WKTStreamParser } from "../api/wkt-stream";
+import { parseWKT } from "../api/wkt";
+import { GeoTriangle } from "../api/polyhedral-surface";
+
+describe("wkt-stream", () => {
+  const wkt = `SRID=4326;POLYHEDRALSURFACE Z (
+  ((0 0 0, 1 0 0, 1 1 0, 0 1 0, 0 0 0)),
+  ((0 0 1, 1 0 1, 0 1 1, 0 0 1))
+)`;
+
+  const catchError = (fn: () => unknown): WKTParseError => {
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(WKTParseError);
+      return error as WKTParseError;
+    }
+    throw new Error("expected a WKTParseError");
+  };
+
+  const collect = async (iterable: AsyncIterable<GeoTriangle>) => {
+    const triangles: GeoTriangle[] = [];
+    for await (const triangle of iterable) triangles.push(triangle);
+    return triangles;
+  };
+
+  describe("WKTStreamParser", () => {
+    it("gives the same triangles whatever the chunk size", () => {
+      const expected = parseWKT(wkt);
+      for (const size of [1, 2, 7, 64]) {
+        const parser = new WKTStreamParser();
+        const triangles: GeoTriangle[] = [];
+        for (let i = 0; i < wkt.length; i += size) {
+          triangles.push(...parser.write(wkt.substring(i, i + size)));
+        }
+        parser.end();
+        expect(triangles).toEqual(expected);
+      }
+    });
+
+    it("returns the triangles of each polygon once it is closed", () => {
+      const parser = new WKTStreamParser();
+      const split = wkt.indexOf("((0 0 1");
+      expect(parser.write(wkt.substring(0, split)).length).toBe(2);
+      expect(parser.type).toBe("POLYHEDRALSURFACE");
+      expect(parser.srid).toBe(4326);
+      expect(parser.write(wkt.substring(split)).length).toBe(1);
+      parser.end();
+    });
+
+    it("does not split numbers across chunks", () => {
+      const parser = new WKTStreamParser();
+      parser.write("TIN Z (((0 0 12");
+      const triangles = parser.write("5, 0 1 0, 1 0 0, 0 0 125)))");
+      parser.end();
+      expect(triangles[0].v0.altitude).toBe(125);
+    });
+
+    it("reports the polygon, ring and position of invalid numbers", () => {
+      const error = catchError(() => parseWKT(wkt.replace("0 1 1", "0 x 1")));
+      expect(error.message).toMatch(/numeric value/);
+      expect(error.polygonIndex).toBe(1);
+      expect(error.ringIndex).toBe(0);
+      expect(error.line).toBe(3);
+      expect(error.column).toBe(21);
+      expect(wkt.replace("0 1 1", "0 x 1")[error.offset]).toBe("x");
+    });
+
+    it("reports unclosed rings at the start of the ring", () => {
+      const input = "POLYGON Z ((0 0 0, 4 0 0, 4 4 0, 0 0 0), (1 1 0, 1 3 0, 3 3 0, 1 2 0))";
+      const error = catchError(() => parseWKT(input));
+      expect(error.message).toMatch(/close the ring/);
+      expect(error.polygonIndex).toBe(0);
+      expect(error.ringIndex).toBe(1);
+      expect(error.offset).toBe(input.indexOf("(1 1 0"));
+    });
+
+    it("reports degenerate faces at the start of the polygon", () => {
+      const input = "TIN Z (((0 0 0, 0 1 0, 1 0 0, 0 0 0)), ((0 0 0, 1 1 1, 2 2 2, 0 0 0)))";
+      const error = catchError(() => parseWKT(input));
+      expect(error.polygonIndex).toBe(1);
+      expect(error.ringIndex).toBeUndefined();
+      expect(error.offset).toBe(input.lastIndexOf("(("));
+    });
+
+    it("reports structural errors outside of polygons", () => {
+      expect(catchError(() => parseWKT("CIRCLE Z (0 0 0)")).offset).toBe(0);
+      const trailing = catchError(() => parseWKT("TIN Z EMPTY TIN"));
+      expect(trailing.message).toMatch(/unexpected "TIN"/);
+      expect(trailing.offset).toBe(12);
+      expect(trailing.polygonIndex).toBeUndefined();
+    });
+
+    it("throws on incomplete input when ended", () => {
+      const parser = new WKTStreamParser();
+      parser.write("TIN Z (((0 0 0, 0 1 0, 1 0 0, 0 0 0))");
+      const error = catchError(() => parser.end());
+      expect(error.message).toMatch(/expected "\)" but found end of input/);
+      expect(error.offset).toBe(37);
+    });
+  });
+
+  describe("parseWKTStream", () => {
+    it("parses an iterable of strings", async () => {
+      const chunks = wkt.match(/[\s\S]{1,5}/g) as string[];
+      expect(await collect(parseWKTStream(chunks))).toEqual(parseWKT(wkt));
+    });
+
+    it("decodes UTF-8 bytes split across chunks", async () => {
+      // an em space is 3 bytes in UTF-8
+      const bytes = new TextEncoder().encode("TIN Z\u2003(((0 0 0,\u20030 1 0, 1 0 0, 0 0 0)))");
+      async function* chunks() {
+        for (let i = 0; i < bytes.length; i += 3) yield bytes.subarray(i, i + 3);
+      }
+      expect((await collect(parseWKTStream(chunks()))).length).toBe(1);
+    });
+
+    it("rejects with a WKTParseError", async () => {
+      await expect(collect(parseWKTStream(["TIN Z (((0 0 0, 0 1 0", ", 1 0 0, 1 1 1)))"])))
+        .rejects.toThrow(WKTParseError);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { geoTrianglesToWKT, parseWKT } from "../api/wkt";
+import { GeoTriangle, wktToBufferGeometry, bufferGeometryToWKT } from "../api/polyhedral-surface";
+import { BoxGeometry } from "three";
+import { Coords } from "../api/coords";
+
+describe("wkt", () => {
+  const origin: Coords = { latitude: 51.5074, longitude: -0.1278, altitude: 0 };
+
+  const triangles: GeoTriangle[] = [
+    {
+      v0: { longitude: -0.1278, latitude: 51.5074, altitude: 0 },
+      v1: { longitude: -0.1268, latitude: 51.5074, altitude: 0 },
+      v2: { longitude: -0.1273, latitude: 51.5084, altitude: 25 },
+    },
+    {
+      v0: { longitude: -0.1278, latitude: 51.5074, altitude: 0 },
+      v1: { longitude: -0.1273, latitude: 51.5084, altitude: 25 },
+      v2: { longitude: -0.1283, latitude: 51.5084, altitude: 0 },
+    },
+  ];
+
+  describe("parseWKT", () => {
+    it("parses TIN Z", () => {
+      const result = parseWKT("TIN Z (((0 0 0, 0 1 0, 1 0 5, 0 0 0)), ((0 0 0, 1 0 5, 1 1 0, 0 0 0)))");
+      expect(result.length).toBe(2);
+      expect(result[0].v2).toEqual({ longitude: 1, latitude: 0, altitude: 5 });
+    });
+
+    it("parses MULTIPOLYGON Z and triangulates quads", () => {
+      const result = parseWKT("MULTIPOLYGON Z (((0 0 0, 1 0 0, 1 1 0, 0 1 0, 0 0 0)), ((0 0 1, 1 0 1, 0 1 1, 0 0 1)))");
+      expect(result.length).toBe(3);
+    });
+
+    it("parses POLYGON Z with holes", () => {
+      const result = parseWKT(
+        "POLYGON Z ((0 0 0, 4 0 0, 4 4 0, 0 4 0, 0 0 0), (1 1 0, 1 3 0, 3 3 0, 3 1 0, 1 1 0))"
+      );
+      const area = result.reduce((acc, { v0, v1, v2 }) => acc + Math.abs(
+        (v1.longitude - v0.longitude) * (v2.latitude - v0.latitude) -
+        (v2.longitude - v0.longitude) * (v1.latitude - v0.latitude)
+      ) / 2, 0);
+      expect(area).toBeCloseTo(16 - 4, 9);
+    });
+
+    it("parses TRIANGLE and POLYHEDRALSURFACE", () => {
+      expect(parseWKT("TRIANGLE Z ((0 0 0, 1 0 0, 0 1 0, 0 0 0))").length).toBe(1);
+      expect(parseWKT("POLYHEDRALSURFACE Z (((0 0 0, 1 0 0, 0 1 0, 0 0 0)))").length).toBe(1);
+    });
+
+    it("reads 2D, M and ZM coordinates", () => {
+      expect(parseWKT("POLYGON ((0 0, 1 0, 0 1, 0 0))")[0].v1.altitude).toBe(0);
+      expect(parseWKT("POLYGON M ((0 0 9, 1 0 9, 0 1 9, 0 0 9))")[0].v1.altitude).toBe(0);
+      expect(parseWKT("POLYGON ZM ((0 0 3 9, 1 0 3 9, 0 1 3 9, 0 0 3 9))")[0].v1.altitude).toBe(3);
+    });
+
+    it("strips SRID and handles EMPTY", () => {
+      expect(parseWKT("SRID=4326;TIN Z (((0 0 0, 0 1 0, 1 0 0, 0 0 0)))").length).toBe(1);
+      expect(parseWKT("MULTIPOLYGON Z EMPTY")).toEqual([]);
+    });
+
+    it("rejects unsupported and malformed input", () => {
+      expect(() => parseWKT("")).toThrow(/empty string/);
+      expect(() => parseWKT("POINT Z (0 0 0)")).toThrow(/Invalid WKT format/);
+      expect(() => parseWKT("TIN Z (((0 0 0, 0 1 0, 1 0 0, 0 0 0))")).toThrow(/expected "\)"/);
+      expect(() => parseWKT("TIN Z (((0 0 0, 0 1 0, 1 0 0, 0 0 0))) x")).toThrow(/unexpected/);
+      expect(() => parseWKT("TIN Z (((0 0 0, 0 1 0, 1 0 0, 1 1 1)))")).toThrow(/close the ring/);
+      expect(() => parseWKT("POLYGON Z ((0 0 0, a 1 0, 1 0 0, 0 0 0))")).toThrow(/numeric value/);
+      expect(() => parseWKT("POLYGON Z (0 0 0, 1 1 0, 1 0 0, 0 0 0)")).toThrow(/list of rings/);
+    });
+  });
+
+  describe("geoTrianglesToWKT", () => {
+    it.each(["POLYHEDRALSURFACE", "TIN", "MULTIPOLYGON"] as const)("round trips %s", (type) => {
+      const wkt = geoTrianglesToWKT(triangles, { type });
+      expect(wkt.startsWith(`${type} Z (((`)).toBe(true);
+      const parsed = parseWKT(wkt);
+      expect(parsed.length).toBe(2);
+      expect(parsed[1].v1.altitude).toBeCloseTo(25, 6);
+      expect(parsed[1].v2.longitude).toBeCloseTo(-0.1283, 8);
+    });
+
+    it("writes a single POLYGON", () => {
+      expect(geoTrianglesToWKT(triangles.slice(0, 1), { type: 'POLYGON', precision: 1 }))
+        .toBe("POLYGON Z ((-0.1 51.5 0.0, -0.1 51.5 0.0, -0.1 51.5 25.0, -0.1 51.5 0.0))");
+      expect(() => geoTrianglesToWKT(triangles, { type: 'POLYGON' })).toThrow(/single face/);
+    });
+
+    it("writes EWKT and EMPTY", () => {
+      expect(geoTrianglesToWKT(triangles, { srid: 4326 }).startsWith("SRID=4326;POLYHEDRALSURFACE Z")).toBe(true);
+      expect(geoTrianglesToWKT([], { type: 'TIN' })).toBe("TIN Z EMPTY");
+    });
+  });
+
+  describe("BufferGeometry", () => {
+    it("round trips a box through TIN", () => {
+      const box = new BoxGeometry(100, 50, 20);
+      const wkt = bufferGeometryToWKT(box, { origin, type: 'TIN' });
+      expect(wkt.startsWith("TIN Z")).toBe(true);
+      const geometry = wktToBufferGeometry(wkt, { origin });
+      geometry.computeBoundingBox();
+      expect(geometry.boundingBox?.max.x).toBeCloseTo(50, 2);
+      expect(geometry.boundingBox?.max.y).toBeCloseTo(25, 2);
+      expect(geometry.getAttribute("position").count).toBe(36);
+    });
+
+    it("reads MULTIPOLYGON Z into a BufferGeometry", () => {
+      const geometry = wktToBufferGeometry(geoTrianglesToWKT(triangles, { type: 'MULTIPOLYGON' }), { origin });
+      expect(geometry.getAttribute("position").count).toBe(6);
+    });
+  });
+});
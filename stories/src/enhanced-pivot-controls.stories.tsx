@@ -1,9 +1,9 @@
 import { Box, Cone, ScreenSizer } from "@react-three/drei";
-import { useControls } from "leva";
+import { button, useControls } from "leva";
 import { FC, useCallback, useEffect, useMemo, useState } from "react";
 import { Marker as MapboxMarker } from "react-map-gl/mapbox";
 import { Marker as MaplibreMarker } from "react-map-gl/maplibre";
-import { useMap, vector3ToCoords } from "@wendylabsinc/react-three-map";
+import { useTransformHistory, vector3ToCoords } from "@wendylabsinc/react-three-map";
 import { Euler, Matrix4, Quaternion, Vector3, Vector3Tuple } from "three";
 import { StoryMap } from "./story-map-storybook";
 import { EnhancedPivotControls } from "@wendylabsinc/react-three-map";
@@ -297,17 +297,6 @@ const Move: FC<MovingBoxProps> = ({
     return m;
   }, [position, rotation]);
   
-  const map = useMap();
-  const onDragStart = useCallback(() => {
-    map.dragPan.disable();
-    map.dragRotate.disable();
-  }, [map]);
-  
-  const onDragEnd = useCallback(() => {
-    map.dragPan.enable();
-    map.dragRotate.enable();
-  }, [map]);
-  
   const onDrag = useCallback((m4: Matrix4) => {
     setPosition(_v3.setFromMatrixPosition(m4).toArray());
     if (showRotationX || showRotationY || showRotationZ) {
@@ -331,8 +320,6 @@ const Move: FC<MovingBoxProps> = ({
       disableRotations={disableRotations}
       disableTranslations={disableTranslations}
       scale={scale}
-      onDragStart={onDragStart}
-      onDragEnd={onDragEnd}
       onDrag={onDrag}
       annotations={showLabels}
       rotationThickness={rotationThickness}
@@ -457,6 +444,7 @@ const bufferGeometryExamples = [
     position: [-400, 120, -120] as Vector3Tuple,
     rotation: [0, Math.PI / 10, 0] as Vector3Tuple,
     scale: 1,
+    dimensions: [140, 140, 140] as Vector3Tuple,
     geometry: <boxGeometry args={[140, 140, 140]} />
   },
   {
@@ -465,6 +453,7 @@ const bufferGeometryExamples = [
     position: [0, 160, 0] as Vector3Tuple,
     rotation: [Math.PI / 8, Math.PI / 6, 0] as Vector3Tuple,
     scale: 1,
+    dimensions: [220, 220, 220] as Vector3Tuple,
     geometry: <sphereGeometry args={[110, 48, 32]} />
   },
   {
@@ -473,6 +462,7 @@ const bufferGeometryExamples = [
     position: [420, 100, 140] as Vector3Tuple,
     rotation: [-Math.PI / 10, 0, Math.PI / 8] as Vector3Tuple,
     scale: 1,
+    dimensions: undefined,
     geometry: <torusKnotGeometry args={[90, 26, 120, 20]} />
   }
 ];
@@ -504,12 +494,16 @@ export function EnhancedPivotBufferGeometryExamples() {
     annotations,
     lockTranslations,
     lockRotations,
+    showSliders,
+    showScaling,
     uniformScale
   } = useControls('BufferGeometry Examples', {
     controlScale: { value: 420, min: 100, max: 900, step: 20, label: 'Control Scale' },
     annotations: { value: true, label: 'Show Angle Annotations' },
     lockTranslations: { value: false, label: 'Lock Translations' },
     lockRotations: { value: false, label: 'Lock Rotations' },
+    showSliders: { value: true, label: 'Show Plane Squares' },
+    showScaling: { value: true, label: 'Show Scale Handles' },
     uniformScale: { value: 1, min: 0.5, max: 3, step: 0.1, label: 'Mesh Scale' }
   });
   const [matrices, setMatrices] = useState<Matrix4[]>(() =>
@@ -534,6 +528,16 @@ export function EnhancedPivotBufferGeometryExamples() {
     );
   }, []);
 
+  // Ctrl+Z / Ctrl+Shift+Z, or the buttons below
+  const { bind, undo, redo, canUndo, canRedo } = useTransformHistory({
+    onApply: (id, matrix) => handleDrag(bufferGeometryExamples.findIndex(({ name }) => name === id), matrix)
+  });
+
+  useControls('History', {
+    undo: button(undo, { disabled: !canUndo }),
+    redo: button(redo, { disabled: !canRedo })
+  }, {}, [undo, redo, canUndo, canRedo]);
+
   return (
     <div style={{ height: '100vh' }}>
       <StoryMap
@@ -556,7 +560,12 @@ export function EnhancedPivotBufferGeometryExamples() {
               annotations={annotations}
               disableTranslations={lockTranslations}
               disableRotations={lockRotations}
-              onDrag={(nextMatrix) => handleDrag(index, nextMatrix)}
+              disableSliders={!showSliders}
+              disableScaling={!showScaling}
+              dimensions={bufferGeometryExamples[index].dimensions}
+              {...bind(bufferGeometryExamples[index].name, matrix, {
+                onDrag: (nextMatrix) => handleDrag(index, nextMatrix)
+              })}
             />
             <mesh matrixAutoUpdate={false} matrix={matrix}>
               {bufferGeometryExamples[index].geometry}
@@ -20,7 +20,7 @@ function SceneContent() {
       <ambientLight intensity={Math.PI} />
       <directionalLight intensity={Math.PI} />
       <Suspense fallback={null}>
-        <BatchedBuildings buildingsCenter={coords} origin={coords} />
+        <BatchedBuildings buildingsCenter={coords} />
       </Suspense>
     </>
   );
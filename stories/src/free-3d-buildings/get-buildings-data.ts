@@ -9,6 +9,8 @@ export interface OverpassElement {
     height?: string;
     min_height?: string;
     ['building:levels']?: string;
+    ['roof:shape']?: string;
+    ['roof:height']?: string;
   };
   nodes?: number[];
   geometry?: Array<{
@@ -12,8 +12,12 @@ import {
   isCoordsInPolyhedron,
   isPointInPolyhedron,
   bufferGeometryToGeoTriangles,
+  polygonPrismToGeoTriangles,
+  isCoordsInGeoTriangles,
+  coordsToVector3,
   Coords,
 } from '../../src/api'
+import { GeofencePrism } from '../../src/components/geofence-prism'
 
 interface TestPoint {
   id: string
@@ -386,6 +390,65 @@ function GeoCoordsDemo() {
   )
 }
 
+function PrismDemo() {
+  const center: [number, number] = [-122.4194, 37.7749]
+  const origin: Coords = { latitude: center[1], longitude: center[0], altitude: 0 }
+
+  // an L shaped airspace with a hole
+  const ring = useMemo<Coords[]>(() => [
+    [-122.4204, 37.7742], [-122.4184, 37.7742], [-122.4184, 37.7749],
+    [-122.4194, 37.7749], [-122.4194, 37.7756], [-122.4204, 37.7756],
+  ].map(([longitude, latitude]) => ({ longitude, latitude })), [])
+  const holes = useMemo<Coords[][]>(() => [[
+    [-122.4200, 37.7745], [-122.4196, 37.7745], [-122.4196, 37.7748], [-122.4200, 37.7748],
+  ].map(([longitude, latitude]) => ({ longitude, latitude }))], [])
+
+  const { floor, ceiling, testLat, testLng, testAlt } = useControls('Prism', {
+    floor: { value: 20, min: 0, max: 100, step: 5, label: 'Floor (m)' },
+    ceiling: { value: 80, min: 10, max: 200, step: 5, label: 'Ceiling (m)' },
+    testLat: { value: 37.7746, min: 37.774, max: 37.776, step: 0.0001, label: 'Test latitude' },
+    testLng: { value: -122.4202, min: -122.421, max: -122.418, step: 0.0001, label: 'Test longitude' },
+    testAlt: { value: 50, min: 0, max: 200, step: 5, label: 'Test altitude (m)' },
+  })
+
+  const inside = useMemo(() => {
+    if (!(ceiling > floor)) return false
+    const triangles = polygonPrismToGeoTriangles(ring, holes, { floor, ceiling })
+    return isCoordsInGeoTriangles({ latitude: testLat, longitude: testLng, altitude: testAlt }, triangles, origin).inside
+  }, [ring, holes, floor, ceiling, testLat, testLng, testAlt]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  return (
+    <StoryMap
+      longitude={center[0]}
+      latitude={center[1]}
+      zoom={17}
+      pitch={60}
+      bearing={0}
+      mapStyleUrl="https://basemaps.cartocdn.com/gl/dark-matter-gl-style/style.json"
+      canvas={{ frameloop: 'always' }}
+    >
+      <ambientLight intensity={0.6} />
+      <directionalLight position={[50, 100, 50]} intensity={1} />
+      {ceiling > floor && (
+        <GeofencePrism ring={ring} holes={holes} floor={floor} ceiling={ceiling}>
+          <meshStandardMaterial color="#3b82f6" opacity={0.3} transparent depthWrite={false} />
+        </GeofencePrism>
+      )}
+      <NearTestPoint origin={origin} coords={{ latitude: testLat, longitude: testLng, altitude: testAlt }} inside={inside} />
+    </StoryMap>
+  )
+}
+
+function NearTestPoint({ origin, coords, inside }: { origin: Coords, coords: Coords, inside: boolean }) {
+  const position = useMemo(() => coordsToVector3(coords, origin), [coords.latitude, coords.longitude, coords.altitude]) // eslint-disable-line react-hooks/exhaustive-deps
+  return (
+    <mesh position={position}>
+      <sphereGeometry args={[4]} />
+      <meshBasicMaterial color={inside ? '#22c55e' : '#ef4444'} />
+    </mesh>
+  )
+}
+
 const meta: Meta = {
   title: 'Geofence',
   parameters: {
@@ -400,3 +463,6 @@ Default.storyName = 'Point-in-Polyhedron Demo'
 
 export const GeoCoordinates = () => <GeoCoordsDemo />
 GeoCoordinates.storyName = 'Geographic Coordinates Test'
+
+export const Prism = () => <PrismDemo />
+Prism.storyName = 'Prism from Polygon and Altitude Band'
@@ -0,0 +1,40 @@
+import type { Meta } from '@storybook/react';
+import { Box } from "@react-three/drei";
+import { useControls } from "leva";
+import { Coordinates } from "@wendylabsinc/react-three-map";
+import { ColorRepresentation } from "three";
+import { StoryMap } from "./story-map-storybook";
+
+const cities: { name: string, latitude: number, longitude: number, color: ColorRepresentation }[] = [
+  { name: 'London', latitude: 51.5074, longitude: -0.1278, color: 'hotpink' },
+  { name: 'New York', latitude: 40.7128, longitude: -74.006, color: 'orange' },
+  { name: 'Tokyo', latitude: 35.6762, longitude: 139.6503, color: 'lime' },
+  { name: 'Sydney', latitude: -33.8688, longitude: 151.2093, color: 'cyan' },
+  { name: 'Buenos Aires', latitude: -34.6037, longitude: -58.3816, color: 'yellow' },
+];
+
+export function Default() {
+
+  const { size } = useControls({
+    size: { value: 200_000, min: 1_000, max: 1_000_000, step: 1_000, label: 'size (m)' },
+  })
+
+  // zoom in to see the globe blend into mercator, and spin it to hide cities behind the horizon
+  return <StoryMap latitude={51.5074} longitude={-0.1278} zoom={1.5} globe>
+    <hemisphereLight args={['#ffffff', '#60666C']} position={[1, 4.5, 3]} />
+    {cities.map(({ name, latitude, longitude, color }) => (
+      <Coordinates key={name} latitude={latitude} longitude={longitude}>
+        <Box args={[size, size, size]} position={[0, size / 2, 0]}>
+          <meshStandardMaterial color={color} />
+        </Box>
+      </Coordinates>
+    ))}
+  </StoryMap>
+}
+
+const meta: Meta = {
+  title: 'Globe',
+  component: Default,
+};
+
+export default meta;
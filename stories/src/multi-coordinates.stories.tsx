@@ -97,6 +97,36 @@ const MyBox = ({ position, color, scale }: {
   </object3D>
 }
 
+/** overlapping translucent volumes in different `Coordinates` */
+export function Transparency() {
+
+  const { redOrder, blueOrder } = useControls({
+    redOrder: { value: 0, step: 1, label: 'red renderOrder' },
+    blueOrder: { value: 0, step: 1, label: 'blue renderOrder' },
+  })
+
+  useEffect(()=>{
+    levaStore.setValueAtPath('overlay', false, true);
+  }, [])
+
+  return <StoryMap longitude={-0.1261} latitude={51.5087} zoom={17} pitch={60} canvas={{ frameloop: 'demand' }}>
+    <hemisphereLight args={['#ffffff', '#60666C']} position={[1, 4.5, 3]} />
+    <Coordinates longitude={-0.1261} latitude={51.5087} renderOrder={redOrder}>
+      <TranslucentSphere color="red" />
+    </Coordinates>
+    <Coordinates longitude={-0.1255} latitude={51.5089} renderOrder={blueOrder}>
+      <TranslucentSphere color="blue" />
+    </Coordinates>
+  </StoryMap>
+}
+
+const TranslucentSphere = ({ color }: { color: ColorRepresentation }) => (
+  <mesh position={[0, 30, 0]}>
+    <sphereGeometry args={[50]} />
+    <meshStandardMaterial color={color} transparent opacity={0.5} depthWrite={false} />
+  </mesh>
+)
+
 const meta: Meta = {
   title: 'Multi Coordinates',
   component: Default,
@@ -29,6 +29,8 @@ export interface StoryMapProps extends PropsWithChildren {
   maplibreStyle?: any,
   mapboxStyle?: any,
   mapStyleUrl?: string, // Added for backward compatibility
+  /** show the map as a globe */
+  globe?: boolean,
 }
 
 /** `<Map>` styled for stories */
@@ -46,13 +48,14 @@ export const StoryMap: FC<StoryMapProps> = (props) => {
     maplibreChildren,
     maplibreStyle,
     mapboxStyle = 'mapbox://styles/mapbox/dark-v11',
-    mapStyleUrl // For backward compatibility
+    mapStyleUrl, // For backward compatibility
+    globe,
   } = props;
   
   // Use mapStyleUrl as fallback for maplibreStyle if provided
   const actualMaplibreStyle = maplibreStyle || mapStyleUrl || 'https://basemaps.cartocdn.com/gl/dark-matter-gl-style/style.json';
 
-  const { mapProvider, overlay } = useControls({
+  const { mapProvider, overlay, floatingOrigin } = useControls({
     mapProvider: {
       value: MapProvider.maplibre,
       options: MapProvider,
@@ -60,10 +63,14 @@ export const StoryMap: FC<StoryMapProps> = (props) => {
     },
     overlay: {
       value: true,
-    }
+    },
+    floatingOrigin: {
+      value: false,
+      label: 'floating origin',
+    },
   });
 
-  const canvasProps = { overlay, ...canvas };
+  const canvasProps = { overlay, floatingOrigin, ...canvas };
   const mapChildrenWithOverlay = isValidElement(mapChildren)
     ? cloneElement(mapChildren as ReactElement<{ overlay?: boolean }>, { overlay })
     : mapChildren;
@@ -92,6 +99,7 @@ export const StoryMap: FC<StoryMapProps> = (props) => {
           bearing
         }}
         mapStyle={actualMaplibreStyle}
+        projection={globe ? 'globe' : undefined}
       >
         <MaplibreCanvas latitude={latitude} longitude={longitude} {...canvasProps}>
           {childrenWithOverlay}
@@ -113,6 +121,7 @@ export const StoryMap: FC<StoryMapProps> = (props) => {
           bearing
         }}
         mapStyle={mapboxStyle}
+        projection={globe ? 'globe' : undefined}
       >
         <MapboxCanvas latitude={latitude} longitude={longitude} {...canvasProps}>
           {childrenWithOverlay}
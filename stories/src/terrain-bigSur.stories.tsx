@@ -1,8 +1,7 @@
 import { Cone } from "@react-three/drei";
 import { useControls } from "leva";
-import { FC, useCallback, useEffect, useMemo, useState } from "react";
-import { useMap } from "@wendylabsinc/react-three-map";
-import { Euler, Matrix4, Vector3, Vector3Tuple } from "three";
+import { FC, useEffect, useMemo, useState } from "react";
+import { GeoTransform, geoTransformToMatrix, useOrigin } from "@wendylabsinc/react-three-map";
 import { EnhancedPivotControls } from "@wendylabsinc/react-three-map";
 import { StoryMap } from "./story-map-storybook";
 
@@ -29,17 +28,11 @@ export function TerrainWithPivotControls() {
     translationThickness: { value: 0.015, min: 0.005, max: 0.05, step: 0.005, label: 'Translation Thickness' },
     arrowHeadSize: { value: 0.05, min: 0.02, max: 0.15, step: 0.01, label: 'Arrow Head Size' },
     arrowLength: { value: 1, min: 0.5, max: 2, step: 0.1, label: 'Arrow Length' },
-    arrowHeadLength: { value: 0.2, min: 0.1, max: 0.5, step: 0.05, label: 'Arrow Head Length' }
+    arrowHeadLength: { value: 0.2, min: 0.1, max: 0.5, step: 0.05, label: 'Arrow Head Length' },
+    translationSnap: { value: 0, min: 0, max: 100, step: 5, label: 'Translation Snap (m)' },
+    rotationSnap: { value: 0, min: 0, max: 90, step: 5, label: 'Rotation Snap (°)' },
+    snapToTerrain: { value: true, label: 'Snap To Terrain' },
   })
-  const [position, setPosition] = useState<Vector3Tuple>([0, 0, 0]);
-  const [rotation, setRotation] = useState<Vector3Tuple>([0, 0, 0]);
-
-  // reset on origin change
-  useEffect(() => {
-    setPosition([0, 0, 0]);
-    setRotation([0, 0, 0]);
-  }, [origin.latitude, origin.longitude])
-
   // Prepare the mapStyle for MapLibre with terrain
   const maplibreStyle = {
     version: 8,
@@ -154,16 +147,13 @@ export function TerrainWithPivotControls() {
     mapboxStyle={mapboxStyle}
     canvas={{
       shadows: true,
-      frameloop: 'always'
+      frameloop: 'always',
+      altitudeReference: 'terrain'
     }}
   >
     <ambientLight intensity={0.8} />
     <directionalLight position={[10, 10, 5]} intensity={1} />
     <Move
-      position={position}
-      rotation={rotation}
-      setPosition={setPosition}
-      setRotation={setRotation}
       showTranslation={origin.showTranslation}
       showRotationX={origin.showRotationX}
       showRotationY={origin.showRotationY}
@@ -175,23 +165,14 @@ export function TerrainWithPivotControls() {
       arrowHeadSize={origin.arrowHeadSize}
       arrowLength={origin.arrowLength}
       arrowHeadLength={origin.arrowHeadLength}
+      translationSnap={origin.translationSnap}
+      rotationSnap={origin.rotationSnap}
+      snapToTerrain={origin.snapToTerrain}
     />
-    <Cone
-      args={[50, 100, 8]}
-      position={position}
-      rotation={rotation}
-    >
-      <meshStandardMaterial color="orange" />
-    </Cone>
-    <axesHelper position={position} rotation={rotation} args={[1000]} />
   </StoryMap>
 }
 
 interface MovingBoxProps {
-  position: Vector3Tuple,
-  rotation: Vector3Tuple,
-  setPosition: (pos: Vector3Tuple) => void,
-  setRotation: (rot: Vector3Tuple) => void,
   showTranslation: boolean,
   showRotationX: boolean,
   showRotationY: boolean,
@@ -202,17 +183,13 @@ interface MovingBoxProps {
   translationThickness: number,
   arrowHeadSize: number,
   arrowLength: number,
-  arrowHeadLength: number
+  arrowHeadLength: number,
+  translationSnap: number,
+  rotationSnap: number,
+  snapToTerrain: boolean
 }
 
-const _v3 = new Vector3()
-const _euler = new Euler()
-
 const Move: FC<MovingBoxProps> = ({
-  position,
-  rotation,
-  setPosition,
-  setRotation,
   showTranslation,
   showRotationX,
   showRotationY,
@@ -223,45 +200,21 @@ const Move: FC<MovingBoxProps> = ({
   translationThickness,
   arrowHeadSize,
   arrowLength,
-  arrowHeadLength
+  arrowHeadLength,
+  translationSnap,
+  rotationSnap,
+  snapToTerrain
 }) => {
-  const matrix = useMemo(() => {
-    const m = new Matrix4();
-    m.makeRotationFromEuler(_euler.fromArray(rotation));
-    m.setPosition(...position);
-    return m;
-  }, [position, rotation]);
-
-  const map = useMap();
+  // the origin altitude comes from the terrain, start on the ground
+  const origin = useOrigin();
+  const [geo, setGeo] = useState<GeoTransform>({ coords: origin, headingDeg: 0, pitchDeg: 0, rollDeg: 0 });
 
-  const onDragStart = useCallback(() => {
-    // Disable map interactions to allow pivot control dragging
-    if (map) {
-      map.dragPan.disable();
-      map.dragRotate.disable();
-      map.doubleClickZoom.disable();
-    }
-  }, [map]);
-
-  const onDragEnd = useCallback(() => {
-    // Re-enable map interactions after dragging
-    if (map) {
-      // Use setTimeout to avoid immediate re-enabling that could capture the release event
-      setTimeout(() => {
-        map.dragPan.enable();
-        map.dragRotate.enable();
-        map.doubleClickZoom.enable();
-      }, 50);
-    }
-  }, [map]);
+  // reset on origin change
+  useEffect(() => {
+    setGeo({ coords: origin, headingDeg: 0, pitchDeg: 0, rollDeg: 0 });
+  }, [origin])
 
-  const onDrag = useCallback((m4: Matrix4) => {
-    setPosition(_v3.setFromMatrixPosition(m4).toArray());
-    if (showRotationX || showRotationY || showRotationZ) {
-      _euler.setFromRotationMatrix(m4);
-      setRotation(_euler.toArray() as Vector3Tuple);
-    }
-  }, [setPosition, setRotation, showRotationX, showRotationY, showRotationZ])
+  const matrix = useMemo(() => geoTransformToMatrix(geo, origin), [geo, origin]);
 
   const disableRotations = useMemo(() => {
     return [!showRotationX, !showRotationY, !showRotationZ] as [boolean, boolean, boolean];
@@ -271,24 +224,34 @@ const Move: FC<MovingBoxProps> = ({
     return [!showTranslation, !showTranslation, !showTranslation] as [boolean, boolean, boolean];
   }, [showTranslation]);
 
-  return (
+  return <>
     <EnhancedPivotControls
       fixed
-      matrix={matrix}
+      coords={geo.coords}
+      heading={geo.headingDeg}
+      pitch={geo.pitchDeg}
+      roll={geo.rollDeg}
       disableRotations={disableRotations}
       disableTranslations={disableTranslations}
       scale={scale}
-      onDragStart={onDragStart}
-      onDragEnd={onDragEnd}
-      onDrag={onDrag}
+      onGeoDrag={setGeo}
       annotations={showLabels}
       rotationThickness={rotationThickness}
       translationThickness={translationThickness}
       arrowHeadSize={arrowHeadSize}
       arrowLength={arrowLength}
       arrowHeadLength={arrowHeadLength}
+      translationSnap={translationSnap}
+      rotationSnap={rotationSnap}
+      snapTo={snapToTerrain ? 'terrain' : undefined}
     />
-  )
+    <group matrix={matrix} matrixAutoUpdate={false}>
+      <Cone args={[50, 100, 8]}>
+        <meshStandardMaterial color="orange" />
+      </Cone>
+      <axesHelper args={[1000]} />
+    </group>
+  </>
 }
 
 export default {